@@ -135,6 +135,7 @@ VALUES
   -- Boosts (example consumables / unlocks; MVP: still treat as owned = true, can evolve later)
   ('boost.bomb.plus1', 'boosts', 'Bomb +1', 'Adds one extra bomb charge (MVP)', 25, TRUE, TRUE, 10, '{"boost":"bomb_plus1","value":1}'::jsonb),
   ('boost.score.5pct', 'boosts', 'Score +5%', 'Permanent score bonus (MVP)',    75, TRUE, TRUE, 20, '{"boost":"score_bonus","value":5}'::jsonb),
+  ('boost.remote_detonate', 'boosts', 'Remote Detonator', 'Detonate your oldest bomb on demand in multiplayer', 50, TRUE, TRUE, 30, '{"boost":"remote_detonate"}'::jsonb),
 
   -- Cosmetics
   ('cosmetic.frame.dark', 'cosmetics', 'Dark Frame', 'Cosmetic frame style (MVP)', 40, TRUE, TRUE, 10, '{"cosmetic":"frame_dark"}'::jsonb),
@@ -255,6 +256,17 @@ CREATE INDEX IF NOT EXISTS idx_rooms_public_name
 ALTER TABLE room_members
   ADD COLUMN IF NOT EXISTS ready BOOLEAN NOT NULL DEFAULT FALSE;
 
+-- Team index for team matches (NULL = free-for-all)
+ALTER TABLE room_members
+  ADD COLUMN IF NOT EXISTS team SMALLINT NULL;
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS friendly_fire BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Match ruleset chosen in the lobby (NULL = classic)
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS ruleset JSONB NULL;
+
 -- =========================================
 -- FRIENDS (Stage 4.1B)
 -- =========================================
@@ -298,3 +310,187 @@ ALTER TABLE referrals
 
 CREATE INDEX IF NOT EXISTS idx_referrals_referrer
   ON referrals (referrer_user_id, created_at DESC);
+
+-- =========================================
+-- MATCH INCIDENTS (input abuse flags, admin review)
+-- =========================================
+
+-- tg_user_id has no FK: dev identities never get a users row.
+CREATE TABLE IF NOT EXISTS match_incidents (
+  id TEXT PRIMARY KEY,
+  match_id TEXT NOT NULL,
+  room_code TEXT NULL,
+  tg_user_id TEXT NOT NULL,
+  kind TEXT NOT NULL, -- input_flood | bomb_flood | move_rate | bomb_far
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  kicked BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_incidents_match_time
+  ON match_incidents (match_id, created_at);
+
+-- =========================================
+-- CLUSTER (room affinity across backend nodes)
+-- =========================================
+
+-- One row per running backend process; a node whose heartbeat goes stale loses its rooms.
+CREATE TABLE IF NOT EXISTS ws_nodes (
+  node_id TEXT PRIMARY KEY,
+  ws_url TEXT NULL, -- where clients reach this node directly; NULL on a single-node deploy
+  started_at BIGINT NOT NULL,
+  heartbeat_at BIGINT NOT NULL
+);
+
+-- The node that runs each room's match. No FK: the row is cleared when the node drops the room.
+CREATE TABLE IF NOT EXISTS room_nodes (
+  room_code TEXT PRIMARY KEY,
+  node_id TEXT NOT NULL,
+  assigned_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_nodes_node
+  ON room_nodes (node_id);
+
+-- A user is online while any node holds a socket for them.
+CREATE TABLE IF NOT EXISTS user_presence (
+  tg_user_id TEXT NOT NULL,
+  node_id TEXT NOT NULL,
+  updated_at BIGINT NOT NULL,
+  PRIMARY KEY (tg_user_id, node_id)
+);
+
+-- Last multiplayer room per user for /api/resume; any node may serve the request.
+CREATE TABLE IF NOT EXISTS mp_last_sessions (
+  tg_user_id TEXT PRIMARY KEY,
+  room_code TEXT NOT NULL,
+  match_id TEXT NULL,
+  last_active_at BIGINT NOT NULL
+);
+
+-- Live matches written by a node on shutdown. The first node to look adopts them
+-- and players rejoin there.
+CREATE TABLE IF NOT EXISTS persisted_matches (
+  match_id TEXT PRIMARY KEY,
+  room_code TEXT NOT NULL,
+  node_id TEXT NOT NULL,
+  state JSONB NOT NULL,
+  saved_at BIGINT NOT NULL
+);
+
+-- =========================================
+-- MATCHMAKING (quick play)
+-- =========================================
+
+-- Skill rating per player and mode (ffa | team); players without a row count as 1500.
+CREATE TABLE IF NOT EXISTS player_ratings (
+  tg_user_id TEXT NOT NULL REFERENCES users(tg_user_id) ON DELETE CASCADE,
+  mode TEXT NOT NULL,
+  rating INTEGER NOT NULL,
+  updated_at BIGINT NOT NULL,
+  PRIMARY KEY (tg_user_id, mode)
+);
+
+-- One row per queued player. Players offered the same match share `proposal_id`
+-- until all accept (the room is created and the rows go) or the offer lapses.
+CREATE TABLE IF NOT EXISTS matchmaking_tickets (
+  tg_user_id TEXT PRIMARY KEY REFERENCES users(tg_user_id) ON DELETE CASCADE,
+  mode SMALLINT NOT NULL, -- players per match: 2 | 3 | 4
+  rating INTEGER NOT NULL,
+  enqueued_at BIGINT NOT NULL,
+  proposal_id TEXT NULL,
+  proposed_at BIGINT NULL,
+  accepted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE INDEX IF NOT EXISTS idx_matchmaking_tickets_proposal
+  ON matchmaking_tickets (proposal_id);
+
+-- Quick-play rooms start on their own once every matched player has joined.
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS matchmade BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- =========================================
+-- MATCH RESULTS & RATINGS
+-- =========================================
+
+-- One row per finished multiplayer match; rating_mode is ffa | team.
+CREATE TABLE IF NOT EXISTS match_results (
+  match_id TEXT PRIMARY KEY,
+  room_code TEXT NOT NULL,
+  rating_mode TEXT NOT NULL,
+  reason TEXT NOT NULL, -- elimination | draw | timeout
+  winner_tg_user_id TEXT NULL,
+  winner_team SMALLINT NULL,
+  end_tick INTEGER NOT NULL,
+  ended_at BIGINT NOT NULL
+);
+
+-- Placement 1 is best; ratings are the player's before and after this match.
+CREATE TABLE IF NOT EXISTS match_result_players (
+  match_id TEXT NOT NULL REFERENCES match_results(match_id) ON DELETE CASCADE,
+  tg_user_id TEXT NOT NULL REFERENCES users(tg_user_id) ON DELETE CASCADE,
+  team SMALLINT NULL,
+  placement SMALLINT NOT NULL,
+  rating_before INTEGER NOT NULL,
+  rating_after INTEGER NOT NULL,
+  PRIMARY KEY (match_id, tg_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_result_players_user
+  ON match_result_players (tg_user_id);
+
+-- Glicko deviation: 350 for a newcomer, shrinking with every rated match.
+ALTER TABLE player_ratings
+  ADD COLUMN IF NOT EXISTS deviation DOUBLE PRECISION NOT NULL DEFAULT 350;
+
+ALTER TABLE player_ratings
+  ADD COLUMN IF NOT EXISTS games INTEGER NOT NULL DEFAULT 0;
+
+-- Per-player match stats for history; survival_ticks runs to elimination or the end of the match.
+ALTER TABLE match_result_players
+  ADD COLUMN IF NOT EXISTS bombs_placed INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE match_result_players
+  ADD COLUMN IF NOT EXISTS tiles_destroyed INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE match_result_players
+  ADD COLUMN IF NOT EXISTS kills INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE match_result_players
+  ADD COLUMN IF NOT EXISTS deaths_explosion INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE match_result_players
+  ADD COLUMN IF NOT EXISTS deaths_enemy INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE match_result_players
+  ADD COLUMN IF NOT EXISTS survival_ticks INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE match_results
+  ADD COLUMN IF NOT EXISTS has_replay BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Gzipped replay_v1 JSON, written before the match result so any node can serve it.
+CREATE TABLE IF NOT EXISTS match_replays (
+  match_id TEXT PRIMARY KEY,
+  replay BYTEA NOT NULL,
+  created_at BIGINT NOT NULL
+);
+
+-- =========================================
+-- ROOM INVITES
+-- =========================================
+
+-- A room member inviting a friend. While unexpired and the inviter is still in
+-- the room, the invite lets the friend in without the room password.
+CREATE TABLE IF NOT EXISTS room_invites (
+  invite_id TEXT PRIMARY KEY,
+  room_code TEXT NOT NULL,
+  from_tg_user_id TEXT NOT NULL REFERENCES users(tg_user_id) ON DELETE CASCADE,
+  to_tg_user_id TEXT NOT NULL REFERENCES users(tg_user_id) ON DELETE CASCADE,
+  created_at BIGINT NOT NULL,
+  expires_at BIGINT NOT NULL,
+  accepted_at BIGINT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_invites_room
+  ON room_invites (room_code);
@@ -10,9 +10,18 @@ import {
   respondFriendRequest,
   searchUsers,
 } from '../db/repos';
+import type { FriendsChangeReason } from '../mp/protocol';
+import { listOnlineFriendIds, notifyUsers } from '../ws/cluster';
 
 export const friendsRouter = Router();
 
+// The other side may be connected to any node; a failed notice only costs them a refresh.
+function notifyFriendsChanged(tgUserId: string, reason: FriendsChangeReason): void {
+  void notifyUsers([tgUserId], { type: 'friends:changed', reason }).catch((error: unknown) => {
+    console.error('Friends notice failed:', error);
+  });
+}
+
 friendsRouter.get('/', async (req, res) => {
   const session = await resolveSessionFromRequest(req as any);
   if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
@@ -22,12 +31,14 @@ friendsRouter.get('/', async (req, res) => {
     listIncomingRequestsV2(session.tgUserId),
     listOutgoingRequestsV2(session.tgUserId),
   ]);
+  const onlineIds = await listOnlineFriendIds(confirmedRaw.map((u) => u.userId));
 
   return res.status(200).json({
     ok: true,
     friends: confirmedRaw.map((u) => ({
       tgUserId: u.userId,
       displayName: u.displayName,
+      online: onlineIds.has(u.userId),
     })),
     incoming: incomingRaw.map((r) => ({
       requestId: r.requestId,
@@ -65,9 +76,10 @@ friendsRouter.post('/request', async (req, res) => {
 
   try {
     if (username) {
-      await createFriendRequestByUsername(session.tgUserId, username);
+      notifyFriendsChanged(await createFriendRequestByUsername(session.tgUserId, username), 'request');
     } else if (toTgUserId) {
       await requestFriend(session.tgUserId, toTgUserId);
+      notifyFriendsChanged(toTgUserId, 'request');
     } else {
       return res.status(400).json({ ok: false, error: 'invalid_payload' });
     }
@@ -103,6 +115,7 @@ friendsRouter.post('/respond', async (req, res) => {
 
   try {
     await respondFriendRequest(session.tgUserId, fromId, action);
+    notifyFriendsChanged(fromId, action === 'accept' ? 'accepted' : 'declined');
     return res.status(200).json({ ok: true });
   } catch (error: any) {
     if (error?.code === 'REQUEST_NOT_FOUND') return res.status(404).json({ ok: false, error: 'request_not_found' });
@@ -119,6 +132,7 @@ friendsRouter.post('/cancel', async (req, res) => {
 
   try {
     await cancelFriendRequest(session.tgUserId, requestId);
+    notifyFriendsChanged(String(requestId.split(':')[1] ?? ''), 'cancelled');
     return res.status(200).json({ ok: true });
   } catch (error: any) {
     if (error?.code === 'FORBIDDEN') return res.status(403).json({ ok: false, error: 'forbidden' });
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+
+import { resolveSessionFromRequest } from '../auth/session';
+import { getAdminTgUserIds } from '../config/env';
+import { getMatchReplay, getMatchResult, listMatchHistory, listMatchIncidents } from '../db/repos';
+import { buildReplayFromFile, parseReplayData } from '../mp/replayStore';
+
+export const matchesRouter = Router();
+
+const MATCH_HISTORY_PAGE_SIZE = 20;
+const MATCH_HISTORY_MAX_PAGE_SIZE = 50;
+
+// The caller's finished matches, newest first. `before` is the `nextBefore` of the previous page.
+matchesRouter.get('/matches/me', async (req, res) => {
+  const session = await resolveSessionFromRequest(req as any);
+  if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
+
+  const limitRaw = Number(req.query?.limit ?? MATCH_HISTORY_PAGE_SIZE);
+  const beforeRaw = req.query?.before === undefined ? undefined : Number(req.query.before);
+  if (!Number.isInteger(limitRaw) || limitRaw < 1) return res.status(400).json({ ok: false, error: 'limit_invalid' });
+  if (beforeRaw !== undefined && !(Number.isInteger(beforeRaw) && beforeRaw > 0)) {
+    return res.status(400).json({ ok: false, error: 'before_invalid' });
+  }
+
+  const limit = Math.min(MATCH_HISTORY_MAX_PAGE_SIZE, limitRaw);
+  try {
+    const matches = await listMatchHistory({ tgUserId: session.tgUserId, limit, beforeMs: beforeRaw });
+    const nextBefore = matches.length === limit ? matches[matches.length - 1]!.endedAtMs : null;
+    return res.status(200).json({ ok: true, matches, nextBefore });
+  } catch {
+    return res.status(500).json({ ok: false, error: 'internal_error' });
+  }
+});
+
+matchesRouter.get('/matches/:matchId', async (req, res) => {
+  const session = await resolveSessionFromRequest(req as any);
+  if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
+
+  const matchId = String((req as any).params?.matchId ?? '').trim();
+  if (!matchId) return res.status(400).json({ ok: false, error: 'match_id_required' });
+
+  try {
+    const match = await getMatchResult(matchId);
+    if (!match) return res.status(404).json({ ok: false, error: 'match_not_found' });
+
+    return res.status(200).json({ ok: true, match });
+  } catch {
+    return res.status(500).json({ ok: false, error: 'internal_error' });
+  }
+});
+
+matchesRouter.get('/matches/:matchId/replay', async (req, res) => {
+  const session = await resolveSessionFromRequest(req as any);
+  if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
+
+  const matchId = String((req as any).params?.matchId ?? '').trim();
+  if (!matchId) return res.status(400).json({ ok: false, error: 'match_id_required' });
+
+  try {
+    const data = await getMatchReplay(matchId);
+    const file = data ? await parseReplayData(data) : null;
+    if (!file) return res.status(404).json({ ok: false, error: 'replay_not_found' });
+
+    return res.status(200).json({ ok: true, replay: buildReplayFromFile(file) });
+  } catch {
+    return res.status(500).json({ ok: false, error: 'internal_error' });
+  }
+});
+
+// Admin only: input abuse flagged during a match, oldest first.
+matchesRouter.get('/matches/:matchId/incidents', async (req, res) => {
+  const session = await resolveSessionFromRequest(req as any);
+  if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
+  if (!getAdminTgUserIds().has(session.tgUserId)) return res.status(403).json({ ok: false, error: 'forbidden' });
+
+  const matchId = String((req as any).params?.matchId ?? '').trim();
+  if (!matchId) return res.status(400).json({ ok: false, error: 'match_id_required' });
+
+  try {
+    const incidents = await listMatchIncidents(matchId);
+    return res.status(200).json({ ok: true, incidents });
+  } catch {
+    return res.status(500).json({ ok: false, error: 'internal_error' });
+  }
+});
@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import { resolveSessionFromRequest } from '../auth/session';
+import type { MatchmakingMode } from '../mp/protocol';
+import { enqueueForMatch, getMatchmakingStatus, leaveMatchmaking } from '../ws/matchmaker';
+
+export const matchmakingRouter = Router();
+
+// Offers (`mm:matched`) only arrive over the socket; these let a client queue and recover its state without one.
+matchmakingRouter.get('/', async (req, res) => {
+  const session = await resolveSessionFromRequest(req as any);
+  if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
+
+  try {
+    return res.status(200).json({ ok: true, status: await getMatchmakingStatus(session.tgUserId) });
+  } catch {
+    return res.status(500).json({ ok: false, error: 'internal_error' });
+  }
+});
+
+matchmakingRouter.post('/queue', async (req, res) => {
+  const session = await resolveSessionFromRequest(req as any);
+  if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
+
+  const mode = Number((req as any).body?.mode);
+  if (![2, 3, 4].includes(mode)) return res.status(400).json({ ok: false, error: 'mode_invalid' });
+
+  try {
+    const status = await enqueueForMatch(session.tgUserId, mode as MatchmakingMode);
+    return res.status(200).json({ ok: true, status });
+  } catch {
+    return res.status(500).json({ ok: false, error: 'internal_error' });
+  }
+});
+
+matchmakingRouter.delete('/queue', async (req, res) => {
+  const session = await resolveSessionFromRequest(req as any);
+  if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
+
+  try {
+    return res.status(200).json({ ok: true, status: await leaveMatchmaking(session.tgUserId) });
+  } catch {
+    return res.status(500).json({ ok: false, error: 'internal_error' });
+  }
+});
@@ -8,6 +8,7 @@ import {
   getUserSettings,
   getReferralStats,
   isNicknameAvailable,
+  listPlayerRatingsForUser,
   redeemReferral,
   setNickname,
   updateDisplayNameWithLimit,
@@ -24,6 +25,7 @@ profileRouter.get('/profile/me', async (req, res) => {
   if (!uw) return res.status(404).json({ ok: false, error: 'User not found' });
 
   const gameUserId = uw.user.gameUserId ?? await ensureGameUserId(s.tgUserId);
+  const ratings = await listPlayerRatingsForUser(s.tgUserId);
   return res.status(200).json({
     ok: true,
     user: {
@@ -31,6 +33,7 @@ profileRouter.get('/profile/me', async (req, res) => {
       gameUserId,
     },
     wallet: uw.wallet,
+    ratings,
   });
 });
 
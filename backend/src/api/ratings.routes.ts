@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { resolveSessionFromRequest } from '../auth/session';
+import { listPlayerRatingsForUser, listRatingTop } from '../db/repos';
+import type { RatingMode } from '../mp/rating';
+
+export const ratingsRouter = Router();
+
+function isRatingMode(mode: string): mode is RatingMode {
+  return mode === 'ffa' || mode === 'team';
+}
+
+ratingsRouter.get('/:mode', async (req, res) => {
+  const mode = String(req.params.mode ?? '').trim().toLowerCase();
+  if (!isRatingMode(mode)) return res.status(400).json({ ok: false, error: 'invalid_mode' });
+
+  const session = await resolveSessionFromRequest(req as any);
+
+  try {
+    const top = await listRatingTop(mode, 100);
+    const me = session ? (await listPlayerRatingsForUser(session.tgUserId)).find((entry) => entry.mode === mode) ?? null : null;
+    return res.status(200).json({ ok: true, mode, top, me });
+  } catch {
+    return res.status(500).json({ ok: false, error: 'internal_error' });
+  }
+});
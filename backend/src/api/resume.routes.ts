@@ -11,7 +11,7 @@ resumeRouter.get('/resume', async (req, res) => {
   const session = await resolveSessionFromRequest(req as any);
   if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
 
-  const lastSession = getLastMpSessionIfEligible(session.tgUserId);
+  const lastSession = await getLastMpSessionIfEligible(session.tgUserId);
   if (!lastSession) {
     return res.status(200).json({ canResume: false });
   }
@@ -21,8 +21,12 @@ resumeRouter.get('/resume', async (req, res) => {
     return res.status(200).json({ canResume: false });
   }
 
+  // Without a local match the room may run on another node; the WS join there re-checks the player.
   const match = getMatchByRoom(lastSession.roomCode);
-  if (!match || match.ended || match.players.has(session.tgUserId) === false) {
+  if (match && (match.ended || match.players.has(session.tgUserId) === false)) {
+    return res.status(200).json({ canResume: false });
+  }
+  if (!match && (room.phase !== 'STARTED' || !lastSession.matchId)) {
     return res.status(200).json({ canResume: false });
   }
 
@@ -30,7 +34,7 @@ resumeRouter.get('/resume', async (req, res) => {
     canResume: true,
     mode: 'mp',
     roomCode: lastSession.roomCode,
-    matchId: match.matchId ?? lastSession.matchId ?? null,
+    matchId: match?.matchId ?? lastSession.matchId,
     lastActiveAtMs: lastSession.lastActiveAtMs,
   });
 });
@@ -2,8 +2,10 @@ import { Router } from 'express';
 import { resolveSessionFromRequest } from '../auth/session';
 import {
   closeRoomTx,
+  createRoomInvite,
   createRoomPublic,
   createRoomTx,
+  getPlayerRatings,
   getRoomByCode,
   joinRoomTx,
   joinRoomWithPassword,
@@ -15,12 +17,26 @@ import {
   listRoomMembers,
   resumeRoomTx,
   setRoomMemberReadyTx,
+  setRoomMemberTeam,
+  setRoomMemberTeams,
+  setRoomRuleset,
   startRoomTx,
 } from '../db/repos';
-import { touchLastMpSession } from '../mp/lastSessionStore';
+import { balanceTeams, DEFAULT_RATING } from '../mp/rating';
+import { parseMatchRuleset, resolveMatchRuleset } from '../mp/ruleset';
+import { clearLastMpSession, touchLastMpSession } from '../mp/lastSessionStore';
+import { isNodeDraining, notifyUsers } from '../ws/cluster';
 
 export const roomsRouter = Router();
 
+const ROOM_INVITE_TTL_MS = 10 * 60_000;
+
+// `room_<CODE>_<inviteId>` opens the Mini App and joins the room; without a bot name the client builds its own link.
+function roomInviteDeepLink(startParam: string): string | null {
+  const tgBotUsername = String(process.env.TG_BOT_USERNAME ?? '').trim();
+  return tgBotUsername ? `https://t.me/${tgBotUsername}?startapp=${encodeURIComponent(startParam)}` : null;
+}
+
 roomsRouter.post('/', async (req, res) => {
   const session = await resolveSessionFromRequest(req as any);
   if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
@@ -28,11 +44,14 @@ roomsRouter.post('/', async (req, res) => {
   const capacity = Number((req as any).body?.capacity);
   const name = String((req as any).body?.name ?? '').trim();
   const password = String((req as any).body?.password ?? '');
+  const friendlyFire = (req as any).body?.friendlyFire === true;
   if (![2, 3, 4].includes(capacity)) return res.status(400).json({ ok: false, error: 'capacity_invalid' });
   if (!name) return res.status(400).json({ ok: false, error: 'name_required' });
+  // This node is shutting down; the client retries and lands on one that stays up.
+  if (isNodeDraining()) return res.status(503).json({ ok: false, error: 'server_draining' });
 
   try {
-    const room = await createRoomPublic({ tgUserId: session.tgUserId, name, capacity: capacity as 2 | 3 | 4, password: password || undefined });
+    const room = await createRoomPublic({ tgUserId: session.tgUserId, name, capacity: capacity as 2 | 3 | 4, password: password || undefined, friendlyFire });
     touchLastMpSession({ tgUserId: session.tgUserId, roomCode: room.code, matchId: null });
     return res.status(200).json({ room });
   } catch {
@@ -57,7 +76,12 @@ roomsRouter.post('/:code/join', async (req, res) => {
   if (!roomCode) return res.status(400).json({ ok: false, error: 'room_code_required' });
 
   try {
-    const room = await joinRoomWithPassword({ tgUserId: session.tgUserId, roomCode, password: String((req as any).body?.password ?? '') || undefined });
+    const room = await joinRoomWithPassword({
+      tgUserId: session.tgUserId,
+      roomCode,
+      password: String((req as any).body?.password ?? '') || undefined,
+      inviteId: String((req as any).body?.inviteId ?? '').trim() || undefined,
+    });
     touchLastMpSession({ tgUserId: session.tgUserId, roomCode: room.code, matchId: null });
     return res.status(200).json({ room });
   } catch (error: any) {
@@ -69,6 +93,42 @@ roomsRouter.post('/:code/join', async (req, res) => {
   }
 });
 
+roomsRouter.post('/:code/invite', async (req, res) => {
+  const session = await resolveSessionFromRequest(req as any);
+  if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
+
+  const roomCode = String((req as any).params?.code ?? '').trim().toUpperCase();
+  const toTgUserId = String((req as any).body?.tgUserId ?? '').trim();
+  if (!roomCode) return res.status(400).json({ ok: false, error: 'room_code_required' });
+  if (!toTgUserId) return res.status(400).json({ ok: false, error: 'tg_user_id_required' });
+
+  try {
+    const nowMs = Date.now();
+    const invite = await createRoomInvite({ fromTgUserId: session.tgUserId, toTgUserId, roomCode, nowMs, expiresAtMs: nowMs + ROOM_INVITE_TTL_MS });
+    const startParam = `room_${invite.roomCode}_${invite.inviteId}`;
+
+    // Offline friends still get the link the inviter shares; a lost notice costs nothing else.
+    void notifyUsers([toTgUserId], {
+      type: 'invite:received',
+      inviteId: invite.inviteId,
+      roomCode: invite.roomCode,
+      fromTgUserId: invite.fromTgUserId,
+      fromDisplayName: invite.fromDisplayName,
+      expiresAtMs: invite.expiresAtMs,
+    }).catch((error: unknown) => {
+      console.error('Room invite notice failed:', error);
+    });
+
+    return res.status(200).json({ ok: true, invite, startParam, deepLink: roomInviteDeepLink(startParam) });
+  } catch (error: any) {
+    if (error?.code === 'ROOM_NOT_FOUND') return res.status(404).json({ ok: false, error: 'room_not_found' });
+    if (error?.code === 'ROOM_STARTED') return res.status(409).json({ ok: false, error: 'room_started' });
+    if (error?.code === 'NOT_A_MEMBER') return res.status(403).json({ ok: false, error: 'forbidden' });
+    if (error?.code === 'NOT_FRIENDS') return res.status(403).json({ ok: false, error: 'not_friends' });
+    return res.status(500).json({ ok: false, error: 'internal_error' });
+  }
+});
+
 roomsRouter.post('/:code/leave', async (req, res) => {
   const session = await resolveSessionFromRequest(req as any);
   if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
@@ -78,6 +138,7 @@ roomsRouter.post('/:code/leave', async (req, res) => {
 
   try {
     await leaveRoomV2({ tgUserId: session.tgUserId, roomCode });
+    await clearLastMpSession(session.tgUserId);
     return res.status(200).json({ ok: true });
   } catch (error: any) {
     if (error?.code === 'ROOM_NOT_FOUND') return res.status(404).json({ ok: false, error: 'room_not_found' });
@@ -103,9 +164,12 @@ roomsRouter.post('/create', async (req, res) => {
   if (![2, 3, 4].includes(capacity)) {
     return res.status(400).json({ ok: false, error: 'capacity_invalid' });
   }
+  if (isNodeDraining()) {
+    return res.status(503).json({ ok: false, error: 'server_draining' });
+  }
 
   try {
-    const created = await createRoomTx(session.tgUserId, capacity);
+    const created = await createRoomTx(session.tgUserId, capacity, { friendlyFire: (req as any).body?.friendlyFire === true });
     touchLastMpSession({ tgUserId: session.tgUserId, roomCode: created.roomCode, matchId: null });
     return res.status(200).json({ ok: true, roomCode: created.roomCode, capacity });
   } catch {
@@ -203,6 +267,78 @@ roomsRouter.post('/ready', async (req, res) => {
   }
 });
 
+roomsRouter.post('/team', async (req, res) => {
+  const session = await resolveSessionFromRequest(req as any);
+  if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
+
+  const roomCode = String((req as any).body?.roomCode ?? '').trim().toUpperCase();
+  if (!roomCode) return res.status(400).json({ ok: false, error: 'room_code_required' });
+
+  const teamRaw = (req as any).body?.team;
+  if (teamRaw !== null && !(Number.isInteger(teamRaw) && teamRaw >= 0)) {
+    return res.status(400).json({ ok: false, error: 'team_invalid' });
+  }
+
+  try {
+    const result = await setRoomMemberTeam({ tgUserId: session.tgUserId, roomCode, team: teamRaw });
+    return res.status(200).json({ ok: true, room: { roomCode: result.room.roomCode, ownerTgUserId: result.room.ownerTgUserId, capacity: result.room.capacity, status: result.room.status, phase: result.room.phase ?? 'LOBBY', createdAt: result.room.createdAt }, members: result.members.map((member) => ({ ...member, ready: member.ready ?? false })) });
+  } catch (error: any) {
+    if (error?.code === 'ROOM_NOT_FOUND') return res.status(404).json({ ok: false, error: 'room_not_found' });
+    if (error?.code === 'NOT_A_MEMBER') return res.status(403).json({ ok: false, error: 'forbidden' });
+    if (error?.code === 'ROOM_STARTED') return res.status(409).json({ ok: false, error: 'room_started' });
+    if (error?.code === 'ROOM_CLOSED') return res.status(409).json({ ok: false, error: 'room_closed' });
+    if (error?.code === 'TEAM_INVALID') return res.status(400).json({ ok: false, error: 'team_invalid' });
+    return res.status(500).json({ ok: false, error: 'internal_error' });
+  }
+});
+
+// Owner only: splits the lobby into two teams of even total team rating.
+roomsRouter.post('/balance', async (req, res) => {
+  const session = await resolveSessionFromRequest(req as any);
+  if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
+
+  const roomCode = String((req as any).body?.roomCode ?? '').trim().toUpperCase();
+  if (!roomCode) return res.status(400).json({ ok: false, error: 'room_code_required' });
+
+  try {
+    const members = await listRoomMembers(roomCode);
+    if (members.length < 2) return res.status(409).json({ ok: false, error: 'not_enough_players' });
+
+    const ratings = await getPlayerRatings(members.map((member) => member.tgUserId), 'team');
+    const teams = balanceTeams(members.map((member) => ({ tgUserId: member.tgUserId, rating: ratings.get(member.tgUserId) ?? DEFAULT_RATING })));
+    const result = await setRoomMemberTeams({ ownerTgUserId: session.tgUserId, roomCode, teams });
+    return res.status(200).json({ ok: true, room: { roomCode: result.room.roomCode, ownerTgUserId: result.room.ownerTgUserId, capacity: result.room.capacity, status: result.room.status, phase: result.room.phase ?? 'LOBBY', createdAt: result.room.createdAt }, members: result.members.map((member) => ({ ...member, ready: member.ready ?? false })) });
+  } catch (error: any) {
+    if (error?.code === 'ROOM_NOT_FOUND') return res.status(404).json({ ok: false, error: 'room_not_found' });
+    if (error?.code === 'FORBIDDEN') return res.status(403).json({ ok: false, error: 'forbidden' });
+    if (error?.code === 'ROOM_STARTED') return res.status(409).json({ ok: false, error: 'room_started' });
+    if (error?.code === 'ROOM_CLOSED') return res.status(409).json({ ok: false, error: 'room_closed' });
+    return res.status(500).json({ ok: false, error: 'internal_error' });
+  }
+});
+
+roomsRouter.post('/ruleset', async (req, res) => {
+  const session = await resolveSessionFromRequest(req as any);
+  if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
+
+  const roomCode = String((req as any).body?.roomCode ?? '').trim().toUpperCase();
+  if (!roomCode) return res.status(400).json({ ok: false, error: 'room_code_required' });
+
+  const ruleset = parseMatchRuleset((req as any).body?.ruleset);
+  if (!ruleset) return res.status(400).json({ ok: false, error: 'ruleset_invalid' });
+
+  try {
+    const result = await setRoomRuleset({ ownerTgUserId: session.tgUserId, roomCode, ruleset });
+    return res.status(200).json({ ok: true, room: { roomCode: result.room.roomCode, ownerTgUserId: result.room.ownerTgUserId, capacity: result.room.capacity, status: result.room.status, phase: result.room.phase ?? 'LOBBY', createdAt: result.room.createdAt, ruleset }, members: result.members.map((member) => ({ ...member, ready: member.ready ?? false })) });
+  } catch (error: any) {
+    if (error?.code === 'ROOM_NOT_FOUND') return res.status(404).json({ ok: false, error: 'room_not_found' });
+    if (error?.code === 'FORBIDDEN') return res.status(403).json({ ok: false, error: 'forbidden' });
+    if (error?.code === 'ROOM_STARTED') return res.status(409).json({ ok: false, error: 'room_started' });
+    if (error?.code === 'ROOM_CLOSED') return res.status(409).json({ ok: false, error: 'room_closed' });
+    return res.status(500).json({ ok: false, error: 'internal_error' });
+  }
+});
+
 roomsRouter.post('/start', async (req, res) => {
   const session = await resolveSessionFromRequest(req as any);
   if (!session) return res.status(401).json({ ok: false, error: 'unauthorized' });
@@ -230,6 +366,7 @@ roomsRouter.post('/leave', async (req, res) => {
 
   try {
     const result = await leaveRoomTx(session.tgUserId);
+    await clearLastMpSession(session.tgUserId);
     return res.status(200).json({ ok: true, ...result });
   } catch (error: any) {
     if (error?.code === 'ROOM_NOT_JOINED') return res.status(200).json({ ok: true, roomCode: '' });
@@ -275,7 +412,7 @@ roomsRouter.get('/:code', async (req, res) => {
   const members = await listRoomMembers(roomCode);
   return res.status(200).json({
     ok: true,
-    room: { roomCode: room.roomCode, ownerTgUserId: room.ownerTgUserId, capacity: room.capacity, status: room.status, phase: room.phase ?? 'LOBBY', createdAt: room.createdAt },
+    room: { roomCode: room.roomCode, ownerTgUserId: room.ownerTgUserId, capacity: room.capacity, status: room.status, phase: room.phase ?? 'LOBBY', createdAt: room.createdAt, ruleset: resolveMatchRuleset(room.ruleset) },
     members: members.map((member) => ({ ...member, ready: member.ready ?? false })),
   });
 });
@@ -19,7 +19,10 @@ export function getBearerToken(req: { headers?: { authorization?: string } }): s
 export async function resolveSessionFromRequest(req: Request | { headers?: { authorization?: string } }): Promise<{ tgUserId: string } | null> {
   const token = getBearerToken(req as any);
   if (!token) return null;
+  return resolveSessionFromToken(token);
+}
 
+export async function resolveSessionFromToken(token: string): Promise<{ tgUserId: string } | null> {
   const tokenHash = sha256Hex(token);
   const now = Date.now();
 
@@ -1,3 +1,5 @@
+import { hostname } from 'os';
+
 export function requireEnv(name: string): string {
   const v = process.env[name];
   if (!v) throw new Error(`Missing required env var: ${name}`);
@@ -32,3 +34,48 @@ export function getSessionTtlSeconds(): number {
   if (!Number.isFinite(raw) || raw <= 60) return 30 * 24 * 60 * 60;
   return Math.floor(raw);
 }
+
+/**
+ * Delay applied to everything relayed to spectators (default 2s, max 30s).
+ * Keeps a spectator from calling out positions to players over voice.
+ */
+export function getSpectatorDelayMs(): number {
+  const raw = Number(process.env.SPECTATOR_DELAY_MS ?? 2000);
+  if (!Number.isFinite(raw) || raw < 0) return 2000;
+  return Math.min(30_000, Math.floor(raw));
+}
+
+// Git sha of the running build, reported by /healthz and the WS `hello`.
+export function getBuildId(): string {
+  return process.env.GIT_SHA || 'dev';
+}
+
+// Telegram user ids allowed to use admin endpoints, comma separated in ADMIN_TG_USER_IDS.
+export function getAdminTgUserIds(): Set<string> {
+  const raw = process.env.ADMIN_TG_USER_IDS ?? '';
+  return new Set(raw.split(',').map((id) => id.trim()).filter(Boolean));
+}
+
+/**
+ * How long SIGTERM waits between warning clients and persisting matches (default 5s, max 20s).
+ * Keep it well under the platform's kill timeout.
+ */
+export function getShutdownDrainMs(): number {
+  const raw = Number(process.env.SHUTDOWN_DRAIN_MS ?? 5000);
+  if (!Number.isFinite(raw) || raw < 0) return 5000;
+  return Math.min(20_000, Math.floor(raw));
+}
+
+// Identifies this process in the room-to-node registry; defaults to host and pid.
+export function getNodeId(): string {
+  return process.env.NODE_ID || `${hostname()}:${process.pid}`;
+}
+
+/**
+ * Public WS URL that reaches this node directly (e.g. wss://node-2.example.com/ws).
+ * Clients joining a room owned by this node from elsewhere are redirected here.
+ * Leave unset on a single-node deploy.
+ */
+export function getNodeWsUrl(): string | null {
+  return process.env.NODE_WS_URL || null;
+}
@@ -1,5 +1,8 @@
 import crypto from 'crypto';
 import { pgQuery, getPgPool } from './pg';
+import type { MatchmakingMode, MatchRuleset } from '../mp/protocol';
+import { DEFAULT_RATING } from '../mp/rating';
+import type { Rating, RatingMode } from '../mp/rating';
 
 export async function upsertUser(params: {
   tgUserId: string;
@@ -1088,6 +1091,9 @@ export type RoomRecord = {
   startedAt?: string | null;
   startedByTgUserId?: string | null;
   createdAt: string;
+  friendlyFire?: boolean;
+  ruleset?: MatchRuleset | null;
+  matchmade?: boolean;
 };
 
 export type RoomMemberRecord = {
@@ -1095,6 +1101,7 @@ export type RoomMemberRecord = {
   displayName: string;
   joinedAt: string;
   ready: boolean;
+  team: number | null;
 };
 
 export type MyRoomRecord = {
@@ -1115,7 +1122,15 @@ function newRoomCode(): string {
   return out;
 }
 
-export async function createRoomTx(ownerTgUserId: string, capacity: number): Promise<{ roomCode: string }> {
+/**
+ * `matchmadeMemberIds` makes a private quick-play room that already holds the
+ * other matched players, all ready; it starts once they connect.
+ */
+export async function createRoomTx(
+  ownerTgUserId: string,
+  capacity: number,
+  options: { friendlyFire?: boolean; matchmadeMemberIds?: string[] } = {},
+): Promise<{ roomCode: string }> {
   const safeCapacity = Math.floor(capacity);
   if (![2, 3, 4].includes(safeCapacity)) {
     const error = new Error('capacity_invalid');
@@ -1123,6 +1138,7 @@ export async function createRoomTx(ownerTgUserId: string, capacity: number): Pro
     throw error;
   }
 
+  const matchmade = options.matchmadeMemberIds !== undefined;
   const pool = getPgPool();
   const client = await pool.connect();
 
@@ -1136,10 +1152,10 @@ export async function createRoomTx(ownerTgUserId: string, capacity: number): Pro
       try {
         await client.query(
           `
-          INSERT INTO rooms (room_code, owner_tg_user_id, capacity, status)
-          VALUES ($1, $2, $3, 'OPEN')
+          INSERT INTO rooms (room_code, owner_tg_user_id, capacity, status, friendly_fire, matchmade, is_public)
+          VALUES ($1, $2, $3, 'OPEN', $4, $5, NOT $5)
           `,
-          [roomCode, ownerTgUserId, safeCapacity],
+          [roomCode, ownerTgUserId, safeCapacity, options.friendlyFire === true, matchmade],
         );
         created = true;
         break;
@@ -1154,10 +1170,12 @@ export async function createRoomTx(ownerTgUserId: string, capacity: number): Pro
       throw new Error('room_code_conflict');
     }
 
-    await client.query(
-      `INSERT INTO room_members (room_code, tg_user_id, ready) VALUES ($1, $2, TRUE) ON CONFLICT DO NOTHING`,
-      [roomCode, ownerTgUserId],
-    );
+    for (const memberTgUserId of [ownerTgUserId, ...(options.matchmadeMemberIds ?? [])]) {
+      await client.query(
+        `INSERT INTO room_members (room_code, tg_user_id, ready) VALUES ($1, $2, TRUE) ON CONFLICT DO NOTHING`,
+        [roomCode, memberTgUserId],
+      );
+    }
 
     await client.query('COMMIT');
     return { roomCode };
@@ -1179,9 +1197,12 @@ export async function getRoomByCode(roomCode: string): Promise<RoomRecord | null
     started_at: string | null;
     started_by_tg_user_id: string | null;
     created_at: string;
+    friendly_fire: boolean | null;
+    ruleset: MatchRuleset | null;
+    matchmade: boolean | null;
   }>(
     `
-    SELECT room_code, owner_tg_user_id, capacity, status, COALESCE(phase, 'LOBBY') AS phase, started_at, started_by_tg_user_id, created_at
+    SELECT room_code, owner_tg_user_id, capacity, status, COALESCE(phase, 'LOBBY') AS phase, started_at, started_by_tg_user_id, created_at, friendly_fire, ruleset, matchmade
     FROM rooms
     WHERE room_code = $1
     LIMIT 1
@@ -1200,13 +1221,16 @@ export async function getRoomByCode(roomCode: string): Promise<RoomRecord | null
     startedAt: row.started_at == null ? null : String(row.started_at),
     startedByTgUserId: row.started_by_tg_user_id == null ? null : String(row.started_by_tg_user_id),
     createdAt: String(row.created_at),
+    friendlyFire: Boolean(row.friendly_fire ?? false),
+    ruleset: row.ruleset ?? null,
+    matchmade: Boolean(row.matchmade ?? false),
   };
 }
 
 export async function listRoomMembers(roomCode: string): Promise<RoomMemberRecord[]> {
-  const { rows } = await pgQuery<{ tg_user_id: string; display_name: string; joined_at: string; ready: boolean | null }>(
+  const { rows } = await pgQuery<{ tg_user_id: string; display_name: string; joined_at: string; ready: boolean | null; team: number | null }>(
     `
-    SELECT rm.tg_user_id, u.display_name, rm.joined_at, rm.ready
+    SELECT rm.tg_user_id, u.display_name, rm.joined_at, rm.ready, rm.team
     FROM room_members rm
     JOIN users u ON u.tg_user_id = rm.tg_user_id
     WHERE rm.room_code = $1
@@ -1220,6 +1244,7 @@ export async function listRoomMembers(roomCode: string): Promise<RoomMemberRecor
     displayName: String(row.display_name ?? 'Unknown'),
     joinedAt: String(row.joined_at),
     ready: Boolean(row.ready ?? false),
+    team: row.team == null ? null : Number(row.team),
   }));
 }
 
@@ -1253,9 +1278,9 @@ export async function resumeRoomTx(params: { tgUserId: string; roomCode: string
       throw error;
     }
 
-    const membersRes = await client.query<{ tg_user_id: string; display_name: string; joined_at: string; ready: boolean | null }>(
+    const membersRes = await client.query<{ tg_user_id: string; display_name: string; joined_at: string; ready: boolean | null; team: number | null }>(
       `
-      SELECT rm.tg_user_id, u.display_name, rm.joined_at, rm.ready
+      SELECT rm.tg_user_id, u.display_name, rm.joined_at, rm.ready, rm.team
       FROM room_members rm
       JOIN users u ON u.tg_user_id = rm.tg_user_id
       WHERE rm.room_code = $1
@@ -1282,6 +1307,7 @@ export async function resumeRoomTx(params: { tgUserId: string; roomCode: string
         displayName: String(row.display_name ?? 'Unknown'),
         joinedAt: String(row.joined_at),
         ready: Boolean(row.ready ?? false),
+        team: row.team == null ? null : Number(row.team),
       })),
     };
   } catch (e) {
@@ -1384,9 +1410,9 @@ export async function joinRoomTx(tgUserId: string, roomCode: string): Promise<{
       );
     }
 
-    const memberRows = await client.query<{ tg_user_id: string; display_name: string; joined_at: string; ready: boolean | null }>(
+    const memberRows = await client.query<{ tg_user_id: string; display_name: string; joined_at: string; ready: boolean | null; team: number | null }>(
       `
-      SELECT rm.tg_user_id, u.display_name, rm.joined_at, rm.ready
+      SELECT rm.tg_user_id, u.display_name, rm.joined_at, rm.ready, rm.team
       FROM room_members rm
       JOIN users u ON u.tg_user_id = rm.tg_user_id
       WHERE rm.room_code = $1
@@ -1405,6 +1431,7 @@ export async function joinRoomTx(tgUserId: string, roomCode: string): Promise<{
         displayName: String(row.display_name ?? 'Unknown'),
         joinedAt: String(row.joined_at),
         ready: Boolean(row.ready ?? false),
+        team: row.team == null ? null : Number(row.team),
       })),
     };
   } catch (e) {
@@ -1464,9 +1491,9 @@ export async function setRoomMemberReadyTx(params: {
       [params.roomCode, params.tgUserId, params.ready],
     );
 
-    const membersRes = await client.query<{ tg_user_id: string; display_name: string; joined_at: string; ready: boolean | null }>(
+    const membersRes = await client.query<{ tg_user_id: string; display_name: string; joined_at: string; ready: boolean | null; team: number | null }>(
       `
-      SELECT rm.tg_user_id, u.display_name, rm.joined_at, rm.ready
+      SELECT rm.tg_user_id, u.display_name, rm.joined_at, rm.ready, rm.team
       FROM room_members rm
       JOIN users u ON u.tg_user_id = rm.tg_user_id
       WHERE rm.room_code = $1
@@ -1493,6 +1520,7 @@ export async function setRoomMemberReadyTx(params: {
         displayName: String(row.display_name ?? 'Unknown'),
         joinedAt: String(row.joined_at),
         ready: Boolean(row.ready ?? false),
+        team: row.team == null ? null : Number(row.team),
       })),
     };
   } catch (e) {
@@ -1503,6 +1531,87 @@ export async function setRoomMemberReadyTx(params: {
   }
 }
 
+export async function setRoomMemberTeam(params: {
+  tgUserId: string;
+  roomCode: string;
+  team: number | null;
+}): Promise<{ room: RoomRecord; members: RoomMemberRecord[] }> {
+  const room = await getRoomByCode(params.roomCode);
+  if (!room) {
+    const error = new Error('room_not_found');
+    (error as any).code = 'ROOM_NOT_FOUND';
+    throw error;
+  }
+
+  if (room.status !== 'OPEN') {
+    const error = new Error('room_closed');
+    (error as any).code = 'ROOM_CLOSED';
+    throw error;
+  }
+
+  if (room.phase === 'STARTED') {
+    const error = new Error('room_started');
+    (error as any).code = 'ROOM_STARTED';
+    throw error;
+  }
+
+  if (params.team !== null && params.team >= room.capacity) {
+    const error = new Error('team_invalid');
+    (error as any).code = 'TEAM_INVALID';
+    throw error;
+  }
+
+  const { rows } = await pgQuery<{ tg_user_id: string }>(
+    `UPDATE room_members SET team = $3 WHERE room_code = $1 AND tg_user_id = $2 RETURNING tg_user_id`,
+    [params.roomCode, params.tgUserId, params.team],
+  );
+  if (!rows[0]) {
+    const error = new Error('not_a_member');
+    (error as any).code = 'NOT_A_MEMBER';
+    throw error;
+  }
+
+  return { room, members: await listRoomMembers(params.roomCode) };
+}
+
+export async function setRoomRuleset(params: {
+  ownerTgUserId: string;
+  roomCode: string;
+  ruleset: MatchRuleset;
+}): Promise<{ room: RoomRecord; members: RoomMemberRecord[] }> {
+  const room = await getRoomByCode(params.roomCode);
+  if (!room) {
+    const error = new Error('room_not_found');
+    (error as any).code = 'ROOM_NOT_FOUND';
+    throw error;
+  }
+
+  if (room.ownerTgUserId !== params.ownerTgUserId) {
+    const error = new Error('forbidden');
+    (error as any).code = 'FORBIDDEN';
+    throw error;
+  }
+
+  if (room.status !== 'OPEN') {
+    const error = new Error('room_closed');
+    (error as any).code = 'ROOM_CLOSED';
+    throw error;
+  }
+
+  // Guarded in the UPDATE too so a concurrent startRoomTx wins.
+  const { rows } = await pgQuery<{ room_code: string }>(
+    `UPDATE rooms SET ruleset = $2::jsonb WHERE room_code = $1 AND COALESCE(phase, 'LOBBY') <> 'STARTED' RETURNING room_code`,
+    [params.roomCode, JSON.stringify(params.ruleset)],
+  );
+  if (!rows[0]) {
+    const error = new Error('room_started');
+    (error as any).code = 'ROOM_STARTED';
+    throw error;
+  }
+
+  return { room: { ...room, ruleset: params.ruleset }, members: await listRoomMembers(params.roomCode) };
+}
+
 export async function startRoomTx(params: {
   ownerTgUserId: string;
   roomCode: string;
@@ -1543,9 +1652,9 @@ export async function startRoomTx(params: {
       throw error;
     }
 
-    const membersRes = await client.query<{ tg_user_id: string; display_name: string; joined_at: string; ready: boolean | null }>(
+    const membersRes = await client.query<{ tg_user_id: string; display_name: string; joined_at: string; ready: boolean | null; team: number | null }>(
       `
-      SELECT rm.tg_user_id, u.display_name, rm.joined_at, rm.ready
+      SELECT rm.tg_user_id, u.display_name, rm.joined_at, rm.ready, rm.team
       FROM room_members rm
       JOIN users u ON u.tg_user_id = rm.tg_user_id
       WHERE rm.room_code = $1
@@ -1608,6 +1717,7 @@ export async function startRoomTx(params: {
         displayName: String(row.display_name ?? 'Unknown'),
         joinedAt: String(row.joined_at),
         ready: Boolean(row.ready ?? false),
+        team: row.team == null ? null : Number(row.team),
       })),
     };
   } catch (e) {
@@ -1881,7 +1991,8 @@ export async function listOutgoingRequestsV2(tgUserId: string): Promise<FriendRe
   }));
 }
 
-export async function createFriendRequestByUsername(fromTgUserId: string, username: string): Promise<void> {
+// Resolves to the requested user's id.
+export async function createFriendRequestByUsername(fromTgUserId: string, username: string): Promise<string> {
   const normalized = String(username ?? '').trim().replace(/^@+/, '').toLowerCase();
   if (!normalized) {
     const error = new Error('invalid_username');
@@ -1902,6 +2013,7 @@ export async function createFriendRequestByUsername(fromTgUserId: string, userna
   }
 
   await requestFriend(fromTgUserId, toTgUserId);
+  return toTgUserId;
 }
 
 export async function cancelFriendRequest(fromTgUserId: string, requestId: string): Promise<void> {
@@ -2020,7 +2132,7 @@ async function getRoomModelByCode(roomCode: string): Promise<RoomModel | null> {
   };
 }
 
-export async function createRoomPublic(params: { tgUserId: string; name: string; capacity: 2 | 3 | 4; password?: string }): Promise<RoomModel> {
+export async function createRoomPublic(params: { tgUserId: string; name: string; capacity: 2 | 3 | 4; password?: string; friendlyFire?: boolean }): Promise<RoomModel> {
   const pool = getPgPool();
   const client = await pool.connect();
   let code = '';
@@ -2047,10 +2159,10 @@ export async function createRoomPublic(params: { tgUserId: string; name: string;
 
     await client.query(
       `
-      INSERT INTO rooms (room_code, owner_tg_user_id, name, capacity, password_hash, password_salt, has_password, is_public, status)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, TRUE, 'OPEN')
+      INSERT INTO rooms (room_code, owner_tg_user_id, name, capacity, password_hash, password_salt, has_password, is_public, status, friendly_fire)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, TRUE, 'OPEN', $8)
       `,
-      [code, params.tgUserId, cleanName, params.capacity, hashed?.hash ?? null, hashed?.salt ?? null, hasPassword],
+      [code, params.tgUserId, cleanName, params.capacity, hashed?.hash ?? null, hashed?.salt ?? null, hasPassword, params.friendlyFire === true],
     );
 
     await client.query(
@@ -2131,7 +2243,9 @@ export async function listPublicRooms(query?: string): Promise<RoomModel[]> {
   }));
 }
 
-export async function joinRoomWithPassword(params: { tgUserId: string; roomCode: string; password?: string }): Promise<RoomModel> {
+// An invite stands in for the password; it must be for this user and room, unexpired, and its sender still in the room.
+// A stale invite falls back to the usual password check, so it never blocks a join that would succeed without it.
+export async function joinRoomWithPassword(params: { tgUserId: string; roomCode: string; password?: string; inviteId?: string; nowMs?: number }): Promise<RoomModel> {
   const normalizedCode = String(params.roomCode ?? '').trim().toUpperCase();
   const pool = getPgPool();
   const client = await pool.connect();
@@ -2157,7 +2271,25 @@ export async function joinRoomWithPassword(params: { tgUserId: string; roomCode:
       throw error;
     }
 
-    if (room.has_password) {
+    let invited = false;
+    if (params.inviteId) {
+      const inviteRes = await client.query<{ invite_id: string }>(
+        `
+        UPDATE room_invites ri
+        SET accepted_at = COALESCE(ri.accepted_at, $4)
+        WHERE ri.invite_id = $1
+          AND ri.room_code = $2
+          AND ri.to_tg_user_id = $3
+          AND ri.expires_at > $4
+          AND EXISTS (SELECT 1 FROM room_members rm WHERE rm.room_code = ri.room_code AND rm.tg_user_id = ri.from_tg_user_id)
+        RETURNING ri.invite_id
+        `,
+        [params.inviteId, normalizedCode, params.tgUserId, params.nowMs ?? Date.now()],
+      );
+      invited = Boolean(inviteRes.rows[0]);
+    }
+
+    if (!invited && room.has_password) {
       const supplied = String(params.password ?? '');
       if (!supplied || !room.password_hash || !room.password_salt) {
         const error = new Error('wrong_password');
@@ -2210,6 +2342,108 @@ export async function joinRoomWithPassword(params: { tgUserId: string; roomCode:
   return roomModel;
 }
 
+export type RoomInvite = {
+  inviteId: string;
+  roomCode: string;
+  fromTgUserId: string;
+  fromDisplayName: string;
+  toTgUserId: string;
+  expiresAtMs: number;
+};
+
+// Whether a password or invite would let this user into the room; unlike joining, the invite is not used up.
+export async function hasRoomEntry(params: { tgUserId: string; roomCode: string; password?: string; inviteId?: string; nowMs: number }): Promise<boolean> {
+  const normalizedCode = String(params.roomCode ?? '').trim().toUpperCase();
+
+  if (params.inviteId) {
+    const { rows } = await pgQuery<{ invite_id: string }>(
+      `
+      SELECT ri.invite_id
+      FROM room_invites ri
+      WHERE ri.invite_id = $1
+        AND ri.room_code = $2
+        AND ri.to_tg_user_id = $3
+        AND ri.expires_at > $4
+        AND EXISTS (SELECT 1 FROM room_members rm WHERE rm.room_code = ri.room_code AND rm.tg_user_id = ri.from_tg_user_id)
+      `,
+      [params.inviteId, normalizedCode, params.tgUserId, params.nowMs],
+    );
+    if (rows[0]) return true;
+  }
+
+  if (!params.password) return false;
+
+  const { rows } = await pgQuery<{ has_password: boolean; password_hash: string | null; password_salt: string | null }>(
+    `SELECT has_password, password_hash, password_salt FROM rooms WHERE room_code = $1`,
+    [normalizedCode],
+  );
+  const room = rows[0];
+  if (!room?.has_password || !room.password_hash || !room.password_salt) return false;
+  return verifyRoomPassword(params.password, room.password_salt, room.password_hash);
+}
+
+export async function createRoomInvite(params: { fromTgUserId: string; toTgUserId: string; roomCode: string; nowMs: number; expiresAtMs: number }): Promise<RoomInvite> {
+  const normalizedCode = String(params.roomCode ?? '').trim().toUpperCase();
+  const { rows } = await pgQuery<{ status: string; phase: string | null; display_name: string | null; is_member: boolean }>(
+    `
+    SELECT
+      r.status,
+      r.phase,
+      u.display_name,
+      EXISTS (SELECT 1 FROM room_members rm WHERE rm.room_code = r.room_code AND rm.tg_user_id = $2) AS is_member
+    FROM rooms r
+    LEFT JOIN users u ON u.tg_user_id = $2
+    WHERE r.room_code = $1
+    `,
+    [normalizedCode, params.fromTgUserId],
+  );
+  const room = rows[0];
+
+  if (!room || String(room.status) !== 'OPEN') {
+    const error = new Error('room_not_found');
+    (error as any).code = 'ROOM_NOT_FOUND';
+    throw error;
+  }
+
+  if (String(room.phase ?? 'LOBBY') !== 'LOBBY') {
+    const error = new Error('room_started');
+    (error as any).code = 'ROOM_STARTED';
+    throw error;
+  }
+
+  if (!room.is_member) {
+    const error = new Error('not_a_member');
+    (error as any).code = 'NOT_A_MEMBER';
+    throw error;
+  }
+
+  const friends = await listConfirmedFriendsV2(params.fromTgUserId);
+  if (!friends.some((friend) => friend.userId === params.toTgUserId)) {
+    const error = new Error('not_friends');
+    (error as any).code = 'NOT_FRIENDS';
+    throw error;
+  }
+
+  // Hex keeps the id clear of the `_` that separates parts of a Telegram start param.
+  const inviteId = crypto.randomBytes(8).toString('hex');
+  await pgQuery(
+    `
+    INSERT INTO room_invites (invite_id, room_code, from_tg_user_id, to_tg_user_id, created_at, expires_at)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    `,
+    [inviteId, normalizedCode, params.fromTgUserId, params.toTgUserId, params.nowMs, params.expiresAtMs],
+  );
+
+  return {
+    inviteId,
+    roomCode: normalizedCode,
+    fromTgUserId: params.fromTgUserId,
+    fromDisplayName: String(room.display_name ?? 'Unknown'),
+    toTgUserId: params.toTgUserId,
+    expiresAtMs: params.expiresAtMs,
+  };
+}
+
 export async function removeRoomCascade(roomCode: string): Promise<void> {
   const normalizedCode = String(roomCode ?? '').trim().toUpperCase();
   if (!normalizedCode) {
@@ -2478,3 +2712,914 @@ export async function setRoomPhase(roomCode: string, phase: 'LOBBY' | 'STARTED'
     [roomCode, phase],
   );
 }
+
+export type MatchIncidentRecord = {
+  id: string;
+  matchId: string;
+  roomCode: string | null;
+  tgUserId: string;
+  kind: string;
+  details: Record<string, unknown>;
+  kicked: boolean;
+  createdAt: number;
+};
+
+export async function insertMatchIncident(incident: Omit<MatchIncidentRecord, 'id'>): Promise<void> {
+  await pgQuery(
+    `
+    INSERT INTO match_incidents (id, match_id, room_code, tg_user_id, kind, details, kicked, created_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `,
+    [
+      `inc_${incident.createdAt}_${Math.random().toString(16).slice(2, 8)}`,
+      incident.matchId,
+      incident.roomCode,
+      incident.tgUserId,
+      incident.kind,
+      incident.details,
+      incident.kicked,
+      incident.createdAt,
+    ],
+  );
+}
+
+export async function listMatchIncidents(matchId: string, limit = 500): Promise<MatchIncidentRecord[]> {
+  const safeLimit = Math.max(1, Math.min(500, Math.floor(limit)));
+  const { rows } = await pgQuery<{
+    id: string;
+    match_id: string;
+    room_code: string | null;
+    tg_user_id: string;
+    kind: string;
+    details: Record<string, unknown> | null;
+    kicked: boolean;
+    created_at: string;
+  }>(
+    `
+    SELECT id, match_id, room_code, tg_user_id, kind, details, kicked, created_at
+    FROM match_incidents
+    WHERE match_id = $1
+    ORDER BY created_at ASC
+    LIMIT $2
+    `,
+    [matchId, safeLimit],
+  );
+
+  return rows.map((row) => ({
+    id: String(row.id),
+    matchId: String(row.match_id),
+    roomCode: row.room_code == null ? null : String(row.room_code),
+    tgUserId: String(row.tg_user_id),
+    kind: String(row.kind),
+    details: row.details ?? {},
+    kicked: Boolean(row.kicked),
+    createdAt: Number(row.created_at),
+  }));
+}
+
+export async function heartbeatWsNode(params: { nodeId: string; wsUrl: string | null; nowMs: number }): Promise<void> {
+  await pgQuery(
+    `
+    INSERT INTO ws_nodes (node_id, ws_url, started_at, heartbeat_at)
+    VALUES ($1, $2, $3, $3)
+    ON CONFLICT (node_id) DO UPDATE
+    SET ws_url = EXCLUDED.ws_url,
+        heartbeat_at = EXCLUDED.heartbeat_at
+    `,
+    [params.nodeId, params.wsUrl, params.nowMs],
+  );
+}
+
+export type RoomNodeAssignment = { nodeId: string; wsUrl: string | null };
+
+/**
+ * Assigns the room to `nodeId` unless another node with a fresh heartbeat
+ * already holds it, and returns whoever holds it afterwards.
+ */
+export async function claimRoomNode(params: {
+  roomCode: string;
+  nodeId: string;
+  nowMs: number;
+  staleBeforeMs: number;
+}): Promise<RoomNodeAssignment | null> {
+  const { rows: claimed } = await pgQuery<{ node_id: string }>(
+    `
+    INSERT INTO room_nodes (room_code, node_id, assigned_at)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (room_code) DO UPDATE
+    SET node_id = EXCLUDED.node_id,
+        assigned_at = EXCLUDED.assigned_at
+    WHERE room_nodes.node_id = EXCLUDED.node_id
+       OR NOT EXISTS (
+         SELECT 1 FROM ws_nodes n
+         WHERE n.node_id = room_nodes.node_id
+           AND n.heartbeat_at >= $4
+       )
+    RETURNING node_id
+    `,
+    [params.roomCode, params.nodeId, params.nowMs, params.staleBeforeMs],
+  );
+  if (claimed[0]) {
+    return { nodeId: String(claimed[0].node_id), wsUrl: null };
+  }
+
+  return getRoomNode(params.roomCode);
+}
+
+export async function getRoomNode(roomCode: string): Promise<RoomNodeAssignment | null> {
+  const { rows } = await pgQuery<{ node_id: string; ws_url: string | null }>(
+    `
+    SELECT r.node_id, n.ws_url
+    FROM room_nodes r
+    LEFT JOIN ws_nodes n ON n.node_id = r.node_id
+    WHERE r.room_code = $1
+    `,
+    [roomCode],
+  );
+  if (!rows[0]) return null;
+  return { nodeId: String(rows[0].node_id), wsUrl: rows[0].ws_url == null ? null : String(rows[0].ws_url) };
+}
+
+export async function releaseRoomNode(roomCode: string, nodeId: string): Promise<void> {
+  await pgQuery('DELETE FROM room_nodes WHERE room_code = $1 AND node_id = $2', [roomCode, nodeId]);
+}
+
+// Drops the node with its rooms and presence, so its rooms can be claimed at once.
+export async function removeWsNode(nodeId: string): Promise<void> {
+  await pgQuery('DELETE FROM room_nodes WHERE node_id = $1', [nodeId]);
+  await pgQuery('DELETE FROM user_presence WHERE node_id = $1', [nodeId]);
+  await pgQuery('DELETE FROM ws_nodes WHERE node_id = $1', [nodeId]);
+}
+
+export async function setUserPresence(params: { tgUserId: string; nodeId: string; online: boolean; nowMs: number }): Promise<void> {
+  if (!params.online) {
+    await pgQuery('DELETE FROM user_presence WHERE tg_user_id = $1 AND node_id = $2', [params.tgUserId, params.nodeId]);
+    return;
+  }
+
+  await pgQuery(
+    `
+    INSERT INTO user_presence (tg_user_id, node_id, updated_at)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (tg_user_id, node_id) DO UPDATE SET updated_at = EXCLUDED.updated_at
+    `,
+    [params.tgUserId, params.nodeId, params.nowMs],
+  );
+}
+
+// Presence rows of nodes that stopped heartbeating don't count.
+export async function listOnlineUserIds(tgUserIds: string[], staleBeforeMs: number): Promise<Set<string>> {
+  if (tgUserIds.length === 0) return new Set();
+
+  const { rows } = await pgQuery<{ tg_user_id: string }>(
+    `
+    SELECT DISTINCT p.tg_user_id
+    FROM user_presence p
+    JOIN ws_nodes n ON n.node_id = p.node_id
+    WHERE p.tg_user_id = ANY($1::text[])
+      AND n.heartbeat_at >= $2
+    `,
+    [tgUserIds, staleBeforeMs],
+  );
+
+  return new Set(rows.map((row) => String(row.tg_user_id)));
+}
+
+export type LastMpSessionRow = {
+  tgUserId: string;
+  roomCode: string;
+  matchId: string | null;
+  lastActiveAtMs: number;
+};
+
+export async function upsertLastMpSession(session: LastMpSessionRow, keepMatchId: boolean): Promise<void> {
+  await pgQuery(
+    `
+    INSERT INTO mp_last_sessions (tg_user_id, room_code, match_id, last_active_at)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (tg_user_id) DO UPDATE
+    SET room_code = EXCLUDED.room_code,
+        match_id = CASE WHEN $5 THEN mp_last_sessions.match_id ELSE EXCLUDED.match_id END,
+        last_active_at = EXCLUDED.last_active_at
+    `,
+    [session.tgUserId, session.roomCode, session.matchId, session.lastActiveAtMs, keepMatchId],
+  );
+}
+
+export async function getLastMpSession(tgUserId: string): Promise<LastMpSessionRow | null> {
+  const { rows } = await pgQuery<{ tg_user_id: string; room_code: string; match_id: string | null; last_active_at: string }>(
+    'SELECT tg_user_id, room_code, match_id, last_active_at FROM mp_last_sessions WHERE tg_user_id = $1',
+    [tgUserId],
+  );
+  if (!rows[0]) return null;
+
+  return {
+    tgUserId: String(rows[0].tg_user_id),
+    roomCode: String(rows[0].room_code),
+    matchId: rows[0].match_id == null ? null : String(rows[0].match_id),
+    lastActiveAtMs: Number(rows[0].last_active_at),
+  };
+}
+
+export async function deleteLastMpSession(tgUserId: string): Promise<void> {
+  await pgQuery('DELETE FROM mp_last_sessions WHERE tg_user_id = $1', [tgUserId]);
+}
+
+export type PersistedMatchRow = {
+  matchId: string;
+  roomCode: string;
+  nodeId: string;
+  state: unknown;
+  savedAt: number;
+};
+
+export async function savePersistedMatch(row: PersistedMatchRow): Promise<void> {
+  await pgQuery(
+    `
+    INSERT INTO persisted_matches (match_id, room_code, node_id, state, saved_at)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (match_id) DO UPDATE
+    SET room_code = EXCLUDED.room_code,
+        node_id = EXCLUDED.node_id,
+        state = EXCLUDED.state,
+        saved_at = EXCLUDED.saved_at
+    `,
+    [row.matchId, row.roomCode, row.nodeId, JSON.stringify(row.state), row.savedAt],
+  );
+}
+
+// Deletes and returns the persisted matches (all, or one room's), so each one is adopted by exactly one node.
+export async function takePersistedMatches(roomCode?: string): Promise<PersistedMatchRow[]> {
+  const { rows } = await pgQuery<{ match_id: string; room_code: string; node_id: string; state: unknown; saved_at: string }>(
+    roomCode === undefined
+      ? 'DELETE FROM persisted_matches RETURNING match_id, room_code, node_id, state, saved_at'
+      : 'DELETE FROM persisted_matches WHERE room_code = $1 RETURNING match_id, room_code, node_id, state, saved_at',
+    roomCode === undefined ? [] : [roomCode],
+  );
+
+  return rows.map((row) => ({
+    matchId: String(row.match_id),
+    roomCode: String(row.room_code),
+    nodeId: String(row.node_id),
+    state: row.state,
+    savedAt: Number(row.saved_at),
+  }));
+}
+
+export async function getPlayerRating(tgUserId: string, mode: string): Promise<number | null> {
+  const { rows } = await pgQuery<{ rating: number }>(
+    'SELECT rating FROM player_ratings WHERE tg_user_id = $1 AND mode = $2',
+    [tgUserId, mode],
+  );
+  return rows[0] ? Number(rows[0].rating) : null;
+}
+
+export type MatchmakingTicketRow = {
+  tgUserId: string;
+  mode: MatchmakingMode;
+  rating: number;
+  enqueuedAtMs: number;
+  proposalId: string | null;
+  proposedAtMs: number | null;
+  accepted: boolean;
+  displayName: string;
+};
+
+type MatchmakingTicketDbRow = {
+  tg_user_id: string;
+  mode: number;
+  rating: number;
+  enqueued_at: string;
+  proposal_id: string | null;
+  proposed_at: string | null;
+  accepted: boolean;
+  display_name: string | null;
+};
+
+const MATCHMAKING_TICKET_SELECT = `
+  SELECT t.tg_user_id, t.mode, t.rating, t.enqueued_at, t.proposal_id, t.proposed_at, t.accepted, u.display_name
+  FROM matchmaking_tickets t
+  JOIN users u ON u.tg_user_id = t.tg_user_id
+`;
+
+function mapMatchmakingTicket(row: MatchmakingTicketDbRow): MatchmakingTicketRow {
+  return {
+    tgUserId: String(row.tg_user_id),
+    mode: Number(row.mode) as MatchmakingMode,
+    rating: Number(row.rating),
+    enqueuedAtMs: Number(row.enqueued_at),
+    proposalId: row.proposal_id == null ? null : String(row.proposal_id),
+    proposedAtMs: row.proposed_at == null ? null : Number(row.proposed_at),
+    accepted: Boolean(row.accepted),
+    displayName: String(row.display_name ?? 'Unknown'),
+  };
+}
+
+export async function getMatchmakingTicket(tgUserId: string): Promise<MatchmakingTicketRow | null> {
+  const { rows } = await pgQuery<MatchmakingTicketDbRow>(`${MATCHMAKING_TICKET_SELECT} WHERE t.tg_user_id = $1`, [tgUserId]);
+  return rows[0] ? mapMatchmakingTicket(rows[0]) : null;
+}
+
+/**
+ * Queues the player, or switches their mode. Re-queueing for the same mode
+ * keeps their place; a ticket already in a proposal is left untouched.
+ */
+export async function enqueueMatchmakingTicket(params: {
+  tgUserId: string;
+  mode: MatchmakingMode;
+  rating: number;
+  nowMs: number;
+}): Promise<MatchmakingTicketRow | null> {
+  await pgQuery(
+    `
+    INSERT INTO matchmaking_tickets (tg_user_id, mode, rating, enqueued_at)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (tg_user_id) DO UPDATE
+    SET enqueued_at = CASE WHEN matchmaking_tickets.mode = EXCLUDED.mode THEN matchmaking_tickets.enqueued_at ELSE EXCLUDED.enqueued_at END,
+        mode = EXCLUDED.mode,
+        rating = EXCLUDED.rating
+    WHERE matchmaking_tickets.proposal_id IS NULL
+    `,
+    [params.tgUserId, params.mode, params.rating, params.nowMs],
+  );
+
+  return getMatchmakingTicket(params.tgUserId);
+}
+
+export async function deleteMatchmakingTicket(tgUserId: string): Promise<void> {
+  await pgQuery('DELETE FROM matchmaking_tickets WHERE tg_user_id = $1', [tgUserId]);
+}
+
+export type MatchmakingProposal = { proposalId: string; tickets: MatchmakingTicketRow[] };
+
+/**
+ * Groups waiting tickets into proposals. Every node runs this; the advisory
+ * lock makes sure only one of them forms groups at a time, so a ticket is
+ * never offered twice.
+ */
+export async function proposeMatchmakingGroupsTx(params: {
+  nowMs: number;
+  formGroups: (tickets: MatchmakingTicketRow[]) => MatchmakingTicketRow[][];
+}): Promise<MatchmakingProposal[]> {
+  const pool = getPgPool();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const lockRes = await client.query<{ locked: boolean }>(`SELECT pg_try_advisory_xact_lock(hashtext('rr_matchmaker')) AS locked`);
+    if (!lockRes.rows[0]?.locked) {
+      await client.query('COMMIT');
+      return [];
+    }
+
+    const waiting = await client.query<MatchmakingTicketDbRow>(`${MATCHMAKING_TICKET_SELECT} WHERE t.proposal_id IS NULL FOR UPDATE OF t`);
+    const proposals: MatchmakingProposal[] = [];
+    for (const group of params.formGroups(waiting.rows.map(mapMatchmakingTicket))) {
+      const proposalId = crypto.randomUUID();
+      await client.query(
+        `UPDATE matchmaking_tickets SET proposal_id = $1, proposed_at = $2, accepted = FALSE WHERE tg_user_id = ANY($3::text[])`,
+        [proposalId, params.nowMs, group.map((ticket) => ticket.tgUserId)],
+      );
+      proposals.push({
+        proposalId,
+        tickets: group.map((ticket) => ({ ...ticket, proposalId, proposedAtMs: params.nowMs, accepted: false })),
+      });
+    }
+
+    await client.query('COMMIT');
+    return proposals;
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Records the player's accept. When it was the last one missing the tickets
+ * are removed and returned with `complete`; the caller then makes the room.
+ * Null when the player isn't part of that proposal (any more).
+ */
+export async function acceptMatchmakingProposalTx(params: {
+  tgUserId: string;
+  proposalId: string;
+}): Promise<{ tickets: MatchmakingTicketRow[]; complete: boolean } | null> {
+  const pool = getPgPool();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const proposalRes = await client.query<MatchmakingTicketDbRow>(
+      `${MATCHMAKING_TICKET_SELECT} WHERE t.proposal_id = $1 FOR UPDATE OF t`,
+      [params.proposalId],
+    );
+    const tickets = proposalRes.rows.map(mapMatchmakingTicket);
+    if (!tickets.some((ticket) => ticket.tgUserId === params.tgUserId)) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    await client.query(
+      `UPDATE matchmaking_tickets SET accepted = TRUE WHERE tg_user_id = $1 AND proposal_id = $2`,
+      [params.tgUserId, params.proposalId],
+    );
+    const accepted = tickets.map((ticket) => (ticket.tgUserId === params.tgUserId ? { ...ticket, accepted: true } : ticket));
+    const complete = accepted.length === accepted[0]!.mode && accepted.every((ticket) => ticket.accepted);
+    if (complete) {
+      await client.query('DELETE FROM matchmaking_tickets WHERE proposal_id = $1', [params.proposalId]);
+    }
+
+    await client.query('COMMIT');
+    return { tickets: accepted, complete };
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+/** Ends a proposal: `dropTgUserIds` leave the queue, everyone else goes back to searching. */
+export async function releaseMatchmakingProposalTx(params: {
+  proposalId: string;
+  dropTgUserIds: string[];
+}): Promise<{ dropped: string[]; requeued: MatchmakingTicketRow[] }> {
+  const pool = getPgPool();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const droppedRes = await client.query<{ tg_user_id: string }>(
+      `DELETE FROM matchmaking_tickets WHERE proposal_id = $1 AND tg_user_id = ANY($2::text[]) RETURNING tg_user_id`,
+      [params.proposalId, params.dropTgUserIds],
+    );
+    const requeuedRes = await client.query<{ tg_user_id: string }>(
+      `UPDATE matchmaking_tickets SET proposal_id = NULL, proposed_at = NULL, accepted = FALSE WHERE proposal_id = $1 RETURNING tg_user_id`,
+      [params.proposalId],
+    );
+    const requeued = await client.query<MatchmakingTicketDbRow>(
+      `${MATCHMAKING_TICKET_SELECT} WHERE t.tg_user_id = ANY($1::text[])`,
+      [requeuedRes.rows.map((row) => String(row.tg_user_id))],
+    );
+
+    await client.query('COMMIT');
+    return {
+      dropped: droppedRes.rows.map((row) => String(row.tg_user_id)),
+      requeued: requeued.rows.map(mapMatchmakingTicket),
+    };
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+export async function listLapsedMatchmakingProposals(proposedBeforeMs: number): Promise<MatchmakingProposal[]> {
+  const { rows } = await pgQuery<MatchmakingTicketDbRow>(
+    `${MATCHMAKING_TICKET_SELECT} WHERE t.proposal_id IS NOT NULL AND t.proposed_at < $1`,
+    [proposedBeforeMs],
+  );
+
+  const byProposal = new Map<string, MatchmakingTicketRow[]>();
+  for (const ticket of rows.map(mapMatchmakingTicket)) {
+    const proposalId = ticket.proposalId!;
+    byProposal.set(proposalId, [...(byProposal.get(proposalId) ?? []), ticket]);
+  }
+  return Array.from(byProposal, ([proposalId, tickets]) => ({ proposalId, tickets }));
+}
+
+export type PlayerRatingRecord = {
+  mode: RatingMode;
+  rating: number;
+  deviation: number;
+  games: number;
+  updatedAtMs: number;
+};
+
+export async function listPlayerRatingsForUser(tgUserId: string): Promise<PlayerRatingRecord[]> {
+  const { rows } = await pgQuery<{ mode: string; rating: number; deviation: number; games: number; updated_at: string }>(
+    'SELECT mode, rating, deviation, games, updated_at FROM player_ratings WHERE tg_user_id = $1 ORDER BY mode',
+    [tgUserId],
+  );
+  return rows.map((row) => ({
+    mode: row.mode as RatingMode,
+    rating: Number(row.rating),
+    deviation: Number(row.deviation),
+    games: Number(row.games),
+    updatedAtMs: Number(row.updated_at),
+  }));
+}
+
+// Ratings of the given players in one mode; players who never played it are missing from the map.
+export async function getPlayerRatings(tgUserIds: string[], mode: RatingMode): Promise<Map<string, number>> {
+  const { rows } = await pgQuery<{ tg_user_id: string; rating: number }>(
+    'SELECT tg_user_id, rating FROM player_ratings WHERE mode = $1 AND tg_user_id = ANY($2::text[])',
+    [mode, tgUserIds],
+  );
+  return new Map(rows.map((row) => [String(row.tg_user_id), Number(row.rating)]));
+}
+
+export type RatingTopEntry = {
+  rank: number;
+  tgUserId: string;
+  displayName: string;
+  rating: number;
+  deviation: number;
+  games: number;
+};
+
+export async function listRatingTop(mode: RatingMode, limit: number): Promise<RatingTopEntry[]> {
+  const safeLimit = Math.max(1, Math.min(100, Math.floor(limit)));
+  const { rows } = await pgQuery<{
+    rank: number;
+    tg_user_id: string;
+    display_name: string;
+    rating: number;
+    deviation: number;
+    games: number;
+  }>(
+    `
+    SELECT
+      ROW_NUMBER() OVER (ORDER BY pr.rating DESC, pr.games DESC, pr.tg_user_id ASC) AS rank,
+      pr.tg_user_id,
+      COALESCE(u.game_nickname, u.display_name) AS display_name,
+      pr.rating,
+      pr.deviation,
+      pr.games
+    FROM player_ratings pr
+    JOIN users u ON u.tg_user_id = pr.tg_user_id
+    WHERE pr.mode = $1 AND pr.games > 0
+    ORDER BY pr.rating DESC, pr.games DESC, pr.tg_user_id ASC
+    LIMIT $2
+    `,
+    [mode, safeLimit],
+  );
+
+  return rows.map((row) => ({
+    rank: Number(row.rank),
+    tgUserId: String(row.tg_user_id),
+    displayName: String(row.display_name ?? 'Unknown'),
+    rating: Number(row.rating),
+    deviation: Number(row.deviation),
+    games: Number(row.games),
+  }));
+}
+
+export type MatchPlayerStats = {
+  bombsPlaced: number;
+  tilesDestroyed: number;
+  kills: number;
+  deathsByExplosion: number;
+  deathsByEnemy: number;
+  survivalTicks: number;
+};
+
+export type MatchResultPlayer = {
+  tgUserId: string;
+  team: number | null;
+  placement: number;
+  stats: MatchPlayerStats;
+};
+
+export type StoredRating = Rating & { updatedAtMs: number | null };
+
+export type MatchRatingChange = {
+  tgUserId: string;
+  ratingBefore: number;
+  ratingAfter: number;
+  deviationAfter: number;
+};
+
+/**
+ * Stores a finished match and applies its rating changes in the same
+ * transaction. `rate` gets every player's current rating (null for a first
+ * match in this mode). Null when the match was recorded already.
+ */
+export async function recordMatchResultTx(params: {
+  matchId: string;
+  roomCode: string;
+  mode: RatingMode;
+  reason: string;
+  winnerTgUserId: string | null;
+  winnerTeam: number | null;
+  endTick: number;
+  endedAtMs: number;
+  hasReplay: boolean;
+  players: MatchResultPlayer[];
+  rate: (current: Map<string, StoredRating | null>) => Map<string, Rating>;
+}): Promise<MatchRatingChange[] | null> {
+  const pool = getPgPool();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const inserted = await client.query(
+      `
+      INSERT INTO match_results (match_id, room_code, rating_mode, reason, winner_tg_user_id, winner_team, end_tick, ended_at, has_replay)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (match_id) DO NOTHING
+      RETURNING match_id
+      `,
+      [params.matchId, params.roomCode, params.mode, params.reason, params.winnerTgUserId, params.winnerTeam, params.endTick, params.endedAtMs, params.hasReplay],
+    );
+    if (inserted.rowCount === 0) {
+      await client.query('COMMIT');
+      return null;
+    }
+
+    const tgUserIds = params.players.map((player) => player.tgUserId);
+    const currentRes = await client.query<{ tg_user_id: string; rating: number; deviation: number; updated_at: string }>(
+      'SELECT tg_user_id, rating, deviation, updated_at FROM player_ratings WHERE mode = $1 AND tg_user_id = ANY($2::text[]) FOR UPDATE',
+      [params.mode, tgUserIds],
+    );
+    const current = new Map<string, StoredRating | null>(tgUserIds.map((tgUserId) => [tgUserId, null]));
+    for (const row of currentRes.rows) {
+      current.set(String(row.tg_user_id), { rating: Number(row.rating), deviation: Number(row.deviation), updatedAtMs: Number(row.updated_at) });
+    }
+
+    const next = params.rate(current);
+    const changes: MatchRatingChange[] = [];
+    for (const player of params.players) {
+      const before = current.get(player.tgUserId) ?? null;
+      const after = next.get(player.tgUserId);
+      if (!after) continue;
+
+      const ratingAfter = Math.round(after.rating);
+      await client.query(
+        `
+        INSERT INTO player_ratings (tg_user_id, mode, rating, deviation, games, updated_at)
+        VALUES ($1, $2, $3, $4, 1, $5)
+        ON CONFLICT (tg_user_id, mode) DO UPDATE
+        SET rating = EXCLUDED.rating,
+            deviation = EXCLUDED.deviation,
+            games = player_ratings.games + 1,
+            updated_at = EXCLUDED.updated_at
+        `,
+        [player.tgUserId, params.mode, ratingAfter, after.deviation, params.endedAtMs],
+      );
+
+      const ratingBefore = before?.rating ?? DEFAULT_RATING;
+      await client.query(
+        `
+        INSERT INTO match_result_players (
+          match_id, tg_user_id, team, placement, rating_before, rating_after,
+          bombs_placed, tiles_destroyed, kills, deaths_explosion, deaths_enemy, survival_ticks
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        `,
+        [
+          params.matchId,
+          player.tgUserId,
+          player.team,
+          player.placement,
+          ratingBefore,
+          ratingAfter,
+          player.stats.bombsPlaced,
+          player.stats.tilesDestroyed,
+          player.stats.kills,
+          player.stats.deathsByExplosion,
+          player.stats.deathsByEnemy,
+          player.stats.survivalTicks,
+        ],
+      );
+      changes.push({ tgUserId: player.tgUserId, ratingBefore, ratingAfter, deviationAfter: after.deviation });
+    }
+
+    await client.query('COMMIT');
+    return changes;
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+/** Owner only: assigns every listed member to a team in one statement. */
+export async function setRoomMemberTeams(params: {
+  ownerTgUserId: string;
+  roomCode: string;
+  teams: Map<string, number>;
+}): Promise<{ room: RoomRecord; members: RoomMemberRecord[] }> {
+  const room = await getRoomByCode(params.roomCode);
+  if (!room) {
+    const error = new Error('room_not_found');
+    (error as any).code = 'ROOM_NOT_FOUND';
+    throw error;
+  }
+
+  if (room.ownerTgUserId !== params.ownerTgUserId) {
+    const error = new Error('forbidden');
+    (error as any).code = 'FORBIDDEN';
+    throw error;
+  }
+
+  if (room.status !== 'OPEN') {
+    const error = new Error('room_closed');
+    (error as any).code = 'ROOM_CLOSED';
+    throw error;
+  }
+
+  if (room.phase === 'STARTED') {
+    const error = new Error('room_started');
+    (error as any).code = 'ROOM_STARTED';
+    throw error;
+  }
+
+  await pgQuery(
+    `
+    UPDATE room_members rm
+    SET team = t.team
+    FROM unnest($2::text[], $3::int[]) AS t(tg_user_id, team)
+    WHERE rm.room_code = $1 AND rm.tg_user_id = t.tg_user_id
+    `,
+    [params.roomCode, Array.from(params.teams.keys()), Array.from(params.teams.values())],
+  );
+
+  return { room, members: await listRoomMembers(params.roomCode) };
+}
+
+type MatchResultPlayerDbRow = {
+  match_id: string;
+  tg_user_id: string;
+  team: number | null;
+  placement: number;
+  rating_before: number;
+  rating_after: number;
+  bombs_placed: number;
+  tiles_destroyed: number;
+  kills: number;
+  deaths_explosion: number;
+  deaths_enemy: number;
+  survival_ticks: number;
+};
+
+function mapMatchPlayerStats(row: MatchResultPlayerDbRow): MatchPlayerStats {
+  return {
+    bombsPlaced: Number(row.bombs_placed),
+    tilesDestroyed: Number(row.tiles_destroyed),
+    kills: Number(row.kills),
+    deathsByExplosion: Number(row.deaths_explosion),
+    deathsByEnemy: Number(row.deaths_enemy),
+    survivalTicks: Number(row.survival_ticks),
+  };
+}
+
+// Written once per match; a retry after a partial failure keeps the first copy.
+export async function saveMatchReplay(params: { matchId: string; data: Buffer; nowMs: number }): Promise<void> {
+  await pgQuery(
+    'INSERT INTO match_replays (match_id, replay, created_at) VALUES ($1, $2, $3) ON CONFLICT (match_id) DO NOTHING',
+    [params.matchId, params.data, params.nowMs],
+  );
+}
+
+export async function getMatchReplay(matchId: string): Promise<Buffer | null> {
+  const { rows } = await pgQuery<{ replay: Buffer }>('SELECT replay FROM match_replays WHERE match_id = $1', [matchId]);
+  return rows[0]?.replay ?? null;
+}
+
+export type MatchHistoryEntry = {
+  matchId: string;
+  roomCode: string;
+  mode: RatingMode;
+  reason: string;
+  endedAtMs: number;
+  endTick: number;
+  hasReplay: boolean;
+  playersCount: number;
+  team: number | null;
+  placement: number;
+  ratingBefore: number;
+  ratingAfter: number;
+  stats: MatchPlayerStats;
+};
+
+// Newest first; pass the last entry's `endedAtMs` as `beforeMs` for the next page.
+export async function listMatchHistory(params: {
+  tgUserId: string;
+  limit: number;
+  beforeMs?: number;
+}): Promise<MatchHistoryEntry[]> {
+  const safeLimit = Math.max(1, Math.min(50, Math.floor(params.limit)));
+  const { rows } = await pgQuery<MatchResultPlayerDbRow & {
+    room_code: string;
+    rating_mode: string;
+    reason: string;
+    ended_at: string;
+    end_tick: number;
+    has_replay: boolean;
+    players_count: number;
+  }>(
+    `
+    SELECT
+      mrp.*,
+      mr.room_code,
+      mr.rating_mode,
+      mr.reason,
+      mr.ended_at,
+      mr.end_tick,
+      mr.has_replay,
+      (SELECT COUNT(*) FROM match_result_players other WHERE other.match_id = mr.match_id)::int AS players_count
+    FROM match_result_players mrp
+    JOIN match_results mr ON mr.match_id = mrp.match_id
+    WHERE mrp.tg_user_id = $1 AND ($2::bigint IS NULL OR mr.ended_at < $2)
+    ORDER BY mr.ended_at DESC, mr.match_id DESC
+    LIMIT $3
+    `,
+    [params.tgUserId, params.beforeMs ?? null, safeLimit],
+  );
+
+  return rows.map((row) => ({
+    matchId: String(row.match_id),
+    roomCode: String(row.room_code),
+    mode: row.rating_mode as RatingMode,
+    reason: String(row.reason),
+    endedAtMs: Number(row.ended_at),
+    endTick: Number(row.end_tick),
+    hasReplay: Boolean(row.has_replay),
+    playersCount: Number(row.players_count),
+    team: row.team == null ? null : Number(row.team),
+    placement: Number(row.placement),
+    ratingBefore: Number(row.rating_before),
+    ratingAfter: Number(row.rating_after),
+    stats: mapMatchPlayerStats(row),
+  }));
+}
+
+export type MatchResultDetail = {
+  matchId: string;
+  roomCode: string;
+  mode: RatingMode;
+  reason: string;
+  winnerTgUserId: string | null;
+  winnerTeam: number | null;
+  endTick: number;
+  endedAtMs: number;
+  hasReplay: boolean;
+  players: Array<{
+    tgUserId: string;
+    displayName: string;
+    team: number | null;
+    placement: number;
+    ratingBefore: number;
+    ratingAfter: number;
+    stats: MatchPlayerStats;
+  }>;
+};
+
+export async function getMatchResult(matchId: string): Promise<MatchResultDetail | null> {
+  const matchRes = await pgQuery<{
+    match_id: string;
+    room_code: string;
+    rating_mode: string;
+    reason: string;
+    winner_tg_user_id: string | null;
+    winner_team: number | null;
+    end_tick: number;
+    ended_at: string;
+    has_replay: boolean;
+  }>(
+    'SELECT match_id, room_code, rating_mode, reason, winner_tg_user_id, winner_team, end_tick, ended_at, has_replay FROM match_results WHERE match_id = $1',
+    [matchId],
+  );
+  const match = matchRes.rows[0];
+  if (!match) return null;
+
+  const playersRes = await pgQuery<MatchResultPlayerDbRow & { display_name: string }>(
+    `
+    SELECT mrp.*, COALESCE(u.game_nickname, u.display_name) AS display_name
+    FROM match_result_players mrp
+    JOIN users u ON u.tg_user_id = mrp.tg_user_id
+    WHERE mrp.match_id = $1
+    ORDER BY mrp.placement ASC, mrp.tg_user_id ASC
+    `,
+    [matchId],
+  );
+
+  return {
+    matchId: String(match.match_id),
+    roomCode: String(match.room_code),
+    mode: match.rating_mode as RatingMode,
+    reason: String(match.reason),
+    winnerTgUserId: match.winner_tg_user_id == null ? null : String(match.winner_tg_user_id),
+    winnerTeam: match.winner_team == null ? null : Number(match.winner_team),
+    endTick: Number(match.end_tick),
+    endedAtMs: Number(match.ended_at),
+    hasReplay: Boolean(match.has_replay),
+    players: playersRes.rows.map((row) => ({
+      tgUserId: String(row.tg_user_id),
+      displayName: String(row.display_name ?? 'Unknown'),
+      team: row.team == null ? null : Number(row.team),
+      placement: Number(row.placement),
+      ratingBefore: Number(row.rating_before),
+      ratingAfter: Number(row.rating_after),
+      stats: mapMatchPlayerStats(row),
+    })),
+  };
+}
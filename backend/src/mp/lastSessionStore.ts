@@ -1,46 +1,97 @@
-export type LastMpSessionRecord = {
-  tgUserId: string;
-  roomCode: string;
-  matchId: string | null;
-  lastActiveAtMs: number;
-};
+import { deleteLastMpSession, getLastMpSession, upsertLastMpSession } from '../db/repos';
+import type { LastMpSessionRow } from '../db/repos';
+
+export type LastMpSessionRecord = LastMpSessionRow;
 
 const RESUME_ELIGIBLE_WINDOW_MS = 60_000;
-const lastMpSessions = new Map<string, LastMpSessionRecord>();
+// Inputs touch the session many times a second; an unchanged room and match is rewritten at most this often.
+const TOUCH_WRITE_INTERVAL_MS = 15_000;
+
+type WrittenSession = { roomCode: string; matchId: string | null; writtenAtMs: number };
+
+const writtenSessions = new Map<string, WrittenSession>();
+// Writes for one user run one after another so a late upsert can't land after a delete.
+const writeChains = new Map<string, Promise<void>>();
+// Bumped by a clear; upserts queued before it are dropped instead of run.
+const clearGenerations = new Map<string, number>();
+let lastSweepAtMs = 0;
+
+function enqueueWrite(tgUserId: string, write: () => Promise<void>): Promise<void> {
+  const run = (writeChains.get(tgUserId) ?? Promise.resolve()).then(write);
+  const settled = run.catch(() => undefined);
+  writeChains.set(tgUserId, settled);
+  void settled.then(() => {
+    if (writeChains.get(tgUserId) !== settled) return;
+    writeChains.delete(tgUserId);
+    clearGenerations.delete(tgUserId);
+  });
+  return run;
+}
 
+function sweepWrittenSessions(nowMs: number): void {
+  if (nowMs - lastSweepAtMs < RESUME_ELIGIBLE_WINDOW_MS) return;
+  lastSweepAtMs = nowMs;
+  for (const [tgUserId, written] of writtenSessions) {
+    if (nowMs - written.writtenAtMs > RESUME_ELIGIBLE_WINDOW_MS) writtenSessions.delete(tgUserId);
+  }
+}
+
+// Kept in Postgres: the room may run on another node than the one serving /api/resume.
 export function touchLastMpSession(input: {
   tgUserId: string;
   roomCode: string;
   matchId?: string | null;
   atMs?: number;
-}): LastMpSessionRecord {
-  const key = String(input.tgUserId);
-  const prev = lastMpSessions.get(key);
-  const next: LastMpSessionRecord = {
-    tgUserId: key,
+}): void {
+  const tgUserId = String(input.tgUserId);
+  const record: LastMpSessionRecord = {
+    tgUserId,
     roomCode: String(input.roomCode).toUpperCase(),
-    matchId: input.matchId === undefined ? (prev?.matchId ?? null) : (input.matchId ?? null),
+    matchId: input.matchId ?? null,
     lastActiveAtMs: Number.isFinite(input.atMs) ? Number(input.atMs) : Date.now(),
   };
 
-  lastMpSessions.set(key, next);
-  return next;
+  const previous = writtenSessions.get(tgUserId);
+  const matchId = input.matchId === undefined ? (previous?.matchId ?? null) : record.matchId;
+  if (
+    previous
+    && previous.roomCode === record.roomCode
+    && previous.matchId === matchId
+    && record.lastActiveAtMs - previous.writtenAtMs < TOUCH_WRITE_INTERVAL_MS
+  ) {
+    return;
+  }
+
+  sweepWrittenSessions(record.lastActiveAtMs);
+  writtenSessions.set(tgUserId, { roomCode: record.roomCode, matchId, writtenAtMs: record.lastActiveAtMs });
+
+  const generation = clearGenerations.get(tgUserId) ?? 0;
+  void enqueueWrite(tgUserId, async () => {
+    if ((clearGenerations.get(tgUserId) ?? 0) !== generation) return;
+    await upsertLastMpSession(record, input.matchId === undefined);
+  }).catch((error: unknown) => {
+    console.error('Last MP session write failed:', error);
+  });
 }
 
-export function getLastMpSessionIfEligible(tgUserId: string, nowMs = Date.now()): LastMpSessionRecord | null {
-  const record = lastMpSessions.get(String(tgUserId));
+export async function getLastMpSessionIfEligible(tgUserId: string, nowMs = Date.now()): Promise<LastMpSessionRecord | null> {
+  const record = await getLastMpSession(String(tgUserId));
   if (!record) {
     return null;
   }
 
   if (nowMs - record.lastActiveAtMs > RESUME_ELIGIBLE_WINDOW_MS) {
-    lastMpSessions.delete(String(tgUserId));
+    await deleteLastMpSession(String(tgUserId));
     return null;
   }
 
   return record;
 }
 
-export function clearLastMpSession(tgUserId: string): void {
-  lastMpSessions.delete(String(tgUserId));
+// Supersedes any write still queued for the user, then deletes the row.
+export async function clearLastMpSession(tgUserId: string): Promise<void> {
+  const key = String(tgUserId);
+  clearGenerations.set(key, (clearGenerations.get(key) ?? 0) + 1);
+  writtenSessions.delete(key);
+  await enqueueWrite(key, () => deleteLastMpSession(key));
 }
@@ -1,7 +1,14 @@
 import type {
+  MatchArenaShrink,
+  MatchBombChained,
   MatchBombExploded,
+  MatchBombKicked,
   MatchBombSpawned,
+  MatchBombStopped,
+  MatchDamageSource,
   MatchEnd,
+  MatchItemPicked,
+  MatchItemSpawned,
   MatchPlayerDamaged,
   MatchPlayerEliminated,
   MatchPlayerRespawned,
@@ -9,18 +16,30 @@ import type {
   MatchTilesDestroyed,
   MoveDir,
 } from './protocol';
-import type { EnemyState, MatchState, PlayerState } from './types';
+import type { BombState, EnemyState, ItemState, MatchState, PlayerMatchStats, PlayerState, QueuedMatchInput } from './types';
 
-const TICK_RATE_MS = 50; // 20 Hz
-const RESPAWN_DELAY_TICKS = 24;
+export const TICK_RATE_MS = 50; // 20 Hz
 const INVULN_TICKS = 20;
-const MOVE_DURATION_TICKS = 6;
+export const MOVE_DURATION_TICKS = 6;
 const ENEMY_HIT_COOLDOWN_TICKS = 12;
+const MAX_BOMB_CAPACITY = 5;
+const MAX_BOMB_RANGE = 6;
+const BOMB_SLIDE_TICKS_PER_CELL = 2;
+const ARENA_SHRINK_INTERVAL_TICKS = 10;
+const ARENA_SHRINK_CELLS_PER_STEP = 4;
+const ARENA_SHRINK_WARNING_TICKS = 30;
 const LOG_MOVEMENT_STATE = false;
 const LOG_EXPLOSION_DAMAGE = false;
 export const REJOIN_GRACE_MS = 60_000;
+// How far back bomb placement may be checked; covers ~400 ms of round trip plus render delay.
+export const MAX_BOMB_REWIND_TICKS = 8;
 
-type MatchEvent = MatchBombSpawned | MatchBombExploded | MatchTilesDestroyed | MatchPlayerDamaged | MatchPlayerRespawned | MatchPlayerEliminated | MatchEnd;
+export type MatchEvent = MatchBombSpawned | MatchBombExploded | MatchBombChained | MatchBombKicked | MatchBombStopped | MatchTilesDestroyed | MatchItemSpawned | MatchItemPicked | MatchPlayerDamaged | MatchPlayerRespawned | MatchPlayerEliminated | MatchArenaShrink | MatchEnd;
+
+export type MatchStepResult = {
+  snapshot: MatchSnapshot;
+  events: MatchEvent[];
+};
 
 export type BombPlacementRejectReason =
   | 'player_missing'
@@ -31,6 +50,13 @@ export type BombPlacementRejectReason =
   | 'max_bombs_reached'
   | 'cell_already_has_bomb';
 
+export type DetonateRejectReason =
+  | 'player_missing'
+  | 'player_eliminated'
+  | 'player_not_alive'
+  | 'not_unlocked'
+  | 'no_bomb';
+
 export function startMatch(match: MatchState, broadcast: (snapshot: MatchSnapshot, events: MatchEvent[]) => void) {
   match.interval = setInterval(() => tick(match, broadcast), TICK_RATE_MS);
 }
@@ -44,34 +70,53 @@ export function stopMatch(match: MatchState) {
 
 function tick(match: MatchState, broadcast: (snapshot: MatchSnapshot, events: MatchEvent[]) => void) {
   if (match.ended) return;
-  match.tick += 1;
+
+  const inputs = match.inputQueue;
+  match.inputQueue = [];
+  const { snapshot, events } = stepMatch(match, inputs, match.tick + 1);
+  broadcast(snapshot, events);
+}
+
+/**
+ * Advances the match to `tick` using only the given inputs and `match.clock`.
+ * Has no timers of its own, so tests and tools can drive it directly.
+ */
+export function stepMatch(match: MatchState, inputs: QueuedMatchInput[], tick: number): MatchStepResult {
+  match.tick = tick;
 
   const events: MatchEvent[] = [];
 
   pruneExpiredDisconnectedPlayers(match);
   processRespawns(match, events);
 
-  while (match.inputQueue.length > 0) {
-    const input = match.inputQueue.shift();
-    if (!input) continue;
+  for (const input of inputs) {
     const player = match.players.get(input.tgUserId);
     if (!player) continue;
     if (match.eliminatedPlayers.has(input.tgUserId)) continue;
     if (player.state === 'dead_respawning') continue;
     if (input.seq <= player.lastInputSeq) continue;
 
-    applyInput(match, input.tgUserId, input.seq, input.payload);
+    applyInput(match, input.tgUserId, input.seq, input.payload, events);
   }
 
-  advancePlayerMovementStates(match);
+  advancePlayerMovementStates(match, events);
+  advanceBombSlides(match, events);
+  processItemPickups(match, events);
   advanceEnemyMovementStates(match);
   processEnemyContactDamage(match, events);
+  processArenaShrink(match, events);
 
   processBombExplosions(match, events);
   maybeEndMatch(match, events);
-  const now = Date.now();
+  recordPlayerCells(match);
+
+  return { snapshot: buildMatchSnapshot(match), events };
+}
+
+export function buildMatchSnapshot(match: MatchState): MatchSnapshot {
+  const now = match.clock();
 
-  const snapshot: MatchSnapshot = {
+  return {
     version: 'match_v1',
     roomCode: match.roomId,
     matchId: match.matchId,
@@ -89,6 +134,13 @@ function tick(match: MatchState, broadcast: (snapshot: MatchSnapshot, events: Ma
         ownerId: bomb.ownerId,
         tickPlaced: bomb.tickPlaced,
         explodeAtTick: bomb.explodeAtTick,
+        slideDir: bomb.slideDir,
+      })),
+      items: Array.from(match.items.values()).map((item) => ({
+        id: item.id,
+        x: item.x,
+        y: item.y,
+        type: item.type,
       })),
     },
     players: Array.from(match.players.values()).map((p) => ({
@@ -109,11 +161,16 @@ function tick(match: MatchState, broadcast: (snapshot: MatchSnapshot, events: Ma
       moveStartServerTimeMs: p.isMoving ? p.moveStartServerTimeMs : now,
       moveDurationMs: p.isMoving ? p.moveDurationTicks * TICK_RATE_MS : 0,
       lives: match.playerLives.get(p.tgUserId) ?? 0,
+      bombCapacity: p.bombCapacity,
+      bombRange: p.bombRange,
+      remoteDetonate: p.remoteDetonate,
       eliminated: match.eliminatedPlayers.has(p.tgUserId) || match.disconnectedPlayers.has(p.tgUserId),
       disconnected: match.disconnectedPlayers.has(p.tgUserId),
+      team: p.team,
     })),
     enemies: Array.from(match.enemies.values()).map((enemy) => ({
       id: enemy.id,
+      kind: enemy.kind,
       x: enemy.x,
       y: enemy.y,
       alive: enemy.alive,
@@ -128,8 +185,6 @@ function tick(match: MatchState, broadcast: (snapshot: MatchSnapshot, events: Ma
       moveDurationMs: enemy.isMoving ? enemy.moveDurationTicks * TICK_RATE_MS : 0,
     })),
   };
-
-  broadcast(snapshot, events);
 }
 
 
@@ -138,12 +193,12 @@ export function markPlayerDisconnected(match: MatchState, tgUserId: string): boo
   if (!player) return false;
 
   match.disconnectedPlayers.add(tgUserId);
-  match.disconnectedAtMsByUserId.set(tgUserId, Date.now());
+  match.disconnectedAtMsByUserId.set(tgUserId, match.clock());
   match.inputQueue = match.inputQueue.filter((entry) => entry.tgUserId !== tgUserId);
   return true;
 }
 
-export function isPlayerRejoinable(match: MatchState, tgUserId: string, nowMs = Date.now()): boolean {
+export function isPlayerRejoinable(match: MatchState, tgUserId: string, nowMs = match.clock()): boolean {
   if (!match.disconnectedPlayers.has(tgUserId)) {
     return false;
   }
@@ -166,7 +221,7 @@ export function markPlayerReconnected(match: MatchState, tgUserId: string): bool
   return hadDisconnected;
 }
 
-export function pruneExpiredDisconnectedPlayers(match: MatchState, nowMs = Date.now()): string[] {
+export function pruneExpiredDisconnectedPlayers(match: MatchState, nowMs = match.clock()): string[] {
   const expired: string[] = [];
 
   for (const tgUserId of match.disconnectedPlayers) {
@@ -189,6 +244,7 @@ export function pruneExpiredDisconnectedPlayers(match: MatchState, nowMs = Date.
     player.invulnUntilTick = 0;
     match.eliminatedPlayers.add(tgUserId);
     match.playerLives.set(tgUserId, 0);
+    getPlayerMatchStats(match, tgUserId).eliminatedAtTick = match.tick;
 
   }
 
@@ -197,12 +253,31 @@ export function pruneExpiredDisconnectedPlayers(match: MatchState, nowMs = Date.
 
 
 
-export function tryPlaceBomb(match: MatchState, tgUserId: string, x: number, y: number): MatchBombSpawned | null {
-  const rejectReason = getBombPlacementRejectReason(match, tgUserId, x, y);
+// A player's history tallies, created at zero the first time they are needed.
+export function getPlayerMatchStats(match: MatchState, tgUserId: string): PlayerMatchStats {
+  let stats = match.stats.get(tgUserId);
+  if (!stats) {
+    stats = { bombsPlaced: 0, tilesDestroyed: 0, kills: 0, deathsByExplosion: 0, deathsByEnemy: 0, eliminatedAtTick: null };
+    match.stats.set(tgUserId, stats);
+  }
+  return stats;
+}
+
+/**
+ * Places a bomb for the player at (x, y). With `rewindTick` the cell may also
+ * be the one the player stood on at that past tick, so a lagging client bombs
+ * where it saw itself rather than where the server has moved it on.
+ */
+export function tryPlaceBomb(match: MatchState, tgUserId: string, x: number, y: number, rewindTick?: number): MatchBombSpawned | null {
+  const rejectReason = getBombPlacementRejectReason(match, tgUserId, x, y, rewindTick);
   if (rejectReason) return null;
+  const player = match.players.get(tgUserId);
+  if (!player) return null;
+  const rewindTicks = getCellRewindTicks(match, player, x, y, rewindTick) ?? 0;
 
   const eventId = nextEventId(match);
   const bombId = `bomb_${eventId}`;
+  getPlayerMatchStats(match, tgUserId).bombsPlaced += 1;
   match.bombs.set(bombId, {
     id: bombId,
     ownerId: tgUserId,
@@ -210,7 +285,9 @@ export function tryPlaceBomb(match: MatchState, tgUserId: string, x: number, y:
     y,
     tickPlaced: match.tick,
     explodeAtTick: match.tick + match.bombFuseTicks,
-    range: match.bombRange,
+    range: player.bombRange,
+    slideDir: null,
+    slideNextTick: 0,
   });
 
   return {
@@ -228,19 +305,26 @@ export function tryPlaceBomb(match: MatchState, tgUserId: string, x: number, y:
       tickPlaced: match.tick,
       explodeAtTick: match.tick + match.bombFuseTicks,
     },
+    ...(rewindTicks > 0 ? { rewindTicks } : {}),
   };
 }
 
-export function getBombPlacementRejectReason(match: MatchState, tgUserId: string, x: number, y: number): BombPlacementRejectReason | null {
+export function getBombPlacementRejectReason(
+  match: MatchState,
+  tgUserId: string,
+  x: number,
+  y: number,
+  rewindTick?: number,
+): BombPlacementRejectReason | null {
   const player = match.players.get(tgUserId);
   if (!player) return 'player_missing';
   if (match.eliminatedPlayers.has(tgUserId)) return 'player_eliminated';
   if (player.state !== 'alive') return 'player_not_alive';
-  if (player.x !== x || player.y !== y) return 'position_mismatch';
+  if (getCellRewindTicks(match, player, x, y, rewindTick) === null) return 'position_mismatch';
   if (!canOccupyWorldCell(match, x, y)) return 'cell_not_occupiable';
 
   const ownedBombCount = Array.from(match.bombs.values()).filter((bomb) => bomb.ownerId === tgUserId).length;
-  if (ownedBombCount >= match.maxBombsPerPlayer) return 'max_bombs_reached';
+  if (ownedBombCount >= player.bombCapacity) return 'max_bombs_reached';
 
   const collision = Array.from(match.bombs.values()).some((bomb) => bomb.x === x && bomb.y === y);
   if (collision) return 'cell_already_has_bomb';
@@ -248,14 +332,61 @@ export function getBombPlacementRejectReason(match: MatchState, tgUserId: string
   return null;
 }
 
+function recordPlayerCells(match: MatchState): void {
+  const cells = new Map<string, { x: number; y: number }>();
+  for (const player of match.players.values()) {
+    cells.set(player.tgUserId, { x: player.x, y: player.y });
+  }
+  match.playerCellHistory.push({ tick: match.tick, cells });
+  if (match.playerCellHistory.length > MAX_BOMB_REWIND_TICKS) {
+    match.playerCellHistory.shift();
+  }
+}
+
+// 0 if the player stands on (x, y) now, else the ticks back to `rewindTick` if it stood there at exactly that tick; null otherwise.
+function getCellRewindTicks(match: MatchState, player: PlayerState, x: number, y: number, rewindTick?: number): number | null {
+  if (player.x === x && player.y === y) return 0;
+  if (rewindTick === undefined) return null;
+
+  const rewindTicks = match.tick - rewindTick;
+  if (rewindTicks <= 0 || rewindTicks > MAX_BOMB_REWIND_TICKS) return null;
+  const cell = match.playerCellHistory.find((frame) => frame.tick === rewindTick)?.cells.get(player.tgUserId);
+  return cell && cell.x === x && cell.y === y ? rewindTicks : null;
+}
+
+export function getDetonateRejectReason(match: MatchState, tgUserId: string): DetonateRejectReason | null {
+  const player = match.players.get(tgUserId);
+  if (!player) return 'player_missing';
+  if (match.eliminatedPlayers.has(tgUserId)) return 'player_eliminated';
+  if (player.state !== 'alive') return 'player_not_alive';
+  if (!player.remoteDetonate) return 'not_unlocked';
+  if (!findOldestOwnedBomb(match, tgUserId)) return 'no_bomb';
+  return null;
+}
+
+// Remote detonation only ever triggers the owner's oldest bomb; ties keep placement order.
+function findOldestOwnedBomb(match: MatchState, tgUserId: string): BombState | null {
+  let oldest: BombState | null = null;
+  for (const bomb of match.bombs.values()) {
+    if (bomb.ownerId !== tgUserId) continue;
+    if (!oldest || bomb.tickPlaced < oldest.tickPlaced) oldest = bomb;
+  }
+  return oldest;
+}
+
 function processRespawns(match: MatchState, events: MatchEvent[]): void {
   for (const player of match.players.values()) {
     if (player.state !== 'dead_respawning') continue;
     if (player.respawnAtTick == null || match.tick < player.respawnAtTick) continue;
 
+    if (!canOccupyWorldCell(match, player.spawnX, player.spawnY)) {
+      eliminatePlayer(match, player, events, { kind: 'hazard' });
+      continue;
+    }
+
     player.x = player.spawnX;
     player.y = player.spawnY;
-    resetPlayerMovementState(player, match.tick, Date.now());
+    resetPlayerMovementState(player, match.tick, match.clock());
     player.state = 'alive';
     player.respawnAtTick = null;
     player.invulnUntilTick = match.tick + INVULN_TICKS;
@@ -276,17 +407,19 @@ function processRespawns(match: MatchState, events: MatchEvent[]): void {
   }
 }
 
+/**
+ * Explodes every due bomb, oldest fuse first. Bombs caught in a blast are
+ * queued behind the ones already due and go off in the same tick.
+ */
 function processBombExplosions(match: MatchState, events: MatchEvent[]): void {
   const damagedPlayersThisTick = new Set<string>();
+  const queue = Array.from(match.bombs.values())
+    .filter((bomb) => match.tick >= bomb.explodeAtTick)
+    .sort((a, b) => a.explodeAtTick - b.explodeAtTick);
 
-  while (true) {
-    const dueBomb = Array.from(match.bombs.values())
-      .filter((bomb) => match.tick >= bomb.explodeAtTick)
-      .sort((a, b) => a.explodeAtTick - b.explodeAtTick)[0];
-
-    if (!dueBomb) return;
-
-    match.bombs.delete(dueBomb.id);
+  while (queue.length > 0) {
+    const dueBomb = queue.shift()!;
+    if (!match.bombs.delete(dueBomb.id)) continue;
 
     const impacts = collectExplosionImpacts(match, dueBomb.x, dueBomb.y, dueBomb.range);
     const destroyedTiles: Array<{ x: number; y: number }> = [];
@@ -314,6 +447,7 @@ function processBombExplosions(match: MatchState, events: MatchEvent[]): void {
     });
 
     if (destroyedTiles.length > 0) {
+      getPlayerMatchStats(match, dueBomb.ownerId).tilesDestroyed += destroyedTiles.length;
       events.push({
         type: 'match:tiles_destroyed',
         roomCode: match.roomId,
@@ -323,6 +457,26 @@ function processBombExplosions(match: MatchState, events: MatchEvent[]): void {
         tick: match.tick,
         tiles: destroyedTiles,
       });
+
+      for (const tile of destroyedTiles) {
+        const item = maybeDropItem(match, tile.x, tile.y);
+        if (!item) continue;
+
+        events.push({
+          type: 'match:item_spawned',
+          roomCode: match.roomId,
+          matchId: match.matchId,
+          eventId: nextEventId(match),
+          serverTick: match.tick,
+          tick: match.tick,
+          item: {
+            id: item.id,
+            x: item.x,
+            y: item.y,
+            type: item.type,
+          },
+        });
+      }
     }
 
     for (const enemy of match.enemies.values()) {
@@ -338,17 +492,179 @@ function processBombExplosions(match: MatchState, events: MatchEvent[]): void {
       if (damagedPlayersThisTick.has(player.tgUserId)) continue;
       const hit = impacts.some((impact) => impact.x === player.x && impact.y === player.y);
       if (!hit) continue;
+      if (isFriendlyFireBlocked(match, dueBomb.ownerId, player)) continue;
 
       damagedPlayersThisTick.add(player.tgUserId);
-      applyPlayerDamage(match, player, events, 'explosion');
+      applyPlayerDamage(match, player, events, dueBomb.ownerId === player.tgUserId ? { kind: 'self' } : { kind: 'bomb', tgUserId: dueBomb.ownerId });
+    }
+
+    for (const bomb of match.bombs.values()) {
+      if (queue.includes(bomb)) continue;
+      if (!impacts.some((impact) => impact.x === bomb.x && impact.y === bomb.y)) continue;
+
+      bomb.explodeAtTick = match.tick;
+      queue.push(bomb);
+      events.push({
+        type: 'match:bomb_chained',
+        roomCode: match.roomId,
+        matchId: match.matchId,
+        eventId: nextEventId(match),
+        serverTick: match.tick,
+        tick: match.tick,
+        bombId: bomb.id,
+        byBombId: dueBomb.id,
+        x: bomb.x,
+        y: bomb.y,
+      });
+    }
+  }
+}
+
+function findBombAt(match: MatchState, x: number, y: number): BombState | null {
+  for (const bomb of match.bombs.values()) {
+    if (bomb.x === x && bomb.y === y) return bomb;
+  }
+  return null;
+}
+
+function tryKickBomb(match: MatchState, kicker: PlayerState, bomb: BombState, dir: MoveDir, events: MatchEvent[]): void {
+  if (bomb.slideDir !== null) return;
+
+  const standingOnBomb = Array.from(match.players.values()).some((player) => (
+    player.tgUserId !== kicker.tgUserId
+    && player.state === 'alive'
+    && player.x === bomb.x
+    && player.y === bomb.y
+  ));
+  if (standingOnBomb) return;
+
+  const next = nextCellForDir(bomb.x, bomb.y, dir);
+  if (isBombSlideBlocked(match, bomb, next.x, next.y)) return;
+
+  bomb.slideDir = dir;
+  bomb.slideNextTick = match.tick + BOMB_SLIDE_TICKS_PER_CELL;
+  events.push({
+    type: 'match:bomb_kicked',
+    roomCode: match.roomId,
+    matchId: match.matchId,
+    eventId: nextEventId(match),
+    serverTick: match.tick,
+    tick: match.tick,
+    bombId: bomb.id,
+    tgUserId: kicker.tgUserId,
+    dir,
+    x: bomb.x,
+    y: bomb.y,
+    ticksPerCell: BOMB_SLIDE_TICKS_PER_CELL,
+  });
+}
+
+// A kicked bomb moves one cell every BOMB_SLIDE_TICKS_PER_CELL ticks until
+// a wall, brick, bomb, player or enemy is in the way.
+function advanceBombSlides(match: MatchState, events: MatchEvent[]): void {
+  for (const bomb of match.bombs.values()) {
+    if (bomb.slideDir === null || match.tick < bomb.slideNextTick) continue;
+
+    const next = nextCellForDir(bomb.x, bomb.y, bomb.slideDir);
+    if (isBombSlideBlocked(match, bomb, next.x, next.y)) {
+      bomb.slideDir = null;
+      events.push({
+        type: 'match:bomb_stopped',
+        roomCode: match.roomId,
+        matchId: match.matchId,
+        eventId: nextEventId(match),
+        serverTick: match.tick,
+        tick: match.tick,
+        bombId: bomb.id,
+        x: bomb.x,
+        y: bomb.y,
+      });
+      continue;
     }
+
+    bomb.x = next.x;
+    bomb.y = next.y;
+    bomb.slideNextTick = match.tick + BOMB_SLIDE_TICKS_PER_CELL;
+  }
+}
+
+function isBombSlideBlocked(match: MatchState, bomb: BombState, x: number, y: number): boolean {
+  if (!canOccupyWorldCell(match, x, y)) return true;
+
+  const otherBomb = findBombAt(match, x, y);
+  if (otherBomb && otherBomb.id !== bomb.id) return true;
+
+  for (const player of match.players.values()) {
+    if (player.state !== 'alive') continue;
+    if ((player.x === x && player.y === y) || (player.isMoving && player.moveToX === x && player.moveToY === y)) return true;
   }
+
+  for (const enemy of match.enemies.values()) {
+    if (!enemy.alive) continue;
+    if ((enemy.x === x && enemy.y === y) || (enemy.isMoving && enemy.moveToX === x && enemy.moveToY === y)) return true;
+  }
+
+  return false;
+}
+
+function maybeDropItem(match: MatchState, x: number, y: number): ItemState | null {
+  const key = `${x},${y}`;
+  if (match.items.has(key)) return null;
+
+  const dropRoll = deterministicRandom01(`${match.matchId}:${match.tick}:${key}:drop`);
+  if (dropRoll >= match.itemDropChance) return null;
+
+  const typeRoll = deterministicRandom01(`${match.matchId}:${match.tick}:${key}:type`);
+  const item: ItemState = {
+    id: `item_${match.matchId}_${match.tick}_${x}_${y}`,
+    x,
+    y,
+    type: typeRoll < 0.5 ? 'BombUp' : 'FireUp',
+    tickSpawned: match.tick,
+  };
+  match.items.set(key, item);
+  return item;
 }
 
+function processItemPickups(match: MatchState, events: MatchEvent[]): void {
+  if (match.items.size === 0) return;
+
+  for (const player of match.players.values()) {
+    if (player.state !== 'alive') continue;
+
+    const key = `${player.x},${player.y}`;
+    const item = match.items.get(key);
+    if (!item) continue;
+
+    match.items.delete(key);
+    if (item.type === 'BombUp') {
+      player.bombCapacity = Math.min(MAX_BOMB_CAPACITY, player.bombCapacity + 1);
+    } else {
+      player.bombRange = Math.min(MAX_BOMB_RANGE, player.bombRange + 1);
+      player.remoteDetonate = true;
+    }
+
+    events.push({
+      type: 'match:item_picked',
+      roomCode: match.roomId,
+      matchId: match.matchId,
+      eventId: nextEventId(match),
+      serverTick: match.tick,
+      tick: match.tick,
+      itemId: item.id,
+      x: item.x,
+      y: item.y,
+      itemType: item.type,
+      tgUserId: player.tgUserId,
+      bombCapacity: player.bombCapacity,
+      bombRange: player.bombRange,
+    });
+  }
+}
 
 function advanceEnemyMovementStates(match: MatchState): void {
   if (match.enemyMoveIntervalTicks <= 0) return;
-  const now = Date.now();
+  const now = match.clock();
 
   for (const enemy of match.enemies.values()) {
     if (!enemy.alive) continue;
@@ -385,7 +701,7 @@ function chooseEnemyNextCell(match: MatchState, enemy: EnemyState): { x: number;
     const nx = enemy.x + dx;
     const ny = enemy.y + dy;
 
-    if (!canOccupyWorldCell(match, nx, ny)) return false;
+    if (!canEnemyEnterCell(match, enemy, nx, ny)) return false;
 
     const occupiedByEnemy = Array.from(match.enemies.values()).some((other) => (
       other.id !== enemy.id
@@ -400,13 +716,15 @@ function chooseEnemyNextCell(match: MatchState, enemy: EnemyState): { x: number;
   if (valid.length === 0) return null;
 
   let chosen: MoveDir;
-  const forwardBias = 0.65;
-  if (valid.includes(enemy.facing) && deterministicRandom01(`${match.matchId}:${match.tick}:${enemy.id}:forward`) < forwardBias) {
-    chosen = enemy.facing;
-  } else {
-    const rand = deterministicRandom01(`${match.matchId}:${match.tick}:${enemy.id}:pick`);
-    const index = Math.floor(rand * valid.length);
-    chosen = valid[index] ?? valid[0];
+  switch (enemy.kind) {
+    case 'chaser':
+      chosen = findChaseDir(match, enemy, valid) ?? chooseWanderDir(match, enemy, valid);
+      break;
+    case 'bomb_avoider':
+      chosen = chooseWanderDir(match, enemy, filterBlastSafeDirs(match, enemy, valid));
+      break;
+    default:
+      chosen = chooseWanderDir(match, enemy, valid);
   }
 
   const { dx, dy } = toDelta(chosen);
@@ -414,6 +732,78 @@ function chooseEnemyNextCell(match: MatchState, enemy: EnemyState): { x: number;
   return { x: enemy.x + dx, y: enemy.y + dy };
 }
 
+function canEnemyEnterCell(match: MatchState, enemy: EnemyState, x: number, y: number): boolean {
+  if (enemy.kind !== 'wall_phaser') return canOccupyWorldCell(match, x, y);
+  if (x < 0 || y < 0 || x >= match.world.gridW || y >= match.world.gridH) return false;
+
+  const tile = match.world.tiles[y * match.world.gridW + x] ?? 1;
+  return tile === 0 || tile === 2;
+}
+
+// Random walk that prefers to keep going the way it already faces.
+function chooseWanderDir(match: MatchState, enemy: EnemyState, valid: ReadonlyArray<MoveDir>): MoveDir {
+  const forwardBias = 0.65;
+  if (valid.includes(enemy.facing) && deterministicRandom01(`${match.matchId}:${match.tick}:${enemy.id}:forward`) < forwardBias) {
+    return enemy.facing;
+  }
+
+  const rand = deterministicRandom01(`${match.matchId}:${match.tick}:${enemy.id}:pick`);
+  const index = Math.floor(rand * valid.length);
+  return valid[index] ?? valid[0];
+}
+
+/**
+ * First step of a shortest path to the nearest alive player, searched over
+ * open floor. Null when no player is reachable or the step is taken.
+ */
+function findChaseDir(match: MatchState, enemy: EnemyState, valid: ReadonlyArray<MoveDir>): MoveDir | null {
+  const targets = new Set<string>();
+  for (const player of match.players.values()) {
+    if (player.state === 'alive') targets.add(`${player.x},${player.y}`);
+  }
+  if (targets.size === 0 || targets.has(`${enemy.x},${enemy.y}`)) return null;
+
+  const visited = new Set<string>([`${enemy.x},${enemy.y}`]);
+  const queue: Array<{ x: number; y: number; firstDir: MoveDir | null }> = [{ x: enemy.x, y: enemy.y, firstDir: null }];
+
+  for (let head = 0; head < queue.length; head += 1) {
+    const cell = queue[head];
+    for (const dir of ['up', 'down', 'left', 'right'] as const) {
+      const { dx, dy } = toDelta(dir);
+      const nx = cell.x + dx;
+      const ny = cell.y + dy;
+      const key = `${nx},${ny}`;
+      if (visited.has(key) || !canOccupyWorldCell(match, nx, ny)) continue;
+
+      const firstDir = cell.firstDir ?? dir;
+      if (targets.has(key)) return valid.includes(firstDir) ? firstDir : null;
+
+      visited.add(key);
+      queue.push({ x: nx, y: ny, firstDir });
+    }
+  }
+
+  return null;
+}
+
+// Drops steps into a live blast line; keeps every option when none is safe.
+function filterBlastSafeDirs(match: MatchState, enemy: EnemyState, valid: ReadonlyArray<MoveDir>): ReadonlyArray<MoveDir> {
+  if (match.bombs.size === 0) return valid;
+
+  const danger = new Set<string>();
+  for (const bomb of match.bombs.values()) {
+    for (const impact of collectExplosionImpacts(match, bomb.x, bomb.y, bomb.range)) {
+      danger.add(`${impact.x},${impact.y}`);
+    }
+  }
+
+  const safe = valid.filter((dir) => {
+    const { dx, dy } = toDelta(dir);
+    return !danger.has(`${enemy.x + dx},${enemy.y + dy}`);
+  });
+  return safe.length > 0 ? safe : valid;
+}
+
 function deterministicRandom01(seed: string): number {
   let hash = 2166136261;
 
@@ -451,16 +841,23 @@ function processEnemyContactDamage(match: MatchState, events: MatchEvent[]): voi
       if (match.tick - player.lastEnemyHitTick < ENEMY_HIT_COOLDOWN_TICKS) continue;
 
       player.lastEnemyHitTick = match.tick;
-      applyPlayerDamage(match, player, events, 'enemy_contact');
+      applyPlayerDamage(match, player, events, { kind: 'enemy', enemyId: enemy.id });
     }
   }
 }
 
-function applyPlayerDamage(match: MatchState, player: PlayerState, events: MatchEvent[], source: 'explosion' | 'enemy_contact'): void {
+function applyPlayerDamage(match: MatchState, player: PlayerState, events: MatchEvent[], source: MatchDamageSource): void {
   const prevLives = match.playerLives.get(player.tgUserId) ?? 0;
   const nextLives = Math.max(0, prevLives - 1);
   match.playerLives.set(player.tgUserId, nextLives);
 
+  const victimStats = getPlayerMatchStats(match, player.tgUserId);
+  if (source.kind === 'enemy') victimStats.deathsByEnemy += 1;
+  else victimStats.deathsByExplosion += 1;
+  if (source.kind === 'bomb' && !isTeammate(match, source.tgUserId, player)) {
+    getPlayerMatchStats(match, source.tgUserId).kills += 1;
+  }
+
   if (LOG_EXPLOSION_DAMAGE) {
     console.log(JSON.stringify({
       victimId: player.tgUserId,
@@ -480,36 +877,191 @@ function applyPlayerDamage(match: MatchState, player: PlayerState, events: Match
     tick: match.tick,
     tgUserId: player.tgUserId,
     lives: nextLives,
+    source,
   });
 
   if (nextLives <= 0) {
-    player.state = 'eliminated';
-    resetPlayerMovementState(player, match.tick, Date.now());
-    player.respawnAtTick = null;
-    player.invulnUntilTick = 0;
-    match.eliminatedPlayers.add(player.tgUserId);
-    events.push({
-      type: 'match:player_eliminated',
-      roomCode: match.roomId,
-      matchId: match.matchId,
-      eventId: nextEventId(match),
-      serverTick: match.tick,
-      tick: match.tick,
-      tgUserId: player.tgUserId,
-    });
+    eliminatePlayer(match, player, events, source);
     return;
   }
 
   player.state = 'dead_respawning';
-  resetPlayerMovementState(player, match.tick, Date.now());
-  player.respawnAtTick = match.tick + RESPAWN_DELAY_TICKS;
+  resetPlayerMovementState(player, match.tick, match.clock());
+  player.respawnAtTick = match.tick + match.ruleset.respawnDelayTicks;
+  player.invulnUntilTick = 0;
+}
+
+function eliminatePlayer(match: MatchState, player: PlayerState, events: MatchEvent[], source: MatchDamageSource): void {
+  player.state = 'eliminated';
+  resetPlayerMovementState(player, match.tick, match.clock());
+  player.respawnAtTick = null;
   player.invulnUntilTick = 0;
+  match.eliminatedPlayers.add(player.tgUserId);
+  match.playerLives.set(player.tgUserId, 0);
+  getPlayerMatchStats(match, player.tgUserId).eliminatedAtTick = match.tick;
+  events.push({
+    type: 'match:player_eliminated',
+    roomCode: match.roomId,
+    matchId: match.matchId,
+    eventId: nextEventId(match),
+    serverTick: match.tick,
+    tick: match.tick,
+    tgUserId: player.tgUserId,
+    source,
+  });
 }
+
+/**
+ * Sudden death: from `ruleset.suddenDeathTick`, every few ticks the next cells
+ * of an inward spiral are announced and turn into hard walls after a warning.
+ * Whatever stands on a closing cell is eliminated; bombs there detonate.
+ */
+function processArenaShrink(match: MatchState, events: MatchEvent[]): void {
+  const startTick = match.ruleset.suddenDeathTick;
+  if (match.tick < startTick) return;
+
+  if (!match.arenaShrink) {
+    match.arenaShrink = { order: buildArenaShrinkOrder(match), nextIndex: 0, pending: [] };
+  }
+  const shrink = match.arenaShrink;
+
+  while (shrink.pending.length > 0 && shrink.pending[0].closesAtTick <= match.tick) {
+    const batch = shrink.pending.shift()!;
+    closeArenaCells(match, batch.cells, events);
+  }
+
+  if ((match.tick - startTick) % ARENA_SHRINK_INTERVAL_TICKS !== 0) return;
+
+  const cells: Array<{ x: number; y: number }> = [];
+  while (cells.length < ARENA_SHRINK_CELLS_PER_STEP && shrink.nextIndex < shrink.order.length) {
+    const cell = shrink.order[shrink.nextIndex];
+    shrink.nextIndex += 1;
+    if (match.world.tiles[cell.y * match.world.gridW + cell.x] !== 1) cells.push(cell);
+  }
+  if (cells.length === 0) return;
+
+  const closesAtTick = match.tick + ARENA_SHRINK_WARNING_TICKS;
+  shrink.pending.push({ closesAtTick, cells });
+  events.push({
+    type: 'match:arena_shrink',
+    roomCode: match.roomId,
+    matchId: match.matchId,
+    eventId: nextEventId(match),
+    serverTick: match.tick,
+    tick: match.tick,
+    phase: 'warning',
+    closesAtTick,
+    cells,
+  });
+}
+
+// Clockwise rings from the border inward, starting at the top-left corner.
+function buildArenaShrinkOrder(match: MatchState): Array<{ x: number; y: number }> {
+  const order: Array<{ x: number; y: number }> = [];
+  let left = 1;
+  let top = 1;
+  let right = match.world.gridW - 2;
+  let bottom = match.world.gridH - 2;
+
+  while (left <= right && top <= bottom) {
+    for (let x = left; x <= right; x += 1) order.push({ x, y: top });
+    for (let y = top + 1; y <= bottom; y += 1) order.push({ x: right, y });
+    if (top < bottom) {
+      for (let x = right - 1; x >= left; x -= 1) order.push({ x, y: bottom });
+    }
+    if (left < right) {
+      for (let y = bottom - 1; y > top; y -= 1) order.push({ x: left, y });
+    }
+    left += 1;
+    top += 1;
+    right -= 1;
+    bottom -= 1;
+  }
+
+  return order;
+}
+
+function closeArenaCells(match: MatchState, cells: Array<{ x: number; y: number }>, events: MatchEvent[]): void {
+  const closing = new Set(cells.map(({ x, y }) => `${x},${y}`));
+
+  for (const { x, y } of cells) {
+    match.world.tiles[y * match.world.gridW + x] = 1;
+    match.items.delete(`${x},${y}`);
+  }
+
+  events.push({
+    type: 'match:arena_shrink',
+    roomCode: match.roomId,
+    matchId: match.matchId,
+    eventId: nextEventId(match),
+    serverTick: match.tick,
+    tick: match.tick,
+    phase: 'closed',
+    closesAtTick: match.tick,
+    cells,
+  });
+
+  for (const bomb of match.bombs.values()) {
+    if (closing.has(`${bomb.x},${bomb.y}`)) bomb.explodeAtTick = match.tick;
+  }
+
+  for (const enemy of match.enemies.values()) {
+    if (!enemy.alive) continue;
+    if (closing.has(`${enemy.x},${enemy.y}`) || (enemy.isMoving && closing.has(`${enemy.moveToX},${enemy.moveToY}`))) {
+      enemy.alive = false;
+    }
+  }
+
+  for (const player of match.players.values()) {
+    if (player.state !== 'alive') continue;
+    if (closing.has(`${player.x},${player.y}`) || (player.isMoving && closing.has(`${player.moveToX},${player.moveToY}`))) {
+      eliminatePlayer(match, player, events, { kind: 'hazard' });
+    }
+  }
+}
+function isTeammate(match: MatchState, tgUserId: string, other: PlayerState): boolean {
+  return other.team !== null && match.players.get(tgUserId)?.team === other.team;
+}
+
+// Own bombs always hurt; a teammate's bomb only does with friendly fire on.
+function isFriendlyFireBlocked(match: MatchState, bombOwnerId: string, victim: PlayerState): boolean {
+  if (match.friendlyFire || victim.team === null || victim.tgUserId === bombOwnerId) return false;
+  return match.players.get(bombOwnerId)?.team === victim.team;
+}
+
+function isTeamMatch(match: MatchState): boolean {
+  for (const player of match.players.values()) {
+    if (player.team !== null) return true;
+  }
+  return false;
+}
+
 function maybeEndMatch(match: MatchState, events: MatchEvent[]): void {
   if (match.ended) return;
 
   const contenders = Array.from(match.players.values())
     .filter((player) => player.state !== 'eliminated');
+  const tiedReason = match.arenaShrink ? 'timeout' : 'draw';
+
+  if (isTeamMatch(match)) {
+    const survivingTeams = new Set(contenders.map((player) => player.team));
+    if (survivingTeams.size > 1) return;
+
+    const [winnerTeam = null] = survivingTeams;
+    match.ended = true;
+    events.push({
+      type: 'match:end',
+      roomCode: match.roomId,
+      matchId: match.matchId,
+      serverTick: match.tick,
+      tick: match.tick,
+      winnerTgUserId: null,
+      winnerTeam,
+      reason: winnerTeam === null ? tiedReason : 'elimination',
+    });
+    return;
+  }
+
   if (contenders.length > 0) return;
 
   match.ended = true;
@@ -520,7 +1072,7 @@ function maybeEndMatch(match: MatchState, events: MatchEvent[]): void {
     serverTick: match.tick,
     tick: match.tick,
     winnerTgUserId: null,
-    reason: 'draw',
+    reason: tiedReason,
   });
 }
 
@@ -559,7 +1111,7 @@ function canOccupyWorldCell(match: MatchState, x: number, y: number): boolean {
   return tile === 0;
 }
 
-function applyInput(match: MatchState, tgUserId: string, seq: number, payload: { kind: 'move'; dir: MoveDir | null } | { kind: 'bomb_place'; x: number; y: number }) {
+function applyInput(match: MatchState, tgUserId: string, seq: number, payload: QueuedMatchInput['payload'], events: MatchEvent[]) {
   const p = match.players.get(tgUserId);
   if (!p) return;
 
@@ -569,11 +1121,23 @@ function applyInput(match: MatchState, tgUserId: string, seq: number, payload: {
     return;
   }
 
+  if (payload.kind === 'detonate') {
+    p.lastInputSeq = seq;
+    if (getDetonateRejectReason(match, tgUserId)) return;
+    // Explodes later this step, in processBombExplosions.
+    findOldestOwnedBomb(match, tgUserId)!.explodeAtTick = match.tick;
+    return;
+  }
+
   p.lastInputSeq = seq;
+  const spawned = tryPlaceBomb(match, tgUserId, payload.x, payload.y);
+  if (spawned) {
+    events.push(spawned);
+  }
 }
 
-function advancePlayerMovementStates(match: MatchState): void {
-  const now = Date.now();
+function advancePlayerMovementStates(match: MatchState, events: MatchEvent[]): void {
+  const now = match.clock();
 
   for (const player of match.players.values()) {
     if (player.state !== 'alive') continue;
@@ -601,6 +1165,13 @@ function advancePlayerMovementStates(match: MatchState): void {
     const { x: nx, y: ny } = nextCellForDir(player.x, player.y, player.intentDir);
     if (!canOccupyWorldCell(match, nx, ny)) continue;
 
+    // Bombs block movement; walking into one kicks it instead.
+    const bombAhead = findBombAt(match, nx, ny);
+    if (bombAhead) {
+      tryKickBomb(match, player, bombAhead, player.intentDir, events);
+      continue;
+    }
+
     player.isMoving = true;
     player.moveFromX = player.x;
     player.moveFromY = player.y;
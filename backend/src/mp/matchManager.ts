@@ -1,13 +1,18 @@
 import crypto from 'crypto';
 
 import { stopMatch } from './match';
-import { EnemyState, MatchState, PlayerState } from './types';
+import type { MatchEnemyKind } from './protocol';
+import { CLASSIC_RULESET } from './ruleset';
+import { EnemyState, MatchClock, MatchSetup, MatchState, PlayerState } from './types';
 
 const matches = new Map<string, MatchState>();
 const roomToMatch = new Map<string, string>();
 
 type Cell = { x: number; y: number };
 
+// Kinds are dealt out in spawn order, so small enemy counts stay mostly wanderers.
+const ENEMY_KIND_ROTATION: ReadonlyArray<MatchEnemyKind> = ['normal', 'chaser', 'normal', 'bomb_avoider', 'wall_phaser', 'chaser'];
+
 function getSpawnSafeCells(gridW: number, gridH: number): Set<string> {
   const cells: Cell[] = [
     // top-left
@@ -73,9 +78,8 @@ function shuffleCells(cells: Cell[], rng: () => number): Cell[] {
   return shuffled;
 }
 
-function buildInitialEnemies(gridW: number, gridH: number, tiles: number[], seed: string): Map<string, EnemyState> {
+function buildInitialEnemies(gridW: number, gridH: number, tiles: number[], seed: string, nowMs: number, desiredCount: number): Map<string, EnemyState> {
   const enemies = new Map<string, EnemyState>();
-  const desiredCount = 6;
   const spawnSafeCells = getSpawnSafeCells(gridW, gridH);
   const rng = createSeededRng(seed);
   const candidates: Cell[] = [];
@@ -112,6 +116,7 @@ function buildInitialEnemies(gridW: number, gridH: number, tiles: number[], seed
     const id = `enemy_${enemies.size + 1}`;
     enemies.set(id, {
       id,
+      kind: ENEMY_KIND_ROTATION[enemies.size % ENEMY_KIND_ROTATION.length],
       x,
       y,
       facing: 'left',
@@ -123,7 +128,7 @@ function buildInitialEnemies(gridW: number, gridH: number, tiles: number[], seed
       moveToY: y,
       moveStartTick: 0,
       moveDurationTicks: 0,
-      moveStartServerTimeMs: Date.now(),
+      moveStartServerTimeMs: nowMs,
     });
   }
 
@@ -172,7 +177,7 @@ function buildWorldTiles(gridW: number, gridH: number, seed: string): number[] {
   return tiles;
 }
 
-function hashWorldTiles(tiles: number[]): string {
+export function hashWorldTiles(tiles: number[]): string {
   let hash = 2166136261;
   for (const tile of tiles) {
     hash ^= tile & 0xff;
@@ -185,16 +190,32 @@ function newMatchId(): string {
   return `match_${crypto.randomBytes(6).toString('hex')}`;
 }
 
-export function createMatch(roomId: string, players: string[]): MatchState {
+export function createMatch(roomId: string, players: string[], setup: Partial<MatchSetup> = {}): MatchState {
   const existingId = roomToMatch.get(roomId);
   if (existingId) {
     endMatch(existingId);
   }
 
-  const matchId = newMatchId();
+  const state = buildMatchState(newMatchId(), roomId, players, Date.now, setup);
+
+  matches.set(state.matchId, state);
+  roomToMatch.set(roomId, state.matchId);
+  return state;
+}
 
-  const gridW = 27;
-  const gridH = 14;
+/**
+ * Builds the initial state for a match without registering or starting it.
+ * The world and enemy layout depend only on `matchId`.
+ */
+export function buildMatchState(
+  matchId: string,
+  roomId: string,
+  players: string[],
+  clock: MatchClock = Date.now,
+  setup: Partial<MatchSetup> = {},
+): MatchState {
+  const ruleset = setup.ruleset ?? CLASSIC_RULESET;
+  const { gridW, gridH } = ruleset;
 
   const worldTiles = buildWorldTiles(gridW, gridH, matchId);
   const worldHash = hashWorldTiles(worldTiles);
@@ -203,21 +224,30 @@ export function createMatch(roomId: string, players: string[]): MatchState {
     matchId,
     roomId,
     tick: 0,
+    ruleset,
     world: { gridW, gridH, tiles: worldTiles, worldHash },
     players: new Map<string, PlayerState>(),
     disconnectedPlayers: new Set<string>(),
     disconnectedAtMsByUserId: new Map<string, number>(),
     playerLives: new Map<string, number>(),
     eliminatedPlayers: new Set<string>(),
+    stats: new Map(),
     bombs: new Map(),
     maxBombsPerPlayer: 1,
-    bombFuseTicks: 40,
-    bombRange: 2,
-    enemies: buildInitialEnemies(gridW, gridH, worldTiles, `${matchId}:enemies`),
+    bombFuseTicks: ruleset.bombFuseTicks,
+    bombRange: ruleset.bombRange,
+    items: new Map(),
+    itemDropChance: 0.25,
+    friendlyFire: setup.friendlyFire ?? false,
+    arenaShrink: null,
+    enemies: buildInitialEnemies(gridW, gridH, worldTiles, `${matchId}:enemies`, clock(), ruleset.enemyCount),
     enemyMoveIntervalTicks: 5,
     eventSeq: 0,
     seenEventIds: [],
     inputQueue: [],
+    playerCellHistory: [],
+    clock,
+    replay: null,
     ended: false,
   };
 
@@ -240,7 +270,7 @@ export function createMatch(roomId: string, players: string[]): MatchState {
       moveToY: y,
       moveStartTick: state.tick,
       moveDurationTicks: 0,
-      moveStartServerTimeMs: Date.now(),
+      moveStartServerTimeMs: clock(),
       intentDir: null,
       state: 'alive',
       respawnAtTick: null,
@@ -248,15 +278,32 @@ export function createMatch(roomId: string, players: string[]): MatchState {
       lastEnemyHitTick: Number.NEGATIVE_INFINITY,
       spawnX: x,
       spawnY: y,
+      bombCapacity: state.maxBombsPerPlayer,
+      bombRange: state.bombRange,
+      remoteDetonate: setup.remoteDetonate?.has(tgUserId) ?? false,
+      team: setup.teams?.get(tgUserId) ?? null,
     });
-    state.playerLives.set(tgUserId, 3);
+    state.playerLives.set(tgUserId, ruleset.lives);
   });
 
-  matches.set(matchId, state);
-  roomToMatch.set(roomId, matchId);
   return state;
 }
 
+// Takes over a match built elsewhere (e.g. restored after a restart), replacing any match in its room.
+export function registerMatch(state: MatchState): void {
+  const existingId = roomToMatch.get(state.roomId);
+  if (existingId && existingId !== state.matchId) {
+    endMatch(existingId);
+  }
+
+  matches.set(state.matchId, state);
+  roomToMatch.set(state.roomId, state.matchId);
+}
+
+export function listLiveMatches(): MatchState[] {
+  return Array.from(matches.values()).filter((match) => !match.ended);
+}
+
 export function getMatch(matchId: string): MatchState | null {
   return matches.get(matchId) ?? null;
 }
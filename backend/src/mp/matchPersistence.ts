@@ -0,0 +1,140 @@
+import type { MatchRuleset } from './protocol';
+import type { ReplayRecording } from './replayStore';
+import type {
+  ArenaShrinkState,
+  BombState,
+  EnemyState,
+  ItemState,
+  MatchClock,
+  MatchState,
+  PlayerMatchStats,
+  PlayerState,
+} from './types';
+
+export const PERSISTED_MATCH_VERSION = 3;
+
+// `lastEnemyHitTick` starts at -Infinity, which JSON can't carry; null stands in for it.
+export type PersistedPlayer = Omit<PlayerState, 'lastEnemyHitTick'> & { lastEnemyHitTick: number | null };
+
+// Moves and detonates wait in the input queue until the next step.
+const QUEUED_REPLAY_CODES = new Set(['u', 'd', 'l', 'r', 's', 't']);
+
+/**
+ * Everything needed to keep simulating a live match in another process. Timers,
+ * queued inputs and the lag-compensation history are left behind: they are
+ * either per-process or refill within a few ticks. The replay recording goes
+ * along, minus the queued inputs the adopting node will never apply.
+ */
+export type PersistedMatch = {
+  version: typeof PERSISTED_MATCH_VERSION;
+  matchId: string;
+  roomId: string;
+  tick: number;
+  ruleset: MatchRuleset;
+  world: MatchState['world'];
+  players: PersistedPlayer[];
+  disconnectedAtMsByUserId: Array<[string, number]>;
+  playerLives: Array<[string, number]>;
+  eliminatedPlayers: string[];
+  stats: Array<[string, PlayerMatchStats]>;
+  bombs: BombState[];
+  maxBombsPerPlayer: number;
+  bombFuseTicks: number;
+  bombRange: number;
+  items: ItemState[];
+  itemDropChance: number;
+  friendlyFire: boolean;
+  arenaShrink: ArenaShrinkState | null;
+  enemies: EnemyState[];
+  enemyMoveIntervalTicks: number;
+  eventSeq: number;
+  seenEventIds: string[];
+  replay: ReplayRecording | null;
+};
+
+export function serializeMatchState(match: MatchState): PersistedMatch {
+  return {
+    version: PERSISTED_MATCH_VERSION,
+    matchId: match.matchId,
+    roomId: match.roomId,
+    tick: match.tick,
+    ruleset: match.ruleset,
+    world: { ...match.world, tiles: [...match.world.tiles] },
+    players: Array.from(match.players.values(), (player) => ({
+      ...player,
+      lastEnemyHitTick: Number.isFinite(player.lastEnemyHitTick) ? player.lastEnemyHitTick : null,
+    })),
+    disconnectedAtMsByUserId: Array.from(match.disconnectedPlayers, (tgUserId) => [
+      tgUserId,
+      match.disconnectedAtMsByUserId.get(tgUserId) ?? match.clock(),
+    ]),
+    playerLives: Array.from(match.playerLives.entries()),
+    eliminatedPlayers: Array.from(match.eliminatedPlayers),
+    stats: Array.from(match.stats, ([tgUserId, stats]) => [tgUserId, { ...stats }]),
+    bombs: Array.from(match.bombs.values(), (bomb) => ({ ...bomb })),
+    maxBombsPerPlayer: match.maxBombsPerPlayer,
+    bombFuseTicks: match.bombFuseTicks,
+    bombRange: match.bombRange,
+    items: Array.from(match.items.values(), (item) => ({ ...item })),
+    itemDropChance: match.itemDropChance,
+    friendlyFire: match.friendlyFire,
+    arenaShrink: match.arenaShrink
+      ? {
+        order: match.arenaShrink.order.map((cell) => ({ ...cell })),
+        nextIndex: match.arenaShrink.nextIndex,
+        pending: match.arenaShrink.pending.map((batch) => ({ ...batch, cells: batch.cells.map((cell) => ({ ...cell })) })),
+      }
+      : null,
+    enemies: Array.from(match.enemies.values(), (enemy) => ({ ...enemy })),
+    enemyMoveIntervalTicks: match.enemyMoveIntervalTicks,
+    eventSeq: match.eventSeq,
+    seenEventIds: [...match.seenEventIds],
+    replay: match.replay
+      ? {
+        ...match.replay,
+        entries: match.replay.entries.filter(([tick, , , code]) => tick < match.tick || !QUEUED_REPLAY_CODES.has(code)),
+      }
+      : null,
+  };
+}
+
+// Returns null for a payload written by an incompatible build.
+export function restoreMatchState(persisted: PersistedMatch, clock: MatchClock = Date.now): MatchState | null {
+  if (persisted?.version !== PERSISTED_MATCH_VERSION) {
+    return null;
+  }
+
+  return {
+    matchId: persisted.matchId,
+    roomId: persisted.roomId,
+    tick: persisted.tick,
+    ruleset: persisted.ruleset,
+    world: { ...persisted.world, tiles: [...persisted.world.tiles] },
+    players: new Map(persisted.players.map((player): [string, PlayerState] => [
+      player.tgUserId,
+      { ...player, lastEnemyHitTick: player.lastEnemyHitTick ?? Number.NEGATIVE_INFINITY },
+    ])),
+    disconnectedPlayers: new Set(persisted.disconnectedAtMsByUserId.map(([tgUserId]) => tgUserId)),
+    disconnectedAtMsByUserId: new Map(persisted.disconnectedAtMsByUserId),
+    playerLives: new Map(persisted.playerLives),
+    eliminatedPlayers: new Set(persisted.eliminatedPlayers),
+    stats: new Map(persisted.stats.map(([tgUserId, stats]) => [tgUserId, { ...stats }])),
+    bombs: new Map(persisted.bombs.map((bomb) => [bomb.id, { ...bomb }])),
+    maxBombsPerPlayer: persisted.maxBombsPerPlayer,
+    bombFuseTicks: persisted.bombFuseTicks,
+    bombRange: persisted.bombRange,
+    items: new Map(persisted.items.map((item) => [`${item.x},${item.y}`, { ...item }])),
+    itemDropChance: persisted.itemDropChance,
+    friendlyFire: persisted.friendlyFire,
+    arenaShrink: persisted.arenaShrink,
+    enemies: new Map(persisted.enemies.map((enemy) => [enemy.id, { ...enemy }])),
+    enemyMoveIntervalTicks: persisted.enemyMoveIntervalTicks,
+    eventSeq: persisted.eventSeq,
+    seenEventIds: [...persisted.seenEventIds],
+    inputQueue: [],
+    playerCellHistory: [],
+    clock,
+    replay: persisted.replay,
+    ended: false,
+  };
+}
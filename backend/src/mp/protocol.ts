@@ -1,28 +1,3 @@
-export type {
-  BombSnapshot,
-  EnemySnapshot,
-  MoveDir,
-  MoveIntentDir,
-  MatchBombExploded,
-  MatchBombExplodedEvent,
-  MatchPlayerDamaged,
-  MatchPlayerEliminated,
-  MatchPlayerRespawned,
-  MatchTilesDestroyed,
-  MatchBombSpawned,
-  MatchBombPlacedEvent,
-  MatchInputPayload,
-  MatchClientMessage,
-  MatchEnd,
-  MatchServerMessage,
-  RoomRestartAccepted,
-  RoomRestartCancelled,
-  RoomRestartRejected,
-  RoomRestartCooldown,
-  RoomRestartProposed,
-  RoomRestartVoteState,
-  MatchSnapshot,
-  MatchSnapshotPlayer,
-  MatchSnapshotV1,
-  ProtocolVersion,
-} from '@shared/protocol';
+// Wire types come from shared/src/protocol.ts only; this module just gives the
+// backend a local import path for them.
+export type * from '@shared/protocol';
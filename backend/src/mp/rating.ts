@@ -0,0 +1,143 @@
+import type { MatchEnd } from './protocol';
+
+/**
+ * Glicko ratings for multiplayer results. Every match is one rating period in
+ * which each player has played everyone on another side: the better placement
+ * scores 1, equal placements 0.5. Deviation shrinks as results come in and
+ * drifts back up while a player is away.
+ */
+
+export type RatingMode = 'ffa' | 'team';
+
+export type Rating = {
+  rating: number;
+  deviation: number;
+};
+
+export type RatedPlayer = Rating & {
+  tgUserId: string;
+  team: number | null;
+  placement: number; // 1 = best; equal placements tie
+  idleMs: number; // since the player's last rated match
+};
+
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_DEVIATION = 350;
+
+const MIN_DEVIATION = 40;
+// Deviation regained per day away; a settled rating is uncertain again after ~3 months idle.
+const DEVIATION_DRIFT_PER_DAY = 35;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const Q = Math.log(10) / 400;
+
+export function ratingModeOf(teams: ReadonlyArray<number | null>): RatingMode {
+  return teams.some((team) => team !== null) ? 'team' : 'ffa';
+}
+
+/**
+ * Placements from how the match ended. Team matches rank whole teams; in
+ * free-for-all the tick of elimination does: anyone still standing shares
+ * first place, and players knocked out on the same tick share theirs.
+ */
+export function placementsFromEnd(
+  end: Pick<MatchEnd, 'winnerTeam'>,
+  players: ReadonlyArray<{ tgUserId: string; team: number | null }>,
+  eliminatedAtTick: ReadonlyMap<string, number>,
+): Map<string, number> {
+  const placements = new Map<string, number>();
+
+  if (ratingModeOf(players.map((player) => player.team)) === 'team') {
+    const winnerTeam = end.winnerTeam ?? null;
+    for (const player of players) {
+      placements.set(player.tgUserId, winnerTeam === null || player.team === winnerTeam ? 1 : 2);
+    }
+    return placements;
+  }
+
+  const standing = players.filter((player) => !eliminatedAtTick.has(player.tgUserId)).length;
+  const ticks = Array.from(eliminatedAtTick.values());
+  for (const player of players) {
+    const tick = eliminatedAtTick.get(player.tgUserId);
+    const outlasted = tick === undefined ? 0 : Math.min(standing, 1) + ticks.filter((other) => other > tick).length;
+    placements.set(player.tgUserId, 1 + outlasted);
+  }
+  return placements;
+}
+
+function preMatchDeviation(player: RatedPlayer): number {
+  const idleDays = Math.max(0, player.idleMs) / DAY_MS;
+  return Math.min(DEFAULT_DEVIATION, Math.sqrt(player.deviation ** 2 + DEVIATION_DRIFT_PER_DAY ** 2 * idleDays));
+}
+
+function g(deviation: number): number {
+  return 1 / Math.sqrt(1 + (3 * Q * Q * deviation * deviation) / (Math.PI * Math.PI));
+}
+
+function expectedScore(rating: number, opponentRating: number, opponentDeviation: number): number {
+  return 1 / (1 + 10 ** (-g(opponentDeviation) * (rating - opponentRating) / 400));
+}
+
+/** New ratings for everyone in a finished match. Teammates are not rated against each other. */
+export function rateMatch(players: readonly RatedPlayer[]): Map<string, Rating> {
+  const deviations = new Map(players.map((player) => [player.tgUserId, preMatchDeviation(player)]));
+  const next = new Map<string, Rating>();
+
+  for (const player of players) {
+    const deviation = deviations.get(player.tgUserId)!;
+    let varianceInverse = 0;
+    let improvement = 0;
+
+    for (const opponent of players) {
+      if (opponent.tgUserId === player.tgUserId) continue;
+      if (player.team !== null && opponent.team === player.team) continue;
+
+      const opponentG = g(deviations.get(opponent.tgUserId)!);
+      const expected = expectedScore(player.rating, opponent.rating, deviations.get(opponent.tgUserId)!);
+      const score = player.placement < opponent.placement ? 1 : player.placement > opponent.placement ? 0 : 0.5;
+      varianceInverse += Q * Q * opponentG * opponentG * expected * (1 - expected);
+      improvement += opponentG * (score - expected);
+    }
+
+    if (varianceInverse === 0) {
+      next.set(player.tgUserId, { rating: player.rating, deviation });
+      continue;
+    }
+
+    const precision = 1 / (deviation * deviation) + varianceInverse;
+    next.set(player.tgUserId, {
+      rating: player.rating + (Q / precision) * improvement,
+      deviation: Math.max(MIN_DEVIATION, Math.sqrt(1 / precision)),
+    });
+  }
+
+  return next;
+}
+
+/**
+ * Splits players into two teams whose rating totals are as close as possible,
+ * keeping team sizes within one of each other. Rooms hold at most four
+ * players, so every split is tried.
+ */
+export function balanceTeams(players: ReadonlyArray<{ tgUserId: string; rating: number }>): Map<string, number> {
+  const sorted = [...players].sort((a, b) => b.rating - a.rating || a.tgUserId.localeCompare(b.tgUserId));
+  const half = Math.floor(sorted.length / 2);
+  let bestMask = 0;
+  let bestGap = Number.POSITIVE_INFINITY;
+
+  // Bit i set = player i on team B. The top-rated player always anchors team A.
+  for (let mask = 0; mask < 1 << sorted.length; mask += 1) {
+    if (mask & 1) continue;
+    const teamB = sorted.filter((_, index) => mask & (1 << index));
+    if (teamB.length !== half && teamB.length !== sorted.length - half) continue;
+
+    const totalB = teamB.reduce((sum, player) => sum + player.rating, 0);
+    const totalA = sorted.reduce((sum, player) => sum + player.rating, 0) - totalB;
+    const gap = Math.abs(totalA - totalB);
+    if (gap < bestGap) {
+      bestGap = gap;
+      bestMask = mask;
+    }
+  }
+
+  return new Map(sorted.map((player, index) => [player.tgUserId, bestMask & (1 << index) ? 1 : 0]));
+}
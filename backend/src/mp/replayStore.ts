@@ -0,0 +1,220 @@
+import { promisify } from 'util';
+import zlib from 'zlib';
+
+import {
+  buildMatchSnapshot,
+  markPlayerDisconnected,
+  markPlayerReconnected,
+  stepMatch,
+  TICK_RATE_MS,
+  tryPlaceBomb,
+} from './match';
+import { buildMatchState, hashWorldTiles } from './matchManager';
+import type { MatchEnd, MatchInputPayload, MatchReplay, MatchReplayEvent, MatchReplayFrame, MatchRuleset } from './protocol';
+import { resolveMatchRuleset } from './ruleset';
+import type { MatchState } from './types';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+/**
+ * One recorded action: [tick, playerIndex, seq, code, x?, y?, rewindTicks?].
+ * `tick` is `match.tick` when the server accepted it. Codes:
+ * u/d/l/r/s = move up/down/left/right/stop (applied on the next step),
+ * b = bomb placed at (x, y) immediately, checked against where the player
+ * stood `rewindTicks` ago when lag compensation applied, t = remote detonate
+ * (applied on the next step), x = disconnected, c = reconnected.
+ */
+type ReplayEntry = [number, number, number, string, number?, number?, number?];
+
+export type ReplayFile = {
+  version: 'replay_v1';
+  matchId: string;
+  roomCode: string;
+  players: string[];
+  teams?: Record<string, number> | null;
+  friendlyFire?: boolean;
+  ruleset?: MatchRuleset;
+  remoteDetonate?: string[];
+  seed: string;
+  world: { gridW: number; gridH: number; tiles: number[]; worldHash: string };
+  startedAtMs: number;
+  endedAtMs: number;
+  endTick: number;
+  finalWorldHash: string;
+  winnerTgUserId: string | null;
+  reason: MatchEnd['reason'];
+  entries: ReplayEntry[];
+};
+
+export type ReplayRecording = Omit<ReplayFile, 'endedAtMs' | 'endTick' | 'finalWorldHash' | 'winnerTgUserId' | 'reason'>;
+
+const MOVE_CODES = { up: 'u', down: 'd', left: 'l', right: 'r' } as const;
+const MOVE_DIRS = { u: 'up', d: 'down', l: 'left', r: 'right', s: null } as const;
+
+export function beginReplayRecording(match: MatchState, startedAtMs = match.clock()): void {
+  match.replay = {
+    version: 'replay_v1',
+    matchId: match.matchId,
+    roomCode: match.roomId,
+    players: Array.from(match.players.keys()),
+    teams: buildTeamRecord(match),
+    friendlyFire: match.friendlyFire,
+    ruleset: match.ruleset,
+    remoteDetonate: Array.from(match.players.values())
+      .filter((player) => player.remoteDetonate)
+      .map((player) => player.tgUserId),
+    seed: match.matchId,
+    world: {
+      gridW: match.world.gridW,
+      gridH: match.world.gridH,
+      tiles: [...match.world.tiles],
+      worldHash: match.world.worldHash,
+    },
+    startedAtMs,
+    entries: [],
+  };
+}
+
+function buildTeamRecord(match: MatchState): Record<string, number> | null {
+  const teams: Record<string, number> = {};
+  for (const player of match.players.values()) {
+    if (player.team === null) return null;
+    teams[player.tgUserId] = player.team;
+  }
+  return teams;
+}
+
+export function recordReplayInput(match: MatchState, tgUserId: string, seq: number, payload: MatchInputPayload, rewindTicks = 0): void {
+  const recording = match.replay;
+  if (!recording) return;
+
+  const playerIndex = recording.players.indexOf(tgUserId);
+  if (playerIndex < 0) return;
+
+  if (payload.kind === 'move') {
+    const code = payload.dir === null ? 's' : MOVE_CODES[payload.dir];
+    recording.entries.push([match.tick, playerIndex, seq, code]);
+    return;
+  }
+
+  if (payload.kind === 'detonate') {
+    recording.entries.push([match.tick, playerIndex, seq, 't']);
+    return;
+  }
+
+  recording.entries.push(rewindTicks > 0
+    ? [match.tick, playerIndex, seq, 'b', payload.x, payload.y, rewindTicks]
+    : [match.tick, playerIndex, seq, 'b', payload.x, payload.y]);
+}
+
+export function recordReplayPresence(match: MatchState, tgUserId: string, change: 'disconnect' | 'reconnect'): void {
+  const recording = match.replay;
+  if (!recording) return;
+
+  const playerIndex = recording.players.indexOf(tgUserId);
+  if (playerIndex < 0) return;
+
+  recording.entries.push([match.tick, playerIndex, 0, change === 'disconnect' ? 'x' : 'c']);
+}
+
+/**
+ * Seals the recording as gzipped JSON for `saveMatchReplay`. Null when the
+ * match was not being recorded.
+ */
+export async function finishReplayRecording(match: MatchState, end: MatchEnd): Promise<Buffer | null> {
+  const recording = match.replay;
+  if (!recording) return null;
+  match.replay = null;
+
+  const file: ReplayFile = {
+    ...recording,
+    endedAtMs: match.clock(),
+    endTick: end.tick,
+    finalWorldHash: hashWorldTiles(match.world.tiles),
+    winnerTgUserId: end.winnerTgUserId,
+    reason: end.reason,
+  };
+
+  return gzip(Buffer.from(JSON.stringify(file)));
+}
+
+// Null for data written by another replay version.
+export async function parseReplayData(data: Buffer): Promise<ReplayFile | null> {
+  const raw = await gunzip(data);
+  const file = JSON.parse(raw.toString('utf8')) as ReplayFile;
+  return file?.version === 'replay_v1' ? file : null;
+}
+
+/**
+ * Re-runs the recorded match through `stepMatch` and returns every tick's
+ * snapshot and events, ready to be fed through the client render path.
+ */
+export function buildReplayFromFile(file: ReplayFile): MatchReplay {
+  let nowMs = file.startedAtMs;
+  const match = buildMatchState(file.seed, file.roomCode, file.players, () => nowMs, {
+    teams: file.teams ? new Map(Object.entries(file.teams)) : null,
+    friendlyFire: file.friendlyFire ?? false,
+    ruleset: resolveMatchRuleset(file.ruleset),
+    remoteDetonate: new Set(file.remoteDetonate ?? []),
+  });
+  match.world.tiles = [...file.world.tiles];
+
+  const entriesByTick = new Map<number, ReplayEntry[]>();
+  for (const entry of file.entries) {
+    const list = entriesByTick.get(entry[0]) ?? [];
+    list.push(entry);
+    entriesByTick.set(entry[0], list);
+  }
+
+  const frames: MatchReplayFrame[] = [{ tick: 0, snapshot: buildMatchSnapshot(match), events: [] }];
+
+  for (let tick = 1; tick <= file.endTick && !match.ended; tick += 1) {
+    const pendingEvents: MatchReplayEvent[] = [];
+
+    for (const [, playerIndex, seq, code, x, y, rewindTicks] of entriesByTick.get(tick - 1) ?? []) {
+      const tgUserId = file.players[playerIndex];
+      if (!tgUserId) continue;
+
+      if (code === 'b') {
+        // Same tick as the live check, so the same history frame.
+        const spawned = tryPlaceBomb(match, tgUserId, x ?? -1, y ?? -1, rewindTicks ? match.tick - rewindTicks : undefined);
+        if (spawned) pendingEvents.push(spawned);
+      } else if (code === 'x') {
+        markPlayerDisconnected(match, tgUserId);
+      } else if (code === 'c') {
+        markPlayerReconnected(match, tgUserId);
+      } else if (code === 't') {
+        match.inputQueue.push({ tgUserId, seq, payload: { kind: 'detonate' } });
+      } else if (code in MOVE_DIRS) {
+        match.inputQueue.push({
+          tgUserId,
+          seq,
+          payload: { kind: 'move', dir: MOVE_DIRS[code as keyof typeof MOVE_DIRS] },
+        });
+      }
+    }
+
+    nowMs = file.startedAtMs + tick * TICK_RATE_MS;
+    const inputs = match.inputQueue;
+    match.inputQueue = [];
+    const { snapshot, events } = stepMatch(match, inputs, tick);
+    frames.push({ tick, snapshot, events: [...pendingEvents, ...events] });
+  }
+
+  return {
+    version: 'replay_v1',
+    roomCode: file.roomCode,
+    matchId: file.matchId,
+    players: file.players,
+    tickRateMs: TICK_RATE_MS,
+    startedAtMs: file.startedAtMs,
+    endedAtMs: file.endedAtMs,
+    endTick: file.endTick,
+    winnerTgUserId: file.winnerTgUserId,
+    reason: file.reason,
+    verified: match.ended && match.tick === file.endTick && hashWorldTiles(match.world.tiles) === file.finalWorldHash,
+    world: file.world,
+    frames,
+  };
+}
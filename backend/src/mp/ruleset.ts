@@ -0,0 +1,72 @@
+import type { MatchRuleset, MatchRulesetPreset } from './protocol';
+
+type RulesetLimits = Record<Exclude<keyof MatchRuleset, 'preset'>, { min: number; max: number }>;
+
+export const CLASSIC_RULESET: MatchRuleset = {
+  preset: 'classic',
+  bombFuseTicks: 40,
+  bombRange: 2,
+  lives: 3,
+  respawnDelayTicks: 24,
+  enemyCount: 6,
+  gridW: 27,
+  gridH: 14,
+  suddenDeathTick: 3600, // 3 minutes at 20 Hz
+};
+
+export const MATCH_RULESET_PRESETS: Record<Exclude<MatchRulesetPreset, 'custom'>, MatchRuleset> = {
+  classic: CLASSIC_RULESET,
+  sudden_death: { ...CLASSIC_RULESET, preset: 'sudden_death', lives: 1, suddenDeathTick: 1200 },
+  no_enemies: { ...CLASSIC_RULESET, preset: 'no_enemies', enemyCount: 0 },
+  big_map: { ...CLASSIC_RULESET, preset: 'big_map', gridW: 35, gridH: 18, enemyCount: 10 },
+};
+
+const RULESET_LIMITS: RulesetLimits = {
+  bombFuseTicks: { min: 20, max: 100 },
+  bombRange: { min: 1, max: 6 },
+  lives: { min: 1, max: 9 },
+  respawnDelayTicks: { min: 0, max: 100 },
+  enemyCount: { min: 0, max: 16 },
+  gridW: { min: 15, max: 41 },
+  gridH: { min: 10, max: 22 },
+  suddenDeathTick: { min: 200, max: 12000 },
+};
+
+/**
+ * Validates a ruleset sent by a room owner: `{ preset, ...overrides }`.
+ * Overrides start from the named preset (classic when omitted) and turn it
+ * into `custom` when they change anything. Returns null when invalid.
+ */
+export function parseMatchRuleset(input: unknown): MatchRuleset | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return null;
+  const raw = input as Record<string, unknown>;
+
+  const presetName = raw.preset ?? 'classic';
+  const base = presetName === 'custom'
+    ? CLASSIC_RULESET
+    : MATCH_RULESET_PRESETS[presetName as keyof typeof MATCH_RULESET_PRESETS];
+  if (!base) return null;
+
+  const ruleset: MatchRuleset = { ...base, preset: presetName as MatchRulesetPreset };
+  let changed = false;
+  for (const key of Object.keys(RULESET_LIMITS) as Array<keyof RulesetLimits>) {
+    const value = raw[key];
+    if (value === undefined) continue;
+
+    const { min, max } = RULESET_LIMITS[key];
+    if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) return null;
+    if (value !== ruleset[key]) changed = true;
+    ruleset[key] = value as number;
+  }
+
+  // Corner spawns and pillars line up only on odd widths and even heights.
+  if (ruleset.gridW % 2 === 0 || ruleset.gridH % 2 === 1) return null;
+
+  if (changed) ruleset.preset = 'custom';
+  return ruleset;
+}
+
+// Stored rulesets were validated on write; anything unreadable falls back to classic.
+export function resolveMatchRuleset(stored: unknown): MatchRuleset {
+  return parseMatchRuleset(stored) ?? CLASSIC_RULESET;
+}
@@ -0,0 +1,102 @@
+import type { MatchSnapshot, MatchSnapshotDelta, SnapshotEntityDelta } from './protocol';
+
+// Stamped with the current tick and time on every snapshot while an entity is
+// idle, so they are left out of deltas and restamped on the receiving side.
+const IDLE_STAMPED_FIELDS = new Set<string>(['moveStartTick', 'moveStartServerTimeMs']);
+
+export function diffMatchSnapshots(base: MatchSnapshot, next: MatchSnapshot, worldHash: string): MatchSnapshotDelta {
+  const delta: MatchSnapshotDelta = {
+    version: next.version,
+    roomCode: next.roomCode,
+    matchId: next.matchId,
+    tick: next.tick,
+    baseTick: base.tick,
+    serverTime: next.serverTime,
+    serverTimeMs: next.serverTimeMs ?? next.serverTime,
+    worldHash,
+  };
+
+  const bombs = diffEntities(base.world.bombs ?? [], next.world.bombs ?? [], 'id');
+  if (bombs) delta.bombs = bombs;
+  const items = diffEntities(base.world.items ?? [], next.world.items ?? [], 'id');
+  if (items) delta.items = items;
+  const players = diffEntities(base.players, next.players, 'tgUserId');
+  if (players) delta.players = players;
+  const enemies = diffEntities(base.enemies ?? [], next.enemies ?? [], 'id');
+  if (enemies) delta.enemies = enemies;
+
+  return delta;
+}
+
+/**
+ * Rebuilds the full snapshot the delta was cut from. Mirrors the client-side
+ * decoder in `src/ws/snapshotDelta.ts`; keep the two in step.
+ */
+export function applyMatchSnapshotDelta(base: MatchSnapshot, delta: MatchSnapshotDelta): MatchSnapshot {
+  const restamp = <T extends { isMoving?: boolean; moveStartTick?: number; moveStartServerTimeMs?: number }>(entity: T): T => (
+    entity.isMoving === false
+      ? { ...entity, moveStartTick: delta.tick, moveStartServerTimeMs: delta.serverTimeMs }
+      : entity
+  );
+
+  return {
+    ...base,
+    tick: delta.tick,
+    serverTime: delta.serverTime,
+    serverTimeMs: delta.serverTimeMs,
+    world: {
+      ...base.world,
+      bombs: applyEntities(base.world.bombs ?? [], delta.bombs, 'id'),
+      items: applyEntities(base.world.items ?? [], delta.items, 'id'),
+    },
+    players: applyEntities(base.players, delta.players, 'tgUserId').map(restamp),
+    enemies: applyEntities(base.enemies ?? [], delta.enemies, 'id').map(restamp),
+  };
+}
+
+function diffEntities<T extends object, K extends keyof T>(base: T[], next: T[], key: K): SnapshotEntityDelta<T, K> | undefined {
+  const baseByKey = new Map(base.map((entity) => [entity[key], entity]));
+  const nextKeys = new Set(next.map((entity) => entity[key]));
+  const upsert: SnapshotEntityDelta<T, K>['upsert'] = [];
+
+  for (const entity of next) {
+    const previous = baseByKey.get(entity[key]);
+    if (!previous) {
+      upsert.push(entity);
+      continue;
+    }
+
+    const idle = (entity as { isMoving?: boolean }).isMoving === false;
+    const changed: Partial<T> = {};
+    let hasChanges = false;
+    for (const field of Object.keys(entity) as Array<keyof T>) {
+      if (idle && IDLE_STAMPED_FIELDS.has(field as string)) continue;
+      if (entity[field] === previous[field]) continue;
+      changed[field] = entity[field];
+      hasChanges = true;
+    }
+    if (hasChanges) upsert.push({ ...changed, [key]: entity[key] } as Partial<T> & Pick<T, K>);
+  }
+
+  const removed = base.map((entity) => entity[key]).filter((id) => !nextKeys.has(id));
+  return upsert.length > 0 || removed.length > 0 ? { upsert, removed } : undefined;
+}
+
+function applyEntities<T extends object, K extends keyof T>(base: T[], delta: SnapshotEntityDelta<T, K> | undefined, key: K): T[] {
+  if (!delta) return base;
+
+  const removed = new Set(delta.removed);
+  const upsertByKey = new Map(delta.upsert.map((entity) => [entity[key], entity]));
+  const result: T[] = [];
+  for (const entity of base) {
+    if (removed.has(entity[key])) continue;
+    const patch = upsertByKey.get(entity[key]);
+    upsertByKey.delete(entity[key]);
+    result.push(patch ? { ...entity, ...patch } : entity);
+  }
+
+  for (const entity of upsertByKey.values()) {
+    result.push(entity as T);
+  }
+  return result;
+}
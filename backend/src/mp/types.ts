@@ -1,4 +1,5 @@
-import type { MatchInputPayload, MoveDir, MoveIntentDir } from './protocol';
+import type { MatchEnemyKind, MatchInputPayload, MatchItemType, MatchRuleset, MoveDir, MoveIntentDir } from './protocol';
+import type { ReplayRecording } from './replayStore';
 
 export type PlayerState = {
   tgUserId: string;
@@ -23,10 +24,15 @@ export type PlayerState = {
   lastEnemyHitTick: number;
   spawnX: number;
   spawnY: number;
+  bombCapacity: number;
+  bombRange: number;
+  remoteDetonate: boolean;
+  team: number | null; // null in free-for-all matches
 };
 
 export type EnemyState = {
   id: string;
+  kind: MatchEnemyKind;
   x: number;
   y: number;
   facing: MoveDir;
@@ -41,10 +47,70 @@ export type EnemyState = {
   moveStartServerTimeMs: number;
 };
 
+export type BombState = {
+  id: string;
+  ownerId: string;
+  x: number;
+  y: number;
+  tickPlaced: number;
+  explodeAtTick: number;
+  range: number;
+  slideDir: MoveDir | null; // set while sliding after a kick
+  slideNextTick: number;
+};
+
+export type ItemState = {
+  id: string;
+  x: number;
+  y: number;
+  type: MatchItemType;
+  tickSpawned: number;
+};
+
+// Sudden-death spiral: `order` lists the interior cells from the border
+// inward; `pending` batches were announced and close at `closesAtTick`.
+export type ArenaShrinkState = {
+  order: Array<{ x: number; y: number }>;
+  nextIndex: number;
+  pending: Array<{ closesAtTick: number; cells: Array<{ x: number; y: number }> }>;
+};
+
+export type QueuedMatchInput = {
+  tgUserId: string;
+  seq: number;
+  payload: MatchInputPayload;
+};
+
+// Team assignment, friendly fire, ruleset and shop unlocks, fixed when the match is created.
+export type MatchSetup = {
+  teams: Map<string, number> | null; // tgUserId -> team; null = free-for-all
+  friendlyFire: boolean;
+  ruleset: MatchRuleset;
+  remoteDetonate: Set<string>; // players who own the remote detonation boost
+};
+
+// Wall-clock source for server timestamps and the rejoin grace window.
+// Injectable so headless runs can step a match faster than real time.
+export type MatchClock = () => number;
+
+// Tallies kept for match history. A kill is a life taken from an opponent with the player's bomb.
+export type PlayerMatchStats = {
+  bombsPlaced: number;
+  tilesDestroyed: number;
+  kills: number;
+  deathsByExplosion: number;
+  deathsByEnemy: number;
+  eliminatedAtTick: number | null;
+};
+
+// Where every player stood at the end of one tick; kept for lag-compensated bomb placement.
+export type PlayerCellFrame = { tick: number; cells: Map<string, { x: number; y: number }> };
+
 export type MatchState = {
   matchId: string;
   roomId: string;
   tick: number;
+  ruleset: MatchRuleset;
 
   world: {
     gridW: number;
@@ -58,32 +124,31 @@ export type MatchState = {
   disconnectedAtMsByUserId: Map<string, number>;
   playerLives: Map<string, number>;
   eliminatedPlayers: Set<string>;
+  stats: Map<string, PlayerMatchStats>; // filled in as players first do something
 
-  bombs: Map<string, {
-    id: string;
-    ownerId: string;
-    x: number;
-    y: number;
-    tickPlaced: number;
-    explodeAtTick: number;
-    range: number;
-  }>;
+  bombs: Map<string, BombState>;
   maxBombsPerPlayer: number;
   bombFuseTicks: number;
   bombRange: number;
 
+  items: Map<string, ItemState>; // key: `${x},${y}`
+  itemDropChance: number;
+
+  friendlyFire: boolean;
+  arenaShrink: ArenaShrinkState | null; // null until sudden death starts
+
   enemies: Map<string, EnemyState>;
   enemyMoveIntervalTicks: number;
 
   eventSeq: number;
   seenEventIds: string[];
 
-  inputQueue: Array<{
-    tgUserId: string;
-    seq: number;
-    payload: MatchInputPayload;
-  }>;
+  inputQueue: QueuedMatchInput[];
+  playerCellHistory: PlayerCellFrame[]; // newest last; bounded by MAX_BOMB_REWIND_TICKS
+
 
+  clock: MatchClock;
+  replay: ReplayRecording | null;
   interval?: NodeJS.Timeout;
   ended: boolean;
 };
@@ -15,8 +15,14 @@ import { friendsRouter } from './api/friends.routes';
 import { usersRouter } from './api/users.routes';
 import { referralsRouter } from './api/referrals.routes';
 import { resumeRouter } from './api/resume.routes';
+import { matchesRouter } from './api/matches.routes';
+import { matchmakingRouter } from './api/matchmaking.routes';
+import { ratingsRouter } from './api/ratings.routes';
+import { getShutdownDrainMs } from './config/env';
 import { runMigrationsFromSchemaSql } from './db/migrate';
+import { getPgPool } from './db/pg';
 import { startWsGateway } from './ws/gateway';
+import { beginDrain, persistMatchesAndClose } from './ws/wsServer';
 
 const app = express();
 
@@ -50,6 +56,9 @@ app.use('/api/friends', friendsRouter);
 app.use('/api', usersRouter);
 app.use('/api', referralsRouter);
 app.use('/api', resumeRouter);
+app.use('/api', matchesRouter);
+app.use('/api/matchmaking', matchmakingRouter);
+app.use('/api/ratings', ratingsRouter);
 
 // frontend static
 app.use(express.static(frontendDistPath));
@@ -64,12 +73,40 @@ app.get('*', (req, res, next) => {
   res.sendFile(frontendIndexPath);
 });
 
+/**
+ * Deploys send SIGTERM. Clients get a deadline, matches keep running until
+ * it passes, then they are persisted for another node and the process exits.
+ */
+async function shutdown(server: http.Server, signal: string): Promise<void> {
+  const drainMs = getShutdownDrainMs();
+  // eslint-disable-next-line no-console
+  console.log('Shutdown requested', { signal, drainMs });
+
+  beginDrain(Date.now() + drainMs);
+  await new Promise((resolve) => setTimeout(resolve, drainMs));
+  await persistMatchesAndClose();
+
+  server.close();
+  await getPgPool().end();
+}
+
 async function main(): Promise<void> {
   await runMigrationsFromSchemaSql();
 
   const server = http.createServer(app);
   const wsServer = startWsGateway(server);
 
+  process.once('SIGTERM', () => {
+    void shutdown(server, 'SIGTERM').then(
+      () => process.exit(0),
+      (error) => {
+        // eslint-disable-next-line no-console
+        console.error('Graceful shutdown failed', error);
+        process.exit(1);
+      },
+    );
+  });
+
   server.listen(port, () => {
     // eslint-disable-next-line no-console
     console.log('Boot summary', {
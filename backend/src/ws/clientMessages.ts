@@ -0,0 +1,201 @@
+import type { RawData } from 'ws';
+
+import type { ClientHello, InboundRejectCode, MatchClientMessage, MatchmakingClientMessage, MatchmakingMode } from '../mp/protocol';
+import { decodeClientFrame } from './wireCodec';
+
+export type RoomJoinMessage = {
+  type: 'room:join';
+  roomId: string;
+  tgUserId?: string;
+};
+
+// Friends of members and eliminated players need neither; anyone else proves access with one.
+export type RoomSpectateMessage = {
+  type: 'room:spectate';
+  roomId: string;
+  tgUserId?: string;
+  password?: string;
+  inviteId?: string;
+};
+
+export type PingMessage = { type: 'ping'; id: number; t: number };
+
+export type RoomLeaveMessage = { type: 'room:leave' };
+
+export type ClientMessage =
+  | ClientHello
+  | MatchClientMessage
+  | MatchmakingClientMessage
+  | RoomJoinMessage
+  | RoomSpectateMessage
+  | RoomLeaveMessage
+  | PingMessage;
+
+export type ParsedClientFrame =
+  | { ok: true; msg: ClientMessage }
+  | { ok: false; code: InboundRejectCode; msgType?: string; field?: string };
+
+// Largest legit frame is a hello; anything near this is junk.
+export const MAX_INBOUND_FRAME_BYTES = 4096;
+
+const MAX_ID_LENGTH = 64;
+const MAX_COORD = 1024;
+
+/**
+ * Checks a decoded value and returns the path of the first field that doesn't
+ * fit (`''` for the value itself), or null when it is valid. `T` ties each
+ * validator to the protocol type it accepts, so a shape that drifts from
+ * `shared/src/protocol.ts` stops compiling.
+ */
+type Validator<T> = ((value: unknown, path: string) => string | null) & { readonly __type?: T };
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+function check<T>(test: (value: unknown) => boolean): Validator<T> {
+  return (value, path) => (test(value) ? null : path);
+}
+
+const str = (maxLength = MAX_ID_LENGTH): Validator<string> =>
+  check((value) => typeof value === 'string' && value.length > 0 && value.length <= maxLength);
+
+const int = (min: number, max: number): Validator<number> =>
+  check((value) => Number.isSafeInteger(value) && (value as number) >= min && (value as number) <= max);
+
+const finite: Validator<number> = check((value) => typeof value === 'number' && Number.isFinite(value));
+
+function oneOf<T extends string | null>(...values: T[]): Validator<T> {
+  return check((value) => values.includes(value as T));
+}
+
+function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined ? null : validator(value, path));
+}
+
+function list<T>(item: Validator<T>, maxLength: number): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value) || value.length > maxLength) return path;
+    for (let i = 0; i < value.length; i += 1) {
+      const invalid = item(value[i], `${path}[${i}]`);
+      if (invalid !== null) return invalid;
+    }
+    return null;
+  };
+}
+
+function fieldPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// Unknown fields are rejected too: they mean the sender speaks a different shape.
+function object<T>(shape: Shape<T>, skipKey?: string): Validator<T> {
+  const validators = shape as Record<string, Validator<unknown>>;
+  return (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return path;
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+      if (key !== skipKey && !(key in validators)) return fieldPath(path, key);
+    }
+    for (const [key, validator] of Object.entries(validators)) {
+      const invalid = validator(record[key], fieldPath(path, key));
+      if (invalid !== null) return invalid;
+    }
+    return null;
+  };
+}
+
+// One shape per value of the discriminant field, e.g. `type` or `kind`.
+function variants<T extends Record<D, string>, D extends keyof T & string>(
+  discriminant: D,
+  shapes: { [V in T[D]]: Shape<Omit<Extract<T, Record<D, V>>, D>> },
+): Validator<T> {
+  const byValue = new Map<string, Validator<unknown>>(
+    Object.entries(shapes).map(([value, shape]) => [value, object(shape as Shape<unknown>, discriminant)]),
+  );
+  return (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return path;
+    const validator = byValue.get((value as Record<string, unknown>)[discriminant] as string);
+    return validator ? validator(value, path) : fieldPath(path, discriminant);
+  };
+}
+
+const moveDir = oneOf('up', 'down', 'left', 'right');
+const cell = { x: int(0, MAX_COORD), y: int(0, MAX_COORD) };
+const matchmakingMode: Validator<MatchmakingMode> = check((value) => value === 2 || value === 3 || value === 4);
+
+const CLIENT_MESSAGE_SHAPES: { [V in ClientMessage['type']]: Shape<Omit<Extract<ClientMessage, { type: V }>, 'type'>> } = {
+  hello: { protocolVersions: list(str(32), 16), buildId: str() },
+  ping: { id: finite, t: finite },
+  'room:join': { roomId: str(), tgUserId: optional(str()) },
+  'room:spectate': { roomId: str(), tgUserId: optional(str()), password: optional(str()), inviteId: optional(str()) },
+  'room:leave': {},
+  'match:start': {},
+  'match:input': {
+    seq: int(1, Number.MAX_SAFE_INTEGER),
+    payload: variants<Extract<MatchClientMessage, { type: 'match:input' }>['payload'], 'kind'>('kind', {
+      move: { dir: (value, path) => (value === null ? null : moveDir(value, path)) },
+      bomb_place: cell,
+      detonate: {},
+    }),
+  },
+  // Where the client drew the player and the snapshot tick it had applied; see lag compensation in wsServer.
+  'match:bomb_place': { seq: optional(int(1, Number.MAX_SAFE_INTEGER)), payload: object({ x: finite, y: finite, tick: optional(int(0, Number.MAX_SAFE_INTEGER)) }) },
+  'mp:presence_heartbeat': {},
+  'mp:rejoin_ready': { roomCode: str(), matchId: str(), rejoinAttemptId: str(), lastEventId: optional(str(128)) },
+  'mp:snapshot_applied': { matchId: str(), rejoinAttemptId: optional(str()), tick: optional(int(0, Number.MAX_SAFE_INTEGER)) },
+  'mp:snapshot_resync': { matchId: str(), reason: oneOf('missing_base', 'world_hash_mismatch') },
+  'room:restart_propose': {},
+  'room:restart_vote': { vote: oneOf('yes', 'no') },
+  'mm:enqueue': { mode: matchmakingMode },
+  'mm:cancel': {},
+  'mm:accept': { proposalId: str() },
+  'mm:decline': { proposalId: str() },
+};
+
+const validateClientMessage = variants<ClientMessage, 'type'>('type', CLIENT_MESSAGE_SHAPES);
+
+export function isClientMessage(value: unknown): value is ClientMessage {
+  return validateClientMessage(value, '') === null;
+}
+
+function frameSize(raw: RawData): number {
+  if (Array.isArray(raw)) return raw.reduce((total, chunk) => total + chunk.length, 0);
+  return raw.byteLength;
+}
+
+/**
+ * Decodes and validates one inbound frame, JSON or negotiated binary. Anything
+ * that comes back `ok` matches its `ClientMessage` variant exactly.
+ */
+export function parseClientFrame(raw: RawData, isBinary: boolean): ParsedClientFrame {
+  if (frameSize(raw) > MAX_INBOUND_FRAME_BYTES) {
+    return { ok: false, code: 'frame_too_large' };
+  }
+
+  let value: unknown;
+  if (isBinary) {
+    const data = Array.isArray(raw) ? Buffer.concat(raw) : raw instanceof ArrayBuffer ? new Uint8Array(raw) : raw;
+    value = decodeClientFrame(data);
+  } else {
+    try {
+      value = JSON.parse(String(raw));
+    } catch {
+      value = null;
+    }
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, code: 'malformed_frame' };
+  }
+
+  const msgType = (value as { type?: unknown }).type;
+  if (typeof msgType !== 'string' || !Object.prototype.hasOwnProperty.call(CLIENT_MESSAGE_SHAPES, msgType)) {
+    return { ok: false, code: 'unknown_type', msgType: typeof msgType === 'string' ? msgType.slice(0, MAX_ID_LENGTH) : undefined };
+  }
+
+  const invalidField = validateClientMessage(value, '');
+  if (invalidField !== null) {
+    return { ok: false, code: 'invalid_field', msgType, field: invalidField };
+  }
+
+  return { ok: true, msg: value as ClientMessage };
+}
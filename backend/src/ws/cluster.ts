@@ -0,0 +1,201 @@
+import type { PoolClient } from 'pg';
+
+import { getNodeId, getNodeWsUrl } from '../config/env';
+import { getPgPool, pgQuery } from '../db/pg';
+import {
+  claimRoomNode,
+  getRoomNode,
+  heartbeatWsNode,
+  listConfirmedFriendsV2,
+  listOnlineUserIds,
+  releaseRoomNode,
+  removeWsNode,
+  setUserPresence,
+} from '../db/repos';
+import type { UserNotice } from '../mp/protocol';
+
+/**
+ * Several backend nodes share one Postgres. Each room's match runs on the node
+ * recorded in `room_nodes`; joins that land elsewhere are redirected there.
+ * Per-user notices travel over LISTEN/NOTIFY so they reach the node holding
+ * the user's socket.
+ */
+
+// `draining`: this node is shutting down and the room has no other home yet.
+// `unclaimed`: the claim kept losing races, so no node is known to hold the room.
+export type RoomRoute =
+  | { kind: 'local' }
+  | { kind: 'remote'; nodeId: string; wsUrl: string | null }
+  | { kind: 'draining' }
+  | { kind: 'unclaimed' };
+
+type NoticeEnvelope = { fromNodeId: string; tgUserIds: string[]; notice: UserNotice };
+
+type LocalDelivery = (tgUserIds: string[], notice: UserNotice) => void;
+
+const CLUSTER_CHANNEL = 'rr_cluster';
+const NODE_HEARTBEAT_MS = 10_000;
+// Three missed heartbeats and the node's rooms go to whoever asks next.
+const NODE_STALE_MS = NODE_HEARTBEAT_MS * 3;
+const BUS_RECONNECT_MS = 5_000;
+// NOTIFY payloads are capped at 8000 bytes; a friend list fanout is split to stay under it.
+const MAX_RECIPIENTS_PER_NOTIFY = 100;
+
+const nodeId = getNodeId();
+let deliverLocal: LocalDelivery | null = null;
+let draining = false;
+let left = false;
+
+function logClusterEvent(evt: string, payload: Record<string, unknown>): void {
+  console.log(JSON.stringify({ evt, nodeId, ...payload, ts: Date.now() }));
+}
+
+export function getClusterNodeId(): string {
+  return nodeId;
+}
+
+export function startCluster(deliver: LocalDelivery): void {
+  deliverLocal = deliver;
+  void heartbeat();
+  setInterval(() => {
+    void heartbeat();
+  }, NODE_HEARTBEAT_MS).unref();
+  void listen();
+}
+
+async function heartbeat(): Promise<void> {
+  if (left) return;
+  try {
+    await heartbeatWsNode({ nodeId, wsUrl: getNodeWsUrl(), nowMs: Date.now() });
+  } catch (error: unknown) {
+    logClusterEvent('cluster_heartbeat_failed', { error: String(error) });
+  }
+}
+
+async function listen(): Promise<void> {
+  let client: PoolClient | null = null;
+  try {
+    client = await getPgPool().connect();
+    client.on('notification', (notification) => {
+      if (notification.channel === CLUSTER_CHANNEL && notification.payload) {
+        receive(notification.payload);
+      }
+    });
+    client.on('error', (error: Error) => dropBusClient(client, error));
+    await client.query(`LISTEN ${CLUSTER_CHANNEL}`);
+    logClusterEvent('cluster_bus_listening', {});
+  } catch (error: unknown) {
+    dropBusClient(client, error);
+  }
+}
+
+function dropBusClient(client: PoolClient | null, error: unknown): void {
+  if (client) {
+    client.removeAllListeners('notification');
+    client.removeAllListeners('error');
+    client.on('error', () => undefined);
+    client.release(true);
+  }
+  logClusterEvent('cluster_bus_lost', { error: String(error), retryInMs: BUS_RECONNECT_MS });
+  setTimeout(() => {
+    void listen();
+  }, BUS_RECONNECT_MS).unref();
+}
+
+function receive(payload: string): void {
+  let envelope: NoticeEnvelope;
+  try {
+    envelope = JSON.parse(payload) as NoticeEnvelope;
+  } catch {
+    return;
+  }
+
+  // Our own notices were already delivered before publishing.
+  if (envelope.fromNodeId === nodeId || !Array.isArray(envelope.tgUserIds) || !envelope.notice) return;
+  deliverLocal?.(envelope.tgUserIds, envelope.notice);
+}
+
+/**
+ * Delivers to the users' sockets on this node right away and publishes for
+ * the other nodes. Users with no socket anywhere simply miss it; everything
+ * sent here can be re-read over REST.
+ */
+export async function notifyUsers(tgUserIds: string[], notice: UserNotice): Promise<void> {
+  if (tgUserIds.length === 0) return;
+
+  deliverLocal?.(tgUserIds, notice);
+
+  for (let start = 0; start < tgUserIds.length; start += MAX_RECIPIENTS_PER_NOTIFY) {
+    const envelope: NoticeEnvelope = { fromNodeId: nodeId, tgUserIds: tgUserIds.slice(start, start + MAX_RECIPIENTS_PER_NOTIFY), notice };
+    await pgQuery('SELECT pg_notify($1, $2)', [CLUSTER_CHANNEL, JSON.stringify(envelope)]);
+  }
+}
+
+/**
+ * Records whether this node holds a socket for the user and tells their
+ * friends. Going offline here is not announced while another node still
+ * holds one.
+ */
+export async function updatePresence(tgUserId: string, online: boolean): Promise<void> {
+  const nowMs = Date.now();
+  await setUserPresence({ tgUserId, nodeId, online, nowMs });
+
+  if (!online) {
+    const stillOnline = await listOnlineUserIds([tgUserId], nowMs - NODE_STALE_MS);
+    if (stillOnline.has(tgUserId)) return;
+  }
+
+  const friends = await listConfirmedFriendsV2(tgUserId);
+  await notifyUsers(friends.map((friend) => friend.userId), { type: 'friend:presence', tgUserId, online });
+}
+
+export async function listOnlineFriendIds(friendIds: string[]): Promise<Set<string>> {
+  return listOnlineUserIds(friendIds, Date.now() - NODE_STALE_MS);
+}
+
+/**
+ * Claims the room for this node unless a live node already holds it. A node
+ * that stopped heartbeating loses its rooms to the next claim.
+ */
+export async function routeRoom(roomCode: string): Promise<RoomRoute> {
+  if (draining) {
+    const holder = await getRoomNode(roomCode);
+    if (!holder) return { kind: 'draining' };
+    return holder.nodeId === nodeId ? { kind: 'local' } : { kind: 'remote', nodeId: holder.nodeId, wsUrl: holder.wsUrl };
+  }
+
+  // The holder can release between the claim and the lookup; one retry covers that.
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    const nowMs = Date.now();
+    const holder = await claimRoomNode({ roomCode, nodeId, nowMs, staleBeforeMs: nowMs - NODE_STALE_MS });
+    if (!holder) continue;
+    if (holder.nodeId === nodeId) return { kind: 'local' };
+    return { kind: 'remote', nodeId: holder.nodeId, wsUrl: holder.wsUrl };
+  }
+
+  // Hosting without the claim could put the room on two nodes; the caller retries instead.
+  logClusterEvent('cluster_room_claim_contended', { roomCode });
+  return { kind: 'unclaimed' };
+}
+
+export function releaseRoom(roomCode: string): void {
+  void releaseRoomNode(roomCode, nodeId).catch((error: unknown) => {
+    logClusterEvent('cluster_room_release_failed', { roomCode, error: String(error) });
+  });
+}
+
+export function isNodeDraining(): boolean {
+  return draining;
+}
+
+// Rooms this node already runs keep going; new ones are refused until it exits.
+export function beginNodeDrain(): void {
+  draining = true;
+  logClusterEvent('cluster_node_draining', {});
+}
+
+export async function leaveCluster(): Promise<void> {
+  left = true;
+  await removeWsNode(nodeId);
+  logClusterEvent('cluster_node_left', {});
+}
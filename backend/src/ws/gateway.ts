@@ -1,10 +1,27 @@
 import type { Server as HttpServer } from 'http';
 import { WebSocketServer } from 'ws';
 
+import { MAX_INBOUND_FRAME_BYTES } from './clientMessages';
+import { authenticateUpgrade } from './wsAuth';
 import { registerWsHandlers } from './wsServer';
 
 export const startWsGateway = (server: HttpServer): WebSocketServer => {
-  const wss = new WebSocketServer({ server, path: '/ws' });
+  const wss = new WebSocketServer({
+    server,
+    path: '/ws',
+    // ws closes the socket (1009) past this; smaller oversized frames get `frame_too_large`.
+    maxPayload: MAX_INBOUND_FRAME_BYTES * 16,
+    // Unauthenticated upgrades are refused before a socket exists.
+    verifyClient: (info, done) => {
+      authenticateUpgrade(info.req).then(
+        (identity) => (identity ? done(true) : done(false, 401, 'Unauthorized')),
+        (error: unknown) => {
+          console.error('WS auth failed:', error);
+          done(false, 503, 'Auth unavailable');
+        },
+      );
+    },
+  });
 
   registerWsHandlers(wss);
 
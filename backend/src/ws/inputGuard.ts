@@ -0,0 +1,99 @@
+import { MAX_BOMB_REWIND_TICKS, MOVE_DURATION_TICKS } from '../mp/match';
+
+export type RateLimit = { perSec: number; burst: number };
+
+export type TokenBucket = { tokens: number; updatedAtMs: number };
+
+export type InputIncidentKind = 'input_flood' | 'bomb_flood' | 'move_rate' | 'bomb_far';
+
+/**
+ * Per-connection abuse tracking. Every incident is a strike; a connection
+ * that keeps producing them is kicked instead of feeding the tick loop.
+ */
+export type InputGuardState = {
+  inputBucket: TokenBucket;
+  bombBucket: TokenBucket;
+  recentMoveTicks: number[];
+  lastIncidentAtMs: Partial<Record<InputIncidentKind, number>>;
+  strikes: number;
+};
+
+// A client sends a move on every direction change plus bombs and detonates; 30/s is far above play.
+export const MATCH_INPUT_RATE_LIMIT: RateLimit = { perSec: 30, burst: 20 };
+export const BOMB_PLACE_RATE_LIMIT: RateLimit = { perSec: 5, burst: 5 };
+// One move can start per MOVE_DURATION_TICKS; twice that many direction changes in the window is a script.
+export const MAX_MOVES_PER_MOVE_WINDOW = MOVE_DURATION_TICKS * 2;
+// Clients report a rendered, interpolated position; more than this off the server cell is not lag.
+export const BOMB_PLACE_MAX_DRIFT_CELLS = 2;
+// Slack over the measured ack round trip before a claimed bomb tick counts as too old.
+export const BOMB_REWIND_JITTER_TICKS = 2;
+// Flood incidents repeat while the flood lasts; count one per kind per second.
+export const INCIDENT_COOLDOWN_MS = 1000;
+export const MAX_STRIKES = 5;
+
+export function createInputGuardState(nowMs: number): InputGuardState {
+  return {
+    inputBucket: { tokens: MATCH_INPUT_RATE_LIMIT.burst, updatedAtMs: nowMs },
+    bombBucket: { tokens: BOMB_PLACE_RATE_LIMIT.burst, updatedAtMs: nowMs },
+    recentMoveTicks: [],
+    lastIncidentAtMs: {},
+    strikes: 0,
+  };
+}
+
+export function takeToken(bucket: TokenBucket, limit: RateLimit, nowMs: number): boolean {
+  const elapsedSec = Math.max(0, nowMs - bucket.updatedAtMs) / 1000;
+  bucket.tokens = Math.min(limit.burst, bucket.tokens + elapsedSec * limit.perSec);
+  bucket.updatedAtMs = nowMs;
+  if (bucket.tokens < 1) return false;
+  bucket.tokens -= 1;
+  return true;
+}
+
+// Records the move and reports whether it exceeds what movement can use.
+export function noteMoveInput(state: InputGuardState, tick: number): boolean {
+  state.recentMoveTicks = state.recentMoveTicks.filter((moveTick) => tick - moveTick < MOVE_DURATION_TICKS);
+  if (state.recentMoveTicks.length >= MAX_MOVES_PER_MOVE_WINDOW) return true;
+  state.recentMoveTicks.push(tick);
+  return false;
+}
+
+export function isBombPlacementFar(claimed: { x: number; y: number }, actual: { x: number; y: number }): boolean {
+  return Math.abs(claimed.x - actual.x) + Math.abs(claimed.y - actual.y) > BOMB_PLACE_MAX_DRIFT_CELLS;
+}
+
+/**
+ * The past tick a bomb_place may be checked against, or null for the current
+ * cell only. The client names the snapshot tick it drew from, but it cannot
+ * have drawn from one older than a tick it already acked, nor trail the
+ * server by more than its acks do (plus jitter), nor beyond the rewind window.
+ */
+export function resolveBombRewindTick(params: {
+  serverTick: number;
+  clientTick?: number;
+  ackedTick: number | null;
+  ackLagTicks: number | null;
+}): number | null {
+  const { serverTick, clientTick, ackedTick, ackLagTicks } = params;
+  if (clientTick === undefined || ackedTick === null || ackLagTicks === null) return null;
+
+  const oldestTick = Math.max(ackedTick, serverTick - Math.min(MAX_BOMB_REWIND_TICKS, ackLagTicks + BOMB_REWIND_JITTER_TICKS));
+  const rewindTick = Math.min(serverTick, Math.max(clientTick, oldestTick));
+  return rewindTick < serverTick ? rewindTick : null;
+}
+
+/**
+ * Counts a strike unless the same kind struck within the cooldown. Returns
+ * whether this one was counted, so callers record each counted incident once.
+ */
+export function strike(state: InputGuardState, kind: InputIncidentKind, nowMs: number): boolean {
+  const lastAtMs = state.lastIncidentAtMs[kind];
+  if (lastAtMs !== undefined && nowMs - lastAtMs < INCIDENT_COOLDOWN_MS) return false;
+  state.lastIncidentAtMs[kind] = nowMs;
+  state.strikes += 1;
+  return true;
+}
+
+export function shouldKick(state: InputGuardState): boolean {
+  return state.strikes >= MAX_STRIKES;
+}
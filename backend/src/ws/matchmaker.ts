@@ -0,0 +1,185 @@
+import {
+  acceptMatchmakingProposalTx,
+  createRoomTx,
+  deleteMatchmakingTicket,
+  enqueueMatchmakingTicket,
+  getMatchmakingTicket,
+  getPlayerRating,
+  listLapsedMatchmakingProposals,
+  proposeMatchmakingGroupsTx,
+  releaseMatchmakingProposalTx,
+} from '../db/repos';
+import type { MatchmakingProposal, MatchmakingTicketRow } from '../db/repos';
+import { touchLastMpSession } from '../mp/lastSessionStore';
+import type { MatchmakingMode, MatchmakingStatus, MatchmakingStatusReason, UserNotice } from '../mp/protocol';
+import { DEFAULT_RATING } from '../mp/rating';
+import type { RatingMode } from '../mp/rating';
+import { isNodeDraining, notifyUsers } from './cluster';
+import { formMatchGroups } from './matchmaking';
+
+/**
+ * Quick play. The queue lives in Postgres so players on every node are paired
+ * together; any node may form groups, offer them (`mm:matched`) and, once all
+ * accept, create the room the players then join like any other.
+ */
+
+const MATCHMAKER_PASS_MS = 2_000;
+const ACCEPT_WINDOW_MS = 15_000;
+// Quick play is free-for-all only.
+const RATING_MODE: RatingMode = 'ffa';
+
+function logMatchmakingEvent(evt: string, payload: Record<string, unknown>): void {
+  console.log(JSON.stringify({ evt, ...payload, ts: Date.now() }));
+}
+
+function idleStatus(reason?: MatchmakingStatusReason): MatchmakingStatus {
+  return { type: 'mm:status', state: 'idle', mode: null, rating: null, enqueuedAtMs: null, roomCode: null, ...(reason ? { reason } : {}) };
+}
+
+function ticketStatus(ticket: MatchmakingTicketRow, reason?: MatchmakingStatusReason): MatchmakingStatus {
+  return {
+    type: 'mm:status',
+    state: ticket.proposalId ? 'proposed' : 'searching',
+    mode: ticket.mode,
+    rating: ticket.rating,
+    enqueuedAtMs: ticket.enqueuedAtMs,
+    roomCode: null,
+    ...(reason ? { reason } : {}),
+  };
+}
+
+// Every socket the players hold, on any node; a lost notice is recovered by GET /api/matchmaking.
+function notify(tgUserIds: string[], notice: UserNotice): void {
+  void notifyUsers(tgUserIds, notice).catch((error: unknown) => {
+    logMatchmakingEvent('mm_notice_failed', { type: notice.type, error: String(error) });
+  });
+}
+
+export async function getMatchmakingStatus(tgUserId: string): Promise<MatchmakingStatus> {
+  const ticket = await getMatchmakingTicket(tgUserId);
+  return ticket ? ticketStatus(ticket) : idleStatus();
+}
+
+export async function enqueueForMatch(tgUserId: string, mode: MatchmakingMode): Promise<MatchmakingStatus> {
+  const rating = (await getPlayerRating(tgUserId, RATING_MODE)) ?? DEFAULT_RATING;
+  const ticket = await enqueueMatchmakingTicket({ tgUserId, mode, rating, nowMs: Date.now() });
+  const status = ticket ? ticketStatus(ticket) : idleStatus();
+  notify([tgUserId], status);
+  logMatchmakingEvent('mm_enqueued', { tgUserId, mode: ticket?.mode ?? mode, rating });
+  return status;
+}
+
+// Leaving while a match is on offer counts as declining it.
+export async function leaveMatchmaking(tgUserId: string, reason?: MatchmakingStatusReason): Promise<MatchmakingStatus> {
+  const ticket = await getMatchmakingTicket(tgUserId);
+  if (ticket?.proposalId) {
+    await releaseProposal(ticket.proposalId, [tgUserId], reason ?? 'declined');
+  } else if (ticket) {
+    await deleteMatchmakingTicket(tgUserId);
+    notify([tgUserId], idleStatus(reason));
+  }
+
+  if (ticket) {
+    logMatchmakingEvent('mm_left', { tgUserId, mode: ticket.mode, reason: reason ?? 'cancelled', waitedMs: Date.now() - ticket.enqueuedAtMs });
+  }
+  return idleStatus(reason);
+}
+
+export async function respondToMatch(tgUserId: string, proposalId: string, accept: boolean): Promise<void> {
+  if (!accept) {
+    const ticket = await getMatchmakingTicket(tgUserId);
+    if (ticket?.proposalId === proposalId) {
+      await releaseProposal(proposalId, [tgUserId], 'declined');
+    }
+    return;
+  }
+
+  const result = await acceptMatchmakingProposalTx({ tgUserId, proposalId });
+  if (!result) {
+    // The offer lapsed or someone declined first; tell the client where it stands now.
+    notify([tgUserId], await getMatchmakingStatus(tgUserId));
+    return;
+  }
+
+  if (result.complete) {
+    await createMatchRoom(proposalId, result.tickets);
+  }
+}
+
+async function releaseProposal(proposalId: string, dropTgUserIds: string[], dropReason: MatchmakingStatusReason): Promise<void> {
+  const { dropped, requeued } = await releaseMatchmakingProposalTx({ proposalId, dropTgUserIds });
+  if (dropped.length > 0) {
+    notify(dropped, idleStatus(dropReason));
+  }
+  for (const ticket of requeued) {
+    notify([ticket.tgUserId], ticketStatus(ticket, 'peer_declined'));
+  }
+
+  logMatchmakingEvent('mm_proposal_released', { proposalId, dropped, requeued: requeued.map((ticket) => ticket.tgUserId), reason: dropReason });
+}
+
+async function createMatchRoom(proposalId: string, tickets: MatchmakingTicketRow[]): Promise<void> {
+  const [owner, ...others] = [...tickets].sort((a, b) => a.enqueuedAtMs - b.enqueuedAtMs);
+  const tgUserIds = tickets.map((ticket) => ticket.tgUserId);
+
+  let roomCode: string;
+  try {
+    ({ roomCode } = await createRoomTx(owner!.tgUserId, owner!.mode, { matchmadeMemberIds: others.map((ticket) => ticket.tgUserId) }));
+  } catch (error: unknown) {
+    logMatchmakingEvent('mm_room_create_failed', { proposalId, tgUserIds, error: String(error) });
+    notify(tgUserIds, idleStatus());
+    return;
+  }
+
+  for (const tgUserId of tgUserIds) {
+    touchLastMpSession({ tgUserId, roomCode, matchId: null });
+  }
+  for (const ticket of tickets) {
+    notify([ticket.tgUserId], { ...ticketStatus(ticket), state: 'starting', roomCode });
+  }
+
+  logMatchmakingEvent('mm_room_created', {
+    proposalId,
+    roomCode,
+    mode: owner!.mode,
+    players: tickets.map((ticket) => ({ tgUserId: ticket.tgUserId, rating: ticket.rating, waitedMs: Date.now() - ticket.enqueuedAtMs })),
+  });
+}
+
+async function runMatchmakerPass(): Promise<void> {
+  const nowMs = Date.now();
+
+  for (const lapsed of await listLapsedMatchmakingProposals(nowMs - ACCEPT_WINDOW_MS)) {
+    const silent = lapsed.tickets.filter((ticket) => !ticket.accepted).map((ticket) => ticket.tgUserId);
+    await releaseProposal(lapsed.proposalId, silent, 'accept_timeout');
+  }
+
+  const proposals: MatchmakingProposal[] = await proposeMatchmakingGroupsTx({
+    nowMs,
+    formGroups: (tickets) => formMatchGroups(tickets, nowMs),
+  });
+  for (const { proposalId, tickets } of proposals) {
+    notify(tickets.map((ticket) => ticket.tgUserId), {
+      type: 'mm:matched',
+      proposalId,
+      mode: tickets[0]!.mode,
+      players: tickets.map((ticket) => ({ tgUserId: ticket.tgUserId, displayName: ticket.displayName, rating: ticket.rating })),
+      acceptDeadlineMs: nowMs + ACCEPT_WINDOW_MS,
+    });
+    logMatchmakingEvent('mm_proposed', {
+      proposalId,
+      mode: tickets[0]!.mode,
+      ratings: tickets.map((ticket) => ticket.rating),
+      waitedMs: tickets.map((ticket) => nowMs - ticket.enqueuedAtMs),
+    });
+  }
+}
+
+export function startMatchmaker(): void {
+  setInterval(() => {
+    if (isNodeDraining()) return;
+    void runMatchmakerPass().catch((error: unknown) => {
+      logMatchmakingEvent('mm_pass_failed', { error: String(error) });
+    });
+  }, MATCHMAKER_PASS_MS).unref();
+}
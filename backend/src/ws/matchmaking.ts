@@ -0,0 +1,52 @@
+import type { MatchmakingMode } from '../mp/protocol';
+
+export type QueueTicket = {
+  tgUserId: string;
+  mode: MatchmakingMode;
+  rating: number;
+  enqueuedAtMs: number;
+};
+
+const BASE_RATING_WINDOW = 100;
+const RATING_WINDOW_GROWTH_PER_SEC = 15;
+// Reached after a minute; past that anyone in the same mode is fair game.
+const MAX_RATING_WINDOW = 1000;
+
+/** How far from their own rating a player waiting `waitedMs` will accept opponents. */
+export function ratingWindow(waitedMs: number): number {
+  const grown = BASE_RATING_WINDOW + (Math.max(0, waitedMs) / 1000) * RATING_WINDOW_GROWTH_PER_SEC;
+  return Math.min(MAX_RATING_WINDOW, Math.floor(grown));
+}
+
+/**
+ * Groups tickets into full matches. The longest-waiting ticket anchors each
+ * group and takes the closest ratings whose gap both the anchor's window and
+ * the candidate's own window cover. Tickets left over stay queued for the
+ * next pass, by which time their windows have grown.
+ */
+export function formMatchGroups<T extends QueueTicket>(tickets: T[], nowMs: number): T[][] {
+  const groups: T[][] = [];
+  const taken = new Set<string>();
+  const byWait = [...tickets].sort((a, b) => a.enqueuedAtMs - b.enqueuedAtMs || a.tgUserId.localeCompare(b.tgUserId));
+
+  for (const anchor of byWait) {
+    if (taken.has(anchor.tgUserId)) continue;
+
+    const anchorWindow = ratingWindow(nowMs - anchor.enqueuedAtMs);
+    const candidates = byWait
+      .filter((ticket) => ticket.mode === anchor.mode && ticket.tgUserId !== anchor.tgUserId && !taken.has(ticket.tgUserId))
+      .filter((ticket) => {
+        const gap = Math.abs(ticket.rating - anchor.rating);
+        return gap <= Math.min(anchorWindow, ratingWindow(nowMs - ticket.enqueuedAtMs));
+      })
+      .sort((a, b) => Math.abs(a.rating - anchor.rating) - Math.abs(b.rating - anchor.rating) || a.enqueuedAtMs - b.enqueuedAtMs);
+
+    if (candidates.length < anchor.mode - 1) continue;
+
+    const group = [anchor, ...candidates.slice(0, anchor.mode - 1)];
+    for (const ticket of group) taken.add(ticket.tgUserId);
+    groups.push(group);
+  }
+
+  return groups;
+}
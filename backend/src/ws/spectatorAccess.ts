@@ -0,0 +1,20 @@
+/**
+ * Who may watch a room: friends of someone in it, players already knocked
+ * out of its match, and anyone holding its password or an invite to it.
+ * A room code on its own is not enough.
+ */
+
+export type SpectatorAccessGrant = 'friend' | 'eliminated' | 'entry';
+
+// `hasEntry` checks a password or invite and is only called when nothing else grants access.
+export async function resolveSpectatorAccess(params: {
+  viewerTgUserId: string;
+  memberIds: readonly string[];
+  viewerFriendIds: ReadonlySet<string>;
+  eliminatedIds: ReadonlySet<string>;
+  hasEntry: () => Promise<boolean>;
+}): Promise<SpectatorAccessGrant | null> {
+  if (params.eliminatedIds.has(params.viewerTgUserId)) return 'eliminated';
+  if (params.memberIds.some((tgUserId) => params.viewerFriendIds.has(tgUserId))) return 'friend';
+  return (await params.hasEntry()) ? 'entry' : null;
+}
@@ -0,0 +1,50 @@
+import type { IncomingMessage } from 'http';
+
+import { getBearerToken, resolveSessionFromToken } from '../auth/session';
+import { isProduction } from '../config/env';
+
+export type WsIdentity = { tgUserId: string; via: 'session' | 'dev_bypass' };
+
+// Ids minted by `src/utils/devIdentity.ts` (`dev:<client>` or `dev:<uuid>`).
+const DEV_TG_USER_ID_PATTERN = /^dev:[A-Za-z0-9-]{1,64}$/;
+
+const identityByUpgrade = new WeakMap<IncomingMessage, WsIdentity>();
+
+/**
+ * Resolves who is opening the socket. Browsers can't set headers on a
+ * WebSocket, so the session token comes in the `token` query param; an
+ * `Authorization: Bearer` header works too. Outside production a client
+ * without a session may claim a dev identity via `tgUserId`, which lets
+ * several local tabs play against each other without Telegram.
+ */
+export async function resolveWsIdentity(req: Pick<IncomingMessage, 'url' | 'headers'>): Promise<WsIdentity | null> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const token = url.searchParams.get('token') || getBearerToken(req);
+
+  if (token) {
+    const session = await resolveSessionFromToken(token);
+    if (session) {
+      return { tgUserId: session.tgUserId, via: 'session' };
+    }
+  }
+
+  const devTgUserId = url.searchParams.get('tgUserId');
+  if (!isProduction() && devTgUserId && DEV_TG_USER_ID_PATTERN.test(devTgUserId)) {
+    return { tgUserId: devTgUserId, via: 'dev_bypass' };
+  }
+
+  return null;
+}
+
+// Called from the upgrade check; the connection handler picks the identity up by request.
+export async function authenticateUpgrade(req: IncomingMessage): Promise<WsIdentity | null> {
+  const identity = await resolveWsIdentity(req);
+  if (identity) {
+    identityByUpgrade.set(req, identity);
+  }
+  return identity;
+}
+
+export function getUpgradeIdentity(req: IncomingMessage): WsIdentity | null {
+  return identityByUpgrade.get(req) ?? null;
+}
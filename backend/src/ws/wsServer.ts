@@ -1,23 +1,100 @@
 import { randomUUID } from 'crypto';
 import { WebSocket } from 'ws';
-import type { RawData, Server as WebSocketServer } from 'ws';
-
-import type { MatchClientMessage, MatchServerMessage } from '../mp/protocol';
-import type { MatchState } from '../mp/types';
+import type { Server as WebSocketServer } from 'ws';
+
+import type {
+  ClientHello,
+  InboundRejectCode,
+  MatchEnd,
+  MatchServerMessage,
+  MatchSnapshot,
+  ProtocolVersion,
+  RoomRedirect,
+  ServerDraining,
+  ServerHello,
+  UserNotice,
+  WireFormat,
+} from '../mp/protocol';
+import type { MatchSetup, MatchState } from '../mp/types';
+import type { MatchEvent } from '../mp/match';
 import {
+  buildMatchSnapshot,
   getBombPlacementRejectReason,
+  getDetonateRejectReason,
+  getPlayerMatchStats,
   isPlayerRejoinable,
   markPlayerDisconnected,
   markPlayerReconnected,
+  REJOIN_GRACE_MS,
   startMatch,
+  stopMatch,
   tryPlaceBomb,
 } from '../mp/match';
-import { createMatch, endMatch, getMatch, getMatchByRoom } from '../mp/matchManager';
-import { touchLastMpSession } from '../mp/lastSessionStore';
+import {
+  createMatch,
+  endMatch,
+  getMatch,
+  getMatchByRoom,
+  hashWorldTiles,
+  listLiveMatches,
+  registerMatch,
+} from '../mp/matchManager';
+import { restoreMatchState, serializeMatchState } from '../mp/matchPersistence';
+import type { PersistedMatch } from '../mp/matchPersistence';
+import { resolveMatchRuleset } from '../mp/ruleset';
+import { DEFAULT_DEVIATION, DEFAULT_RATING, placementsFromEnd, rateMatch, ratingModeOf } from '../mp/rating';
+import { diffMatchSnapshots } from '../mp/snapshotDelta';
+import { clearLastMpSession, touchLastMpSession } from '../mp/lastSessionStore';
+import { getBuildId, getSpectatorDelayMs } from '../config/env';
+import { beginReplayRecording, finishReplayRecording, recordReplayInput, recordReplayPresence } from '../mp/replayStore';
 
 // ✅ add DB cleanup
-import { closeRoomTx, getRoomByCode, leaveRoomV2, removeRoomCascade, setRoomPhase } from '../db/repos';
+import {
+  closeRoomTx,
+  getRoomByCode,
+  hasRoomEntry,
+  insertMatchIncident,
+  leaveRoomV2,
+  listConfirmedFriendsV2,
+  listOwnedSkus,
+  listRoomMembers,
+  recordMatchResultTx,
+  removeRoomCascade,
+  saveMatchReplay,
+  savePersistedMatch,
+  setRoomPhase,
+  submitTeamLeaderboardScore,
+  takePersistedMatches,
+} from '../db/repos';
 import { RoomRegistry } from './roomRegistry';
+import {
+  beginNodeDrain,
+  getClusterNodeId,
+  isNodeDraining,
+  leaveCluster,
+  releaseRoom,
+  routeRoom,
+  startCluster,
+  updatePresence,
+} from './cluster';
+import { enqueueForMatch, leaveMatchmaking, respondToMatch, startMatchmaker } from './matchmaker';
+import { parseClientFrame } from './clientMessages';
+import { resolveSpectatorAccess } from './spectatorAccess';
+import type { ClientMessage } from './clientMessages';
+import {
+  BOMB_PLACE_RATE_LIMIT,
+  MATCH_INPUT_RATE_LIMIT,
+  createInputGuardState,
+  isBombPlacementFar,
+  noteMoveInput,
+  resolveBombRewindTick,
+  shouldKick,
+  strike,
+  takeToken,
+} from './inputGuard';
+import type { InputGuardState, InputIncidentKind } from './inputGuard';
+import { BINARY_WIRE_FORMAT, encodeServerFrame } from './wireCodec';
+import { getUpgradeIdentity } from './wsAuth';
 
 type ClientCtx = {
   connectionId: string;
@@ -25,9 +102,20 @@ type ClientCtx = {
   tgUserId: string;
   roomId: string | null; // (roomCode)
   matchId: string | null;
+  spectatingRoomId: string | null; // read-only viewer of this room (never in room.players)
   lastSeenMs: number; // ✅ for idle timeout
+  snapshotAck: SnapshotAckState | null;
+  ackLagTicks: number | null; // how far the server had moved on when the newest snapshot ack arrived
+  protocolVersion: ProtocolVersion | null; // set by a `hello` with a shared version
+  outdatedNotified: boolean;
+  inboundRejects: Partial<Record<InboundRejectCode, number>>;
+  inputGuard: InputGuardState;
 };
 
+// Baseline for delta snapshots: the newest tick the client reported applying.
+// Acks at or below `minTick` predate a full resend and are ignored.
+type SnapshotAckState = { matchId: string; ackedTick: number | null; minTick: number };
+
 type RoomState = {
   roomId: string;
   players: Map<string, WebSocket>;
@@ -55,21 +143,13 @@ type RestartVoteState = {
   timeoutId: NodeJS.Timeout;
 };
 
-type RoomJoinMessage = {
-  type: 'room:join';
-  roomId: string;
-  tgUserId?: string;
-};
-
-type PingMessage = { type: 'ping'; id: number; t: number };
-
-type RoomLeaveMessage = { type: 'room:leave' };
-
-type ClientMessage = MatchClientMessage | RoomJoinMessage | RoomLeaveMessage | PingMessage;
-
 type ServerMessage =
   | MatchServerMessage
-  | { type: 'connected' }
+  | ServerHello
+  | RoomRedirect
+  | ServerDraining
+  | UserNotice
+  | { type: 'connected'; wire: WireFormat }
   | { type: 'pong'; id: number; t: number; serverNow: number };
 
 const rooms = new Map<string, RoomState>();
@@ -77,12 +157,42 @@ const clients = new Set<ClientCtx>();
 const restartVotes = new Map<string, RestartVoteState>();
 const roomRegistry = new RoomRegistry();
 const pendingRejoinHandshakes = new Map<string, PendingRejoinHandshake>(); // key: connectionId
+const spectatorsByRoom = new Map<string, Set<ClientCtx>>();
+const snapshotHistoryByMatch = new WeakMap<MatchState, Map<number, MatchSnapshot>>();
+const eventBacklogByMatch = new WeakMap<MatchState, MatchEvent[]>();
+const binaryWireSockets = new WeakSet<WebSocket>();
 
 const STALE_CONNECTION_MS = 60_000;
 const INACTIVE_ROOM_MS = 90_000;
 const PRESENCE_HEARTBEAT_LOG_COOLDOWN_MS = 30_000;
+const MAX_SPECTATORS_PER_ROOM = 16;
+const TEAM_LEADERBOARD_MODES: Record<number, 'duo' | 'trio' | 'squad'> = { 2: 'duo', 3: 'trio', 4: 'squad' };
+const TEAM_WIN_BASE_SCORE = 1000;
+const TEAM_WIN_SCORE_PER_LIFE = 250;
+const TEAM_WIN_SCORE_PER_KILL = 100;
+const REMOTE_DETONATE_SKU = 'boost.remote_detonate';
+const SUPPORTED_PROTOCOL_VERSIONS: ProtocolVersion[] = ['match_v1']; // preferred first
+const MAX_QUEUED_INPUTS = 256; // per match between ticks; rate limits keep honest rooms far below
+const MATCH_EVENT_BACKLOG_SIZE = 512; // a busy 4-player match fires well under this in 30s
+const SNAPSHOT_HISTORY_TICKS = 40; // 2s at 20 Hz; older acks get a full snapshot
+const PERSISTED_MATCH_SWEEP_MS = 5_000; // how soon a live node adopts matches a draining node wrote
+const MATCHMADE_JOIN_GRACE_MS = 20_000; // matched players not in the room by then are left out
+const SPECTATOR_READ_ONLY_TYPES = new Set<string>([
+  'match:start',
+  'match:input',
+  'match:bomb_place',
+  'mp:rejoin_ready',
+  'mp:snapshot_applied',
+  'mp:snapshot_resync',
+  'room:restart_propose',
+  'room:restart_vote',
+]);
 
 const lastPresenceHeartbeatLogByUser = new Map<string, number>();
+let drainDeadlineMs: number | null = null;
+let closingForShutdown = false;
+const matchmadeStartTimers = new Map<string, NodeJS.Timeout>();
+const matchmadeRoomsStarting = new Set<string>();
 
 
 function roomHasRejoinablePlayer(roomId: string, nowMs = Date.now()): boolean {
@@ -126,9 +236,15 @@ async function finalizeAndDeleteRoom(roomId: string) {
     socketsToTerminate.add(client.socket);
   }
 
+  for (const spectator of spectatorsByRoom.get(roomId) ?? []) {
+    spectator.spectatingRoomId = null;
+  }
+  spectatorsByRoom.delete(roomId);
+
   rooms.delete(roomId);
   clearRestartVote(roomId);
   roomRegistry.removeRoom(roomId);
+  releaseRoom(roomId);
 
   try {
     await setRoomPhase(roomId, 'FINISHED');
@@ -148,6 +264,10 @@ async function finalizeAndDeleteRoom(roomId: string) {
 }
 
 setInterval(() => {
+  if (closingForShutdown) {
+    return;
+  }
+
   const now = Date.now();
   const sweep = roomRegistry.sweep({
     nowMs: now,
@@ -184,7 +304,59 @@ function send(socket: WebSocket, msg: ServerMessage) {
     return;
   }
 
-  socket.send(JSON.stringify(msg));
+  const frame = binaryWireSockets.has(socket) ? encodeServerFrame(msg) : null;
+  socket.send(frame ?? JSON.stringify(msg));
+}
+
+function deliverUserNotice(tgUserIds: string[], notice: UserNotice): void {
+  const recipients = new Set(tgUserIds);
+  for (const client of clients) {
+    if (recipients.has(client.tgUserId)) {
+      send(client.socket, notice);
+    }
+  }
+}
+
+function announcePresence(tgUserId: string, online: boolean): void {
+  void updatePresence(tgUserId, online).catch((error: unknown) => {
+    logWsEvent('ws_presence_update_failed', { tgUserId, online, error: String(error) });
+  });
+}
+
+// Each room's match runs on one node; a join that lands on another is sent there.
+async function redirectIfRoomElsewhere(ctx: ClientCtx, roomId: string): Promise<boolean> {
+  const route = await routeRoom(roomId);
+  if (route.kind === 'local') {
+    // A player can get back before the sweep adopts the match their old node left behind.
+    if (!getMatchByRoom(roomId)) {
+      await adoptPersistedMatches(roomId);
+    }
+    return false;
+  }
+
+  if (route.kind === 'draining') {
+    send(ctx.socket, { type: 'match:error', error: 'server_draining' });
+    return true;
+  }
+
+  if (route.kind === 'unclaimed') {
+    send(ctx.socket, { type: 'match:error', error: 'room_unavailable' });
+    return true;
+  }
+
+  logWsEvent('ws_room_redirect', {
+    tgUserId: ctx.tgUserId,
+    roomId,
+    ownerNodeId: route.nodeId,
+    wsUrl: route.wsUrl,
+  });
+
+  if (route.wsUrl) {
+    send(ctx.socket, { type: 'room:redirect', roomCode: roomId, wsUrl: route.wsUrl });
+  } else {
+    send(ctx.socket, { type: 'match:error', error: 'room_unavailable' });
+  }
+  return true;
 }
 
 function getRoom(roomId: string): RoomState | null {
@@ -239,58 +411,6 @@ function isSocketAttachedToRoom(ctx: ClientCtx, room: RoomState): boolean {
   return room.players.get(ctx.tgUserId) === ctx.socket;
 }
 
-function buildSnapshotFromMatch(match: MatchState): Extract<MatchServerMessage, { type: 'match:snapshot' }>['snapshot'] {
-  const now = Date.now();
-  return {
-    version: 'match_v1',
-    roomCode: match.roomId,
-    matchId: match.matchId,
-    tick: match.tick,
-    serverTime: now,
-    serverTimeMs: now,
-    world: {
-      gridW: match.world.gridW,
-      gridH: match.world.gridH,
-      worldHash: match.world.worldHash,
-      bombs: Array.from(match.bombs.values()).map((bomb) => ({
-        id: bomb.id,
-        x: bomb.x,
-        y: bomb.y,
-        ownerId: bomb.ownerId,
-        tickPlaced: bomb.tickPlaced,
-        explodeAtTick: bomb.explodeAtTick,
-      })),
-    },
-    players: Array.from(match.players.values()).map((player) => ({
-      tgUserId: player.tgUserId,
-      displayName: player.displayName,
-      colorId: player.colorId,
-      skinId: player.skinId,
-      lastInputSeq: player.lastInputSeq,
-      x: player.x,
-      y: player.y,
-      isMoving: false,
-      moveFromX: player.x,
-      moveFromY: player.y,
-      moveToX: player.x,
-      moveToY: player.y,
-      moveStartTick: match.tick,
-      moveDurationTicks: 0,
-      moveStartServerTimeMs: now,
-      moveDurationMs: 0,
-      lives: match.playerLives.get(player.tgUserId) ?? 0,
-      eliminated: match.eliminatedPlayers.has(player.tgUserId),
-      disconnected: match.disconnectedPlayers.has(player.tgUserId),
-    })),
-    enemies: Array.from(match.enemies.values()).map((enemy) => ({
-      id: enemy.id,
-      x: enemy.x,
-      y: enemy.y,
-      alive: enemy.alive,
-    })),
-  };
-}
-
 function sendInitialSnapshot(roomId: string, match: MatchState) {
   if (match.roomId !== roomId) {
     return;
@@ -302,7 +422,7 @@ function sendInitialSnapshot(roomId: string, match: MatchState) {
 
   broadcastToRoomMatch(roomId, match.matchId, {
     type: 'match:snapshot',
-    snapshot: buildSnapshotFromMatch(match),
+    snapshot: buildMatchSnapshot(match),
   });
 }
 
@@ -373,7 +493,7 @@ function broadcastToRoomMatch(roomId: string, matchId: string, msg: MatchServerM
       continue;
     }
 
-    send(socket, msg);
+    send(socket, msg.type === 'match:snapshot' ? encodeSnapshotForClient(client, msg.snapshot) : msg);
     sentCount += 1;
   }
 
@@ -401,6 +521,152 @@ function broadcastToRoomMatch(roomId: string, matchId: string, msg: MatchServerM
       });
     }
   }
+
+  relayToSpectators(roomId, msg);
+}
+
+function recordSnapshotHistory(match: MatchState, snapshot: MatchSnapshot): void {
+  const history = snapshotHistoryByMatch.get(match) ?? new Map<number, MatchSnapshot>();
+  snapshotHistoryByMatch.set(match, history);
+  history.set(snapshot.tick, snapshot);
+  for (const tick of history.keys()) {
+    if (tick <= snapshot.tick - SNAPSHOT_HISTORY_TICKS) history.delete(tick);
+  }
+}
+
+function recordMatchEvent(match: MatchState, event: MatchEvent): void {
+  const backlog = eventBacklogByMatch.get(match) ?? [];
+  eventBacklogByMatch.set(match, backlog);
+  backlog.push(event);
+  if (backlog.length > MATCH_EVENT_BACKLOG_SIZE) {
+    backlog.splice(0, backlog.length - MATCH_EVENT_BACKLOG_SIZE);
+  }
+}
+
+// Events fired after `lastEventId`, oldest first; null when it has left the backlog (or never was in it).
+function getEventsAfter(match: MatchState, lastEventId: string): MatchEvent[] | null {
+  const backlog = eventBacklogByMatch.get(match) ?? [];
+  const index = backlog.findIndex((event) => 'eventId' in event && event.eventId === lastEventId);
+  return index === -1 ? null : backlog.slice(index + 1);
+}
+
+/**
+ * Sends the changes since the client's last acked snapshot when that baseline
+ * is still in history, and the full snapshot otherwise. Snapshots built
+ * outside the tick loop never become baselines: their shape differs from the
+ * recorded ones, so acks up to their tick are discarded.
+ */
+function encodeSnapshotForClient(client: ClientCtx, snapshot: MatchSnapshot): ServerMessage {
+  const match = getMatch(snapshot.matchId);
+  const history = match ? snapshotHistoryByMatch.get(match) : undefined;
+  const ack = client.snapshotAck;
+
+  if (!match || history?.get(snapshot.tick) !== snapshot) {
+    client.snapshotAck = { matchId: snapshot.matchId, ackedTick: null, minTick: snapshot.tick };
+    return { type: 'match:snapshot', snapshot };
+  }
+
+  const base = ack && ack.matchId === snapshot.matchId && ack.ackedTick !== null && ack.ackedTick < snapshot.tick
+    ? history.get(ack.ackedTick)
+    : undefined;
+  if (!base) {
+    return { type: 'match:snapshot', snapshot };
+  }
+
+  return { type: 'match:snapshot_delta', delta: diffMatchSnapshots(base, snapshot, hashWorldTiles(match.world.tiles)) };
+}
+
+function attachSpectator(ctx: ClientCtx, roomId: string): boolean {
+  const spectators = spectatorsByRoom.get(roomId) ?? new Set<ClientCtx>();
+  if (!spectators.has(ctx) && spectators.size >= MAX_SPECTATORS_PER_ROOM) {
+    return false;
+  }
+
+  detachSpectator(ctx);
+  spectators.add(ctx);
+  spectatorsByRoom.set(roomId, spectators);
+  ctx.spectatingRoomId = roomId;
+  return true;
+}
+
+function detachSpectator(ctx: ClientCtx): void {
+  const roomId = ctx.spectatingRoomId;
+  if (!roomId) {
+    return;
+  }
+
+  ctx.spectatingRoomId = null;
+  const spectators = spectatorsByRoom.get(roomId);
+  if (!spectators) {
+    return;
+  }
+
+  spectators.delete(ctx);
+  if (spectators.size === 0) {
+    spectatorsByRoom.delete(roomId);
+  }
+
+  logWsEvent('ws_spectator_leave', { tgUserId: ctx.tgUserId, roomId });
+}
+
+/**
+ * Spectators see the match on a fixed delay. The recipient is re-checked when
+ * the timer fires so a viewer who switched rooms meanwhile gets nothing stale.
+ */
+function relayToSpectators(roomId: string, msg: MatchServerMessage, delayMs = getSpectatorDelayMs()) {
+  const spectators = spectatorsByRoom.get(roomId);
+  if (!spectators || spectators.size === 0) {
+    return;
+  }
+
+  const recipients = Array.from(spectators);
+  const deliver = () => {
+    for (const spectator of recipients) {
+      if (spectator.spectatingRoomId !== roomId) continue;
+      send(spectator.socket, msg);
+    }
+  };
+
+  if (delayMs <= 0) {
+    deliver();
+    return;
+  }
+
+  setTimeout(deliver, delayMs);
+}
+
+function sendSpectatorSyncIfActiveMatch(ctx: ClientCtx, roomId: string, delayMs: number) {
+  const match = getMatchByRoom(roomId);
+  if (!match || match.ended) {
+    return;
+  }
+
+  const bundle: MatchServerMessage[] = [
+    { type: 'match:started', roomCode: roomId, matchId: match.matchId, ruleset: match.ruleset },
+    {
+      type: 'match:world_init',
+      roomCode: roomId,
+      matchId: match.matchId,
+      world: {
+        gridW: match.world.gridW,
+        gridH: match.world.gridH,
+        tiles: [...match.world.tiles],
+        worldHash: match.world.worldHash,
+      },
+    },
+    { type: 'match:snapshot', snapshot: buildMatchSnapshot(match) },
+  ];
+
+  // Captured now and delivered with the same delay as the live relay, so the
+  // bundle lines up with the first relayed snapshot instead of running ahead.
+  setTimeout(() => {
+    if (ctx.spectatingRoomId !== roomId) {
+      return;
+    }
+    for (const msg of bundle) {
+      send(ctx.socket, msg);
+    }
+  }, delayMs);
 }
 
 function broadcastToRoom(roomId: string, msg: MatchServerMessage) {
@@ -623,40 +889,66 @@ function clearPendingRejoinHandshake(connectionId: string): void {
   pendingRejoinHandshakes.delete(connectionId);
 }
 
-function sendRejoinSnapshotBundle(ctx: ClientCtx, roomId: string, match: MatchState, reason: 'ready' | 'timeout'): void {
+/**
+ * Catches a rejoining client up. If it still holds the world and its last
+ * applied event is in the backlog, it gets only the events it missed;
+ * otherwise a fresh world. The snapshot goes last either way.
+ */
+function sendRejoinSnapshotBundle(
+  ctx: ClientCtx,
+  roomId: string,
+  match: MatchState,
+  reason: 'ready' | 'timeout',
+  lastEventId?: string,
+): void {
+  const missedEvents = lastEventId ? getEventsAfter(match, lastEventId) : null;
+
   send(ctx.socket, {
     type: 'match:started',
     roomCode: roomId,
     matchId: match.matchId,
+    ruleset: match.ruleset,
   });
 
   send(ctx.socket, {
     type: 'mp:rejoin_sync',
     matchId: match.matchId,
+    resume: missedEvents ? 'events' : 'world_init',
+    replayedEvents: missedEvents?.length ?? 0,
   });
 
-  send(ctx.socket, {
-    type: 'match:world_init',
-    roomCode: roomId,
-    matchId: match.matchId,
-    world: {
-      gridW: match.world.gridW,
-      gridH: match.world.gridH,
-      tiles: [...match.world.tiles],
-      worldHash: match.world.worldHash,
-    },
-  });
+  if (missedEvents) {
+    for (const event of missedEvents) {
+      send(ctx.socket, event);
+    }
+  } else {
+    send(ctx.socket, {
+      type: 'match:world_init',
+      roomCode: roomId,
+      matchId: match.matchId,
+      world: {
+        gridW: match.world.gridW,
+        gridH: match.world.gridH,
+        tiles: [...match.world.tiles],
+        worldHash: match.world.worldHash,
+      },
+    });
+  }
 
   send(ctx.socket, {
     type: 'match:snapshot',
-    snapshot: buildSnapshotFromMatch(match),
+    snapshot: buildMatchSnapshot(match),
   });
+  ctx.snapshotAck = { matchId: match.matchId, ackedTick: null, minTick: match.tick };
 
   logWsEvent('ws_rejoin_sync_sent', {
     tgUserId: ctx.tgUserId,
     roomId,
     matchId: match.matchId,
     reason,
+    resume: missedEvents ? 'events' : 'world_init',
+    replayedEvents: missedEvents?.length ?? 0,
+    lastEventId: lastEventId ?? null,
   });
 }
 
@@ -669,6 +961,7 @@ function beginRejoinHandshake(ctx: ClientCtx, roomId: string, match: MatchState)
     type: 'match:started',
     roomCode: roomId,
     matchId: match.matchId,
+    ruleset: match.ruleset,
   });
 
   send(ctx.socket, {
@@ -799,6 +1092,7 @@ async function handlePlayerLeftInActiveMatch(roomId: string, tgUserId: string):
   if (!changed) {
     return;
   }
+  recordReplayPresence(match, tgUserId, 'disconnect');
 
   logWsEvent('ws_player_marked_disconnected', {
     roomId,
@@ -807,9 +1101,115 @@ async function handlePlayerLeftInActiveMatch(roomId: string, tgUserId: string):
   });
 }
 
-async function startMatchInRoom(room: RoomState): Promise<void> {
+/**
+ * Teams come from room_members.team. A room plays as teams only when every
+ * match player picked one and at least two teams are represented.
+ */
+async function loadMatchSetup(roomId: string, players: string[]): Promise<{ setup: MatchSetup; error: string | null }> {
+  const [dbRoom, members, ownedSkus] = await Promise.all([
+    getRoomByCode(roomId),
+    listRoomMembers(roomId),
+    Promise.all(players.map((tgUserId) => listOwnedSkus(tgUserId))),
+  ]);
+  const teamByTgUserId = new Map<string, number>();
+  for (const member of members) {
+    if (member.team !== null && players.includes(member.tgUserId)) {
+      teamByTgUserId.set(member.tgUserId, member.team);
+    }
+  }
+
+  const friendlyFire = dbRoom?.friendlyFire ?? false;
+  const ruleset = resolveMatchRuleset(dbRoom?.ruleset);
+  const remoteDetonate = new Set(players.filter((_, idx) => ownedSkus[idx]?.includes(REMOTE_DETONATE_SKU)));
+  if (teamByTgUserId.size === 0) {
+    return { setup: { teams: null, friendlyFire, ruleset, remoteDetonate }, error: null };
+  }
+
+  if (teamByTgUserId.size < players.length) {
+    return { setup: { teams: null, friendlyFire, ruleset, remoteDetonate }, error: 'teams_incomplete' };
+  }
+
+  if (new Set(teamByTgUserId.values()).size < 2) {
+    return { setup: { teams: null, friendlyFire, ruleset, remoteDetonate }, error: 'teams_need_two_sides' };
+  }
+
+  return { setup: { teams: teamByTgUserId, friendlyFire, ruleset, remoteDetonate }, error: null };
+}
+
+async function submitTeamMatchResult(match: MatchState, end: MatchEnd): Promise<void> {
+  if (end.winnerTeam === undefined || end.winnerTeam === null) {
+    return;
+  }
+
+  const winners = Array.from(match.players.values()).filter((player) => player.team === end.winnerTeam);
+  const mode = TEAM_LEADERBOARD_MODES[winners.length];
+  if (!mode) {
+    return;
+  }
+
+  const members = await listRoomMembers(match.roomId);
+  const displayNameById = new Map(members.map((member) => [member.tgUserId, member.displayName]));
+  const livesLeft = winners.reduce((sum, player) => sum + (match.playerLives.get(player.tgUserId) ?? 0), 0);
+  const kills = winners.reduce((sum, player) => sum + getPlayerMatchStats(match, player.tgUserId).kills, 0);
+
+  await submitTeamLeaderboardScore({
+    mode,
+    memberIds: winners.map((player) => player.tgUserId),
+    displayName: winners.map((player) => displayNameById.get(player.tgUserId) ?? player.tgUserId).join(' + '),
+    score: TEAM_WIN_BASE_SCORE + livesLeft * TEAM_WIN_SCORE_PER_LIFE + kills * TEAM_WIN_SCORE_PER_KILL,
+  });
+}
+
+// Stores the outcome and per-player stats and moves every player's rating; FFA places players by elimination tick.
+async function recordMatchResult(match: MatchState, end: MatchEnd, hasReplay: boolean): Promise<void> {
+  const players = Array.from(match.players.values(), (player) => ({ tgUserId: player.tgUserId, team: player.team }));
+  const mode = ratingModeOf(players.map((player) => player.team));
+  const eliminatedAtTick = new Map(Array.from(match.eliminatedPlayers, (tgUserId) => [tgUserId, getPlayerMatchStats(match, tgUserId).eliminatedAtTick ?? end.tick]));
+  const placements = placementsFromEnd(end, players, eliminatedAtTick);
+  const endedAtMs = Date.now();
+
+  const changes = await recordMatchResultTx({
+    matchId: match.matchId,
+    roomCode: match.roomId,
+    mode,
+    reason: end.reason,
+    winnerTgUserId: end.winnerTgUserId,
+    winnerTeam: end.winnerTeam ?? null,
+    endTick: end.tick,
+    endedAtMs,
+    hasReplay,
+    players: players.map((player) => {
+      const { eliminatedAtTick, ...stats } = getPlayerMatchStats(match, player.tgUserId);
+      return { ...player, placement: placements.get(player.tgUserId)!, stats: { ...stats, survivalTicks: eliminatedAtTick ?? end.tick } };
+    }),
+    rate: (current) => rateMatch(players.map((player) => {
+      const stored = current.get(player.tgUserId) ?? null;
+      return {
+        ...player,
+        placement: placements.get(player.tgUserId)!,
+        rating: stored?.rating ?? DEFAULT_RATING,
+        deviation: stored?.deviation ?? DEFAULT_DEVIATION,
+        idleMs: stored?.updatedAtMs == null ? 0 : endedAtMs - stored.updatedAtMs,
+      };
+    })),
+  });
+
+  if (changes) {
+    logWsEvent('ws_match_rated', { roomId: match.roomId, matchId: match.matchId, mode, changes });
+  }
+}
+
+async function saveReplay(match: MatchState, end: MatchEnd): Promise<boolean> {
+  const data = await finishReplayRecording(match, end);
+  if (!data) return false;
+  await saveMatchReplay({ matchId: match.matchId, data, nowMs: Date.now() });
+  return true;
+}
+
+async function startMatchInRoom(room: RoomState, setup: MatchSetup): Promise<void> {
   const players = getStableMatchPlayers(room);
-  const match = createMatch(room.roomId, players);
+  const match = createMatch(room.roomId, players, setup);
+  beginReplayRecording(match);
   const roomPlayerIds = Array.from(room.players.keys());
   room.matchId = match.matchId;
   clearRestartVote(room.roomId);
@@ -864,6 +1264,7 @@ async function startMatchInRoom(room: RoomState): Promise<void> {
     type: 'match:started',
     roomCode: room.roomId,
     matchId: match.matchId,
+    ruleset: match.ruleset,
   });
 
   broadcastToRoomMatch(room.roomId, match.matchId, {
@@ -880,8 +1281,13 @@ async function startMatchInRoom(room: RoomState): Promise<void> {
 
   sendInitialSnapshot(room.roomId, match);
 
+  runMatchLoop(room.roomId, match);
+}
+
+// Ticks the match and relays its events and snapshots to the room until it ends.
+function runMatchLoop(roomId: string, match: MatchState): void {
   startMatch(match, (snapshot, events) => {
-    const activeRoom = rooms.get(room.roomId);
+    const activeRoom = rooms.get(roomId);
     if (!activeRoom) {
       endMatch(match.matchId);
       return;
@@ -900,9 +1306,33 @@ async function startMatchInRoom(room: RoomState): Promise<void> {
         continue;
       }
 
+      recordMatchEvent(match, event);
       broadcastToRoomMatch(activeRoom.roomId, snapshot.matchId, event);
 
       if (event.type === 'match:end') {
+        void submitTeamMatchResult(match, event).catch((error) => {
+          logWsEvent('ws_team_result_submit_failed', {
+            roomId: activeRoom.roomId,
+            matchId: event.matchId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+        // The replay goes first so the result row can say whether one exists.
+        const replaySaved = saveReplay(match, event).catch((error) => {
+          logWsEvent('ws_replay_write_failed', {
+            roomId: activeRoom.roomId,
+            matchId: event.matchId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return false;
+        });
+        void replaySaved.then((hasReplay) => recordMatchResult(match, event, hasReplay)).catch((error) => {
+          logWsEvent('ws_match_result_write_failed', {
+            roomId: activeRoom.roomId,
+            matchId: event.matchId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
         endMatch(event.matchId);
         activeRoom.matchId = null;
         clearRestartVote(activeRoom.roomId);
@@ -922,6 +1352,7 @@ async function startMatchInRoom(room: RoomState): Promise<void> {
       }
     }
 
+    recordSnapshotHistory(match, snapshot);
     broadcastToRoomMatch(activeRoom.roomId, snapshot.matchId, {
       type: 'match:snapshot',
       snapshot,
@@ -944,6 +1375,7 @@ function detachClientFromRoom(ctx: ClientCtx, reason: 'intentional_leave' | 'dis
     if (match && match.roomId === roomId) {
       const changed = markPlayerDisconnected(match, leavingTgUserId);
       if (changed) {
+        recordReplayPresence(match, leavingTgUserId, 'disconnect');
         logWsEvent('ws_player_marked_disconnected', {
           roomId,
           matchId: match.matchId,
@@ -1000,18 +1432,6 @@ function detachClientFromRoom(ctx: ClientCtx, reason: 'intentional_leave' | 'dis
   void handlePlayerLeftInActiveMatch(roomId, leavingTgUserId);
 }
 
-function parseMessage(raw: RawData): ClientMessage | null {
-  try {
-    const parsed = JSON.parse(String(raw));
-    if (!parsed || typeof parsed !== 'object') {
-      return null;
-    }
-    return parsed as ClientMessage;
-  } catch {
-    return null;
-  }
-}
-
 function logInboundDrop(ctx: ClientCtx, msg: ClientMessage, reason: string, room?: RoomState | null) {
   logWsEvent('ws_drop_inbound', {
     reason,
@@ -1023,27 +1443,149 @@ function logInboundDrop(ctx: ClientCtx, msg: ClientMessage, reason: string, room
   });
 }
 
+// Rejected frames never refresh `lastSeenMs`, so a client sending only junk still times out.
+function rejectInboundFrame(ctx: ClientCtx, code: InboundRejectCode, msgType?: string, field?: string): void {
+  ctx.inboundRejects[code] = (ctx.inboundRejects[code] ?? 0) + 1;
+  logWsEvent('ws_inbound_rejected', {
+    connectionId: ctx.connectionId,
+    tgUserId: ctx.tgUserId,
+    roomId: ctx.roomId,
+    code,
+    msgType: msgType ?? null,
+    field: field ?? null,
+    rejects: ctx.inboundRejects,
+  });
+  send(ctx.socket, { type: 'match:error', error: code, field });
+}
+
+function handleHello(ctx: ClientCtx, msg: ClientHello): void {
+  const offered = msg.protocolVersions;
+  const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.find((version) => offered.includes(version)) ?? null;
+
+  logWsEvent('ws_hello', {
+    connectionId: ctx.connectionId,
+    tgUserId: ctx.tgUserId,
+    clientBuildId: msg.buildId,
+    offered,
+    protocolVersion,
+  });
+
+  ctx.protocolVersion = protocolVersion;
+  if (!protocolVersion) {
+    rejectOutdatedClient(ctx);
+    return;
+  }
+
+  send(ctx.socket, { type: 'hello', protocolVersion, buildId: getBuildId() });
+}
+
+/**
+ * Counts a strike against the connection, records it for admins, and kicks
+ * once the connection has struck out. Repeats of a kind within the guard's
+ * cooldown are not counted, so a flood is one incident per second.
+ */
+function flagInputIncident(ctx: ClientCtx, kind: InputIncidentKind, details: Record<string, unknown>): void {
+  const now = Date.now();
+  if (!strike(ctx.inputGuard, kind, now)) {
+    return;
+  }
+
+  const kicked = shouldKick(ctx.inputGuard);
+  logWsEvent('ws_input_incident', {
+    connectionId: ctx.connectionId,
+    tgUserId: ctx.tgUserId,
+    roomId: ctx.roomId,
+    matchId: ctx.matchId,
+    kind,
+    strikes: ctx.inputGuard.strikes,
+    kicked,
+    ...details,
+  });
+
+  if (ctx.matchId) {
+    const matchId = ctx.matchId;
+    void insertMatchIncident({
+      matchId,
+      roomCode: ctx.roomId,
+      tgUserId: ctx.tgUserId,
+      kind,
+      details,
+      kicked,
+      createdAt: now,
+    }).catch((error) => {
+      logWsEvent('ws_incident_write_failed', {
+        matchId,
+        tgUserId: ctx.tgUserId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  if (kicked) {
+    send(ctx.socket, { type: 'match:error', error: 'kicked_input_abuse' });
+    ctx.socket.close(1008, 'input_abuse');
+  }
+}
+
+// The socket stays bound to the identity it authenticated with.
+function rejectIdentityChange(ctx: ClientCtx, msg: ClientMessage, claimedTgUserId: string): void {
+  logWsEvent('ws_identity_mismatch', {
+    connectionId: ctx.connectionId,
+    tgUserId: ctx.tgUserId,
+    claimedTgUserId,
+    msgType: msg.type,
+  });
+  send(ctx.socket, { type: 'match:error', error: 'identity_mismatch' });
+}
+
+// Told once per connection; later messages are dropped without a reply.
+function rejectOutdatedClient(ctx: ClientCtx): void {
+  if (ctx.outdatedNotified) {
+    return;
+  }
+  ctx.outdatedNotified = true;
+  send(ctx.socket, { type: 'match:error', error: 'client_outdated' });
+}
+
 async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
+  if (msg.type === 'hello') {
+    handleHello(ctx, msg);
+    return;
+  }
+
+  // Clients from before the handshake may send shapes this server misreads.
+  if (!ctx.protocolVersion && msg.type !== 'ping') {
+    if (!ctx.outdatedNotified) {
+      logInboundDrop(ctx, msg, 'hello_required');
+    }
+    rejectOutdatedClient(ctx);
+    return;
+  }
+
+  if (ctx.spectatingRoomId && SPECTATOR_READ_ONLY_TYPES.has(msg.type)) {
+    logInboundDrop(ctx, msg, 'spectator_read_only');
+    return;
+  }
+
+  // Dropped silently; the incident log records the flood once per second.
+  if (msg.type === 'match:input' && !takeToken(ctx.inputGuard.inputBucket, MATCH_INPUT_RATE_LIMIT, Date.now())) {
+    flagInputIncident(ctx, 'input_flood', { msgType: msg.type });
+    return;
+  }
+  if (msg.type === 'match:bomb_place' && !takeToken(ctx.inputGuard.bombBucket, BOMB_PLACE_RATE_LIMIT, Date.now())) {
+    flagInputIncident(ctx, 'bomb_flood', { msgType: msg.type });
+    return;
+  }
+
   try {
     switch (msg.type) {
     case 'ping': {
-      const id = Number(msg.id);
-      const t = Number(msg.t);
-
-      if (!Number.isFinite(id) || !Number.isFinite(t)) {
-        return;
-      }
-
-      return send(ctx.socket, { type: 'pong', id, t, serverNow: Date.now() });
+      return send(ctx.socket, { type: 'pong', id: msg.id, t: msg.t, serverNow: Date.now() });
     }
 
     case 'room:join': {
-      if (!msg.roomId || typeof msg.roomId !== 'string') {
-        return send(ctx.socket, { type: 'match:error', error: 'invalid_room_id' });
-      }
-
-      if (msg.tgUserId && typeof msg.tgUserId === 'string') {
-        ctx.tgUserId = msg.tgUserId;
+      if (msg.tgUserId && msg.tgUserId !== ctx.tgUserId) {
+        return rejectIdentityChange(ctx, msg, msg.tgUserId);
       }
 
       const dbRoom = await getRoomByCode(msg.roomId);
@@ -1051,6 +1593,10 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
         return send(ctx.socket, { type: 'match:error', error: 'room_not_found' });
       }
 
+      if (await redirectIfRoomElsewhere(ctx, msg.roomId)) {
+        return;
+      }
+
       const roomPhase = String(dbRoom.phase ?? 'LOBBY');
       const activeMatch = getMatchByRoom(msg.roomId);
       const isStartedPhase = roomPhase === 'STARTED';
@@ -1104,6 +1650,7 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
         } catch {}
       }
 
+      detachSpectator(ctx);
       attachClientToRoom(ctx, msg.roomId);
       touchLastMpSession({
         tgUserId: ctx.tgUserId,
@@ -1111,7 +1658,9 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
         matchId: activeMatch?.matchId ?? null,
       });
       if (activeMatch && roomPhase === 'STARTED') {
-        markPlayerReconnected(activeMatch, ctx.tgUserId);
+        if (markPlayerReconnected(activeMatch, ctx.tgUserId)) {
+          recordReplayPresence(activeMatch, ctx.tgUserId, 'reconnect');
+        }
         const joinedRoom = getRoom(msg.roomId);
         if (joinedRoom) {
           joinedRoom.matchId = activeMatch.matchId;
@@ -1119,9 +1668,71 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
         ctx.matchId = activeMatch.matchId;
       }
       sendRejoinSyncIfActiveMatch(ctx, msg.roomId);
+      if (dbRoom.matchmade && roomPhase === 'LOBBY') {
+        await startMatchmadeRoomIfReady(msg.roomId);
+      }
       return;
     }
 
+    case 'room:spectate': {
+      if (ctx.roomId) {
+        return send(ctx.socket, { type: 'match:error', error: 'already_in_room' });
+      }
+
+      if (msg.tgUserId && msg.tgUserId !== ctx.tgUserId) {
+        return rejectIdentityChange(ctx, msg, msg.tgUserId);
+      }
+
+      const dbRoom = await getRoomByCode(msg.roomId);
+      if (!dbRoom) {
+        return send(ctx.socket, { type: 'match:error', error: 'room_not_found' });
+      }
+
+      if (await redirectIfRoomElsewhere(ctx, msg.roomId)) {
+        return;
+      }
+
+      const [members, viewerFriends] = await Promise.all([listRoomMembers(msg.roomId), listConfirmedFriendsV2(ctx.tgUserId)]);
+      const grant = await resolveSpectatorAccess({
+        viewerTgUserId: ctx.tgUserId,
+        memberIds: members.map((member) => member.tgUserId),
+        viewerFriendIds: new Set(viewerFriends.map((friend) => friend.userId)),
+        eliminatedIds: getMatchByRoom(msg.roomId)?.eliminatedPlayers ?? new Set<string>(),
+        hasEntry: async () => Boolean(msg.password || msg.inviteId)
+          && hasRoomEntry({ tgUserId: ctx.tgUserId, roomCode: msg.roomId, password: msg.password, inviteId: msg.inviteId, nowMs: Date.now() }),
+      });
+      if (!grant) {
+        logWsEvent('ws_spectator_rejected', { tgUserId: ctx.tgUserId, roomId: msg.roomId });
+        return send(ctx.socket, { type: 'match:error', error: 'spectate_forbidden' });
+      }
+
+      if (!attachSpectator(ctx, msg.roomId)) {
+        return send(ctx.socket, { type: 'match:error', error: 'spectators_full' });
+      }
+
+      const activeMatch = getMatchByRoom(msg.roomId);
+      const room = getRoom(msg.roomId);
+      const delayMs = getSpectatorDelayMs();
+      logWsEvent('ws_spectator_join', {
+        tgUserId: ctx.tgUserId,
+        roomId: msg.roomId,
+        grant,
+        matchId: activeMatch?.matchId ?? null,
+        delayMs,
+      });
+
+      send(ctx.socket, {
+        type: 'room:spectating',
+        roomCode: msg.roomId,
+        matchId: activeMatch?.matchId ?? null,
+        delayMs,
+        players: activeMatch
+          ? Array.from(activeMatch.players.keys())
+          : room ? getStableMatchPlayers(room) : [],
+      });
+      sendSpectatorSyncIfActiveMatch(ctx, msg.roomId, delayMs);
+      return;
+    }
 
     case 'mp:presence_heartbeat': {
       if (!ctx.roomId || !ctx.matchId) {
@@ -1241,28 +1852,98 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
         rejoinAttemptId: msg.rejoinAttemptId,
       });
 
-      sendRejoinSnapshotBundle(ctx, ctx.roomId, activeMatch, 'ready');
+      sendRejoinSnapshotBundle(ctx, ctx.roomId, activeMatch, 'ready', msg.lastEventId);
       return;
     }
 
     case 'mp:snapshot_applied': {
-      logWsEvent('ws_snapshot_applied_ack', {
+      if (msg.tick === undefined) {
+        logWsEvent('ws_snapshot_applied_ack', {
+          tgUserId: ctx.tgUserId,
+          roomId: ctx.roomId,
+          ctxMatchId: ctx.matchId,
+          matchId: msg.matchId,
+          rejoinAttemptId: msg.rejoinAttemptId ?? null,
+        });
+        return;
+      }
+
+      // Periodic baseline acks are too frequent to log one by one.
+      const ack = ctx.snapshotAck;
+      if (
+        !Number.isSafeInteger(msg.tick)
+        || ctx.matchId !== msg.matchId
+        || (ack && ack.matchId === msg.matchId && (msg.tick <= ack.minTick || (ack.ackedTick !== null && msg.tick <= ack.ackedTick)))
+      ) {
+        return;
+      }
+
+      ctx.snapshotAck = { matchId: msg.matchId, ackedTick: msg.tick, minTick: ack?.matchId === msg.matchId ? ack.minTick : 0 };
+      const ackedMatch = getMatch(msg.matchId);
+      if (ackedMatch) ctx.ackLagTicks = Math.max(0, ackedMatch.tick - msg.tick);
+      return;
+    }
+
+    case 'mp:snapshot_resync': {
+      const match = ctx.matchId === msg.matchId ? getMatch(msg.matchId) : undefined;
+      if (!match || !ctx.roomId || match.roomId !== ctx.roomId) {
+        logInboundDrop(ctx, msg, 'snapshot_resync_match_mismatch', ctx.roomId ? getRoom(ctx.roomId) : null);
+        return;
+      }
+
+      ctx.snapshotAck = { matchId: match.matchId, ackedTick: null, minTick: match.tick };
+      if (msg.reason === 'world_hash_mismatch') {
+        send(ctx.socket, {
+          type: 'match:world_init',
+          roomCode: match.roomId,
+          matchId: match.matchId,
+          world: {
+            gridW: match.world.gridW,
+            gridH: match.world.gridH,
+            tiles: [...match.world.tiles],
+            worldHash: match.world.worldHash,
+          },
+        });
+      }
+
+      logWsEvent('ws_snapshot_resync', {
         tgUserId: ctx.tgUserId,
         roomId: ctx.roomId,
-        ctxMatchId: ctx.matchId,
-        matchId: msg.matchId,
-        rejoinAttemptId: msg.rejoinAttemptId ?? null,
+        matchId: match.matchId,
+        tick: match.tick,
+        reason: msg.reason,
       });
       return;
     }
 
 
+    case 'mm:enqueue': {
+      // Status goes out as a notice to every socket the player holds, this one included.
+      await enqueueForMatch(ctx.tgUserId, msg.mode);
+      return;
+    }
+
+    case 'mm:cancel': {
+      await leaveMatchmaking(ctx.tgUserId);
+      return;
+    }
+
+    case 'mm:accept':
+    case 'mm:decline': {
+      await respondToMatch(ctx.tgUserId, msg.proposalId, msg.type === 'mm:accept');
+      return;
+    }
+
     case 'room:leave': {
+      detachSpectator(ctx);
       const roomCode = ctx.roomId;
       const tgUserId = ctx.tgUserId;
       detachClientFromRoom(ctx, 'intentional_leave');
       if (roomCode) {
         void detachClientFromRoomDb(roomCode, tgUserId);
+        void clearLastMpSession(tgUserId).catch((error: unknown) => {
+          logWsEvent('ws_last_session_clear_failed', { tgUserId, roomId: roomCode, error: String(error) });
+        });
       }
       return;
     }
@@ -1272,6 +1953,10 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
         return send(ctx.socket, { type: 'match:error', error: 'not_in_room' });
       }
 
+      if (isNodeDraining()) {
+        return send(ctx.socket, { type: 'match:error', error: 'server_draining' });
+      }
+
       logWsEvent('ws_match_start_requested', {
         tgUserId: ctx.tgUserId,
         roomId: ctx.roomId,
@@ -1296,7 +1981,12 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
         return send(ctx.socket, { type: 'match:error', error: 'not_enough_ws_players' });
       }
 
-      await startMatchInRoom(room);
+      const { setup, error: setupError } = await loadMatchSetup(room.roomId, players);
+      if (setupError) {
+        return send(ctx.socket, { type: 'match:error', error: setupError });
+      }
+
+      await startMatchInRoom(room, setup);
 
       return;
     }
@@ -1341,22 +2031,44 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
         return;
       }
 
-      const seq = Number(msg.seq);
-      if (!Number.isSafeInteger(seq) || seq <= 0) return;
+      if (match.inputQueue.length >= MAX_QUEUED_INPUTS) {
+        logInboundDrop(ctx, msg, 'input_queue_full', room);
+        return;
+      }
 
-      const { payload } = msg;
-      if (!payload || typeof payload !== 'object') return;
+      const { seq, payload } = msg;
+      if (payload.kind === 'move' && noteMoveInput(ctx.inputGuard, match.tick)) {
+        flagInputIncident(ctx, 'move_rate', { tick: match.tick, dir: payload.dir });
+        return;
+      }
 
-      // Minimal validation for v1
       if (payload.kind === 'move') {
-        const dir = payload.dir;
-        if (dir !== null && dir !== 'up' && dir !== 'down' && dir !== 'left' && dir !== 'right') return;
-
         match.inputQueue.push({
           tgUserId: ctx.tgUserId,
           seq,
           payload,
         });
+        recordReplayInput(match, ctx.tgUserId, seq, payload);
+
+        touchLastMpSession({
+          tgUserId: ctx.tgUserId,
+          roomCode: ctx.roomId,
+          matchId: match.matchId,
+        });
+      } else if (payload.kind === 'detonate') {
+        // Re-checked when the input is applied; rejecting here keeps junk out of the replay.
+        const rejectReason = getDetonateRejectReason(match, ctx.tgUserId);
+        if (rejectReason) {
+          logInboundDrop(ctx, msg, `detonate_${rejectReason}`, room);
+          return;
+        }
+
+        match.inputQueue.push({
+          tgUserId: ctx.tgUserId,
+          seq,
+          payload: { kind: 'detonate' },
+        });
+        recordReplayInput(match, ctx.tgUserId, seq, { kind: 'detonate' });
 
         touchLastMpSession({
           tgUserId: ctx.tgUserId,
@@ -1386,17 +2098,36 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
         return;
       }
 
-      const rawClientX = msg.payload?.x;
-      const rawClientY = msg.payload?.y;
-      const clientX = Number.isFinite(Number(rawClientX)) ? Number(rawClientX) : null;
-      const clientY = Number.isFinite(Number(rawClientY)) ? Number(rawClientY) : null;
+      const { x: clientX, y: clientY, tick: clientTick } = msg.payload;
 
       const player = match.players.get(ctx.tgUserId);
       const serverX = player?.x ?? null;
       const serverY = player?.y ?? null;
 
+      // Flag only: the bomb still goes where the server has the player.
+      if (player && isBombPlacementFar({ x: clientX, y: clientY }, player)) {
+        flagInputIncident(ctx, 'bomb_far', { clientX, clientY, serverX, serverY, tick: match.tick });
+      }
+
+      // Lag compensation: bomb the cell the client saw if the player stood there at its tick,
+      // with the claimed tick held to what the client's own snapshot acks show it can have seen.
+      const rewindTick = resolveBombRewindTick({
+        serverTick: match.tick,
+        clientTick,
+        ackedTick: ctx.snapshotAck?.matchId === match.matchId ? ctx.snapshotAck.ackedTick : null,
+        ackLagTicks: ctx.ackLagTicks,
+      });
+      const claimedX = Math.round(clientX);
+      const claimedY = Math.round(clientY);
+      const useClaimedCell =
+        rewindTick !== null && getBombPlacementRejectReason(match, ctx.tgUserId, claimedX, claimedY, rewindTick) === null;
+
       const spawned =
-        player == null || serverX == null || serverY == null ? null : tryPlaceBomb(match, ctx.tgUserId, serverX, serverY);
+        player == null
+          ? null
+          : useClaimedCell
+            ? tryPlaceBomb(match, ctx.tgUserId, claimedX, claimedY, rewindTick)
+            : tryPlaceBomb(match, ctx.tgUserId, player.x, player.y);
       if (!spawned) {
         const rejectReason =
           player == null
@@ -1414,6 +2145,8 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
           reason: rejectReason,
           clientX,
           clientY,
+          clientTick: clientTick ?? null,
+          serverTick: match.tick,
           serverX,
           serverY,
           playerState: player?.state ?? null,
@@ -1428,6 +2161,8 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
         matchId: match.matchId,
       });
 
+      recordReplayInput(match, ctx.tgUserId, msg.seq ?? 0, { kind: 'bomb_place', x: spawned.bomb.x, y: spawned.bomb.y }, spawned.rewindTicks);
+      recordMatchEvent(match, spawned);
       broadcastToRoomMatch(room.roomId, match.matchId, spawned);
       return;
     }
@@ -1537,12 +2272,21 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
 
       clearRestartVote(room.roomId);
       getRestartProposerState(room, vote.proposerTgUserId).ignoredCount = 0;
+
+      // Same checks as match:start; a room whose teams changed must not quietly restart as free-for-all.
+      const { setup, error: setupError } = await loadMatchSetup(room.roomId, getStableMatchPlayers(room));
+      if (setupError) {
+        logWsEvent('ws_restart_setup_rejected', { roomId: room.roomId, error: setupError });
+        broadcastToRoom(room.roomId, { type: 'room:restart_cancelled', roomCode: room.roomId, reason: 'invalid_setup' });
+        return;
+      }
+
       broadcastToRoom(room.roomId, {
         type: 'room:restart_accepted',
         roomCode: room.roomId,
       });
 
-      await startMatchInRoom(room);
+      await startMatchInRoom(room, setup);
       return;
     }
 
@@ -1554,10 +2298,185 @@ async function handleMessage(ctx: ClientCtx, msg: ClientMessage) {
   }
 }
 
+/**
+ * Quick-play rooms have no host to press start. The match begins once every
+ * matched player has joined, or with whoever made it when the grace runs out.
+ */
+async function startMatchmadeRoomIfReady(roomId: string, graceOver = false): Promise<void> {
+  const room = getRoom(roomId);
+  if (!room || getMatchByRoom(roomId) || matchmadeRoomsStarting.has(roomId)) {
+    return;
+  }
+
+  const members = await listRoomMembers(roomId);
+  const present = members.filter((member) => room.players.has(member.tgUserId));
+  if (!graceOver && present.length < members.length) {
+    if (!matchmadeStartTimers.has(roomId)) {
+      matchmadeStartTimers.set(roomId, setTimeout(() => {
+        matchmadeStartTimers.delete(roomId);
+        void startMatchmadeRoomIfReady(roomId, true).catch((error: unknown) => {
+          logWsEvent('ws_matchmade_start_failed', { roomId, error: error instanceof Error ? error.message : String(error) });
+        });
+      }, MATCHMADE_JOIN_GRACE_MS));
+    }
+    return;
+  }
+
+  clearTimeout(matchmadeStartTimers.get(roomId));
+  matchmadeStartTimers.delete(roomId);
+  if (present.length < 2 || isNodeDraining()) {
+    logWsEvent('ws_matchmade_start_abandoned', { roomId, members: members.length, present: present.length, draining: isNodeDraining() });
+    broadcastToRoom(roomId, { type: 'match:error', error: 'matchmade_players_missing' });
+    return;
+  }
+
+  matchmadeRoomsStarting.add(roomId);
+  try {
+    const players = getStableMatchPlayers(room);
+    const { setup } = await loadMatchSetup(roomId, players);
+    await startMatchInRoom(room, setup);
+    logWsEvent('ws_matchmade_match_started', { roomId, players, missing: members.length - present.length });
+  } finally {
+    matchmadeRoomsStarting.delete(roomId);
+  }
+}
+
+/**
+ * Runs a match restored from Postgres as if every player had just dropped:
+ * each gets the usual rejoin grace and comes back through `mp:rejoin_ready`.
+ */
+function resumeRestoredMatch(match: MatchState): void {
+  registerMatch(match);
+  const room = getOrCreateRoom(match.roomId);
+  room.matchId = match.matchId;
+  for (const tgUserId of match.players.keys()) {
+    ensureStableRoomSlot(room, tgUserId);
+    markPlayerDisconnected(match, tgUserId);
+  }
+  roomRegistry.ensureRoom(match.roomId);
+  roomRegistry.markStarted(match.roomId);
+
+  runMatchLoop(match.roomId, match);
+  logWsEvent('ws_match_restored', {
+    roomId: match.roomId,
+    matchId: match.matchId,
+    tick: match.tick,
+    players: Array.from(match.players.keys()),
+  });
+}
+
+async function adoptPersistedMatches(roomCode?: string): Promise<void> {
+  if (isNodeDraining()) {
+    return;
+  }
+
+  for (const row of await takePersistedMatches(roomCode)) {
+    const ageMs = Date.now() - row.savedAt;
+    // Past the rejoin grace nobody could come back to it.
+    const match = ageMs <= REJOIN_GRACE_MS ? restoreMatchState(row.state as PersistedMatch) : null;
+    if (!match) {
+      logWsEvent('ws_match_restore_skipped', {
+        roomId: row.roomCode,
+        matchId: row.matchId,
+        fromNodeId: row.nodeId,
+        ageMs,
+        reason: ageMs > REJOIN_GRACE_MS ? 'expired' : 'incompatible',
+      });
+      continue;
+    }
+
+    if (roomCode === undefined && (await routeRoom(match.roomId)).kind !== 'local') {
+      // Another node claimed the room first; put the match back for its own sweep.
+      await savePersistedMatch(row);
+      logWsEvent('ws_match_restore_deferred', { roomId: row.roomCode, matchId: row.matchId, fromNodeId: row.nodeId });
+      continue;
+    }
+
+    resumeRestoredMatch(match);
+  }
+}
+
+/**
+ * First half of a graceful shutdown: refuse new rooms and matches and tell
+ * every client when this node goes away. Running matches keep ticking.
+ */
+export function beginDrain(deadlineMs: number): void {
+  beginNodeDrain();
+  drainDeadlineMs = deadlineMs;
+  for (const client of clients) {
+    send(client.socket, { type: 'server:draining', deadlineMs });
+  }
+
+  logWsEvent('ws_drain_started', {
+    deadlineMs,
+    clients: clients.size,
+    liveMatches: listLiveMatches().length,
+  });
+}
+
+/**
+ * Second half: freezes every live match into Postgres for another node to
+ * adopt, leaves the cluster so its rooms are free, and closes all sockets.
+ */
+export async function persistMatchesAndClose(): Promise<void> {
+  const nodeId = getClusterNodeId();
+  const matchIds: string[] = [];
+
+  for (const match of listLiveMatches()) {
+    stopMatch(match);
+    try {
+      await savePersistedMatch({
+        matchId: match.matchId,
+        roomCode: match.roomId,
+        nodeId,
+        state: serializeMatchState(match),
+        savedAt: Date.now(),
+      });
+      matchIds.push(match.matchId);
+    } catch (error: unknown) {
+      logWsEvent('ws_match_persist_failed', {
+        roomId: match.roomId,
+        matchId: match.matchId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  try {
+    await leaveCluster();
+  } catch (error: unknown) {
+    logWsEvent('ws_cluster_leave_failed', { error: error instanceof Error ? error.message : String(error) });
+  }
+
+  // Rooms, DB membership and presence stay as they are for the node that takes over.
+  closingForShutdown = true;
+  for (const client of clients) {
+    client.socket.close(1012, 'server_restart');
+  }
+
+  logWsEvent('ws_drain_done', { persistedMatchIds: matchIds, clientsClosed: clients.size });
+}
+
 export function registerWsHandlers(wss: WebSocketServer) {
+  startCluster(deliverUserNotice);
+  startMatchmaker();
+
+  const adopt = () => {
+    void adoptPersistedMatches().catch((error: unknown) => {
+      logWsEvent('ws_match_adopt_failed', { error: error instanceof Error ? error.message : String(error) });
+    });
+  };
+  adopt();
+  setInterval(adopt, PERSISTED_MATCH_SWEEP_MS).unref();
+
   wss.on('connection', (socket, req) => {
     const url = new URL(req.url ?? '/', 'http://localhost');
-    const tgUserId = url.searchParams.get('tgUserId') ?? `guest_${Math.random().toString(36).slice(2, 10)}`;
+    const identity = getUpgradeIdentity(req);
+    if (!identity) {
+      socket.close(1008, 'unauthorized');
+      return;
+    }
+    const { tgUserId } = identity;
 
     const ctx: ClientCtx = {
       connectionId: randomUUID(),
@@ -1565,32 +2484,61 @@ export function registerWsHandlers(wss: WebSocketServer) {
       tgUserId,
       roomId: null,
       matchId: null,
+      spectatingRoomId: null,
       lastSeenMs: Date.now(),
+      snapshotAck: null,
+      ackLagTicks: null,
+      protocolVersion: null,
+      outdatedNotified: false,
+      inboundRejects: {},
+      inputGuard: createInputGuardState(Date.now()),
     };
     clients.add(ctx);
+    logWsEvent('ws_player_connect', { connectionId: ctx.connectionId, tgUserId, authVia: identity.via });
+    announcePresence(tgUserId, true);
 
 
-    send(socket, { type: 'connected' });
+    const wire: WireFormat = url.searchParams.get('wire') === BINARY_WIRE_FORMAT ? BINARY_WIRE_FORMAT : 'json';
+    if (wire === BINARY_WIRE_FORMAT) {
+      binaryWireSockets.add(socket);
+    }
+    send(socket, { type: 'connected', wire });
+    if (drainDeadlineMs !== null) {
+      send(socket, { type: 'server:draining', deadlineMs: drainDeadlineMs });
+    }
 
-    socket.on('message', (raw) => {
-      const msg = parseMessage(raw);
-      if (!msg) {
-        send(socket, { type: 'match:error', error: 'invalid_message' });
+    socket.on('message', (raw, isBinary) => {
+      const parsed = parseClientFrame(raw, isBinary);
+      if (!parsed.ok) {
+        rejectInboundFrame(ctx, parsed.code, parsed.msgType, parsed.field);
         return;
       }
       ctx.lastSeenMs = Date.now();
       roomRegistry.heartbeat(ctx.connectionId, ctx.lastSeenMs);
-      void handleMessage(ctx, msg);
+      void handleMessage(ctx, parsed.msg);
     });
 
     socket.on('close', () => {
       const roomCode = ctx.roomId;
       const tgUserId = ctx.tgUserId;
 
-      logWsEvent('ws_player_disconnect', { tgUserId, roomId: roomCode });
+      logWsEvent('ws_player_disconnect', { tgUserId, roomId: roomCode, inboundRejects: ctx.inboundRejects });
+      if (closingForShutdown) {
+        clients.delete(ctx);
+        return;
+      }
+
+      detachSpectator(ctx);
       detachClientFromRoom(ctx, 'disconnect');
       clients.delete(ctx);
 
+      if (![...clients].some((client) => client.tgUserId === tgUserId)) {
+        announcePresence(tgUserId, false);
+        void leaveMatchmaking(tgUserId, 'disconnected').catch((error: unknown) => {
+          logWsEvent('ws_matchmaking_leave_failed', { tgUserId, error: error instanceof Error ? error.message : String(error) });
+        });
+      }
+
     });
   });
 }
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { stepMatch } from '../../src/mp/match';
+import { buildMatchState } from '../../src/mp/matchManager';
+import type { MatchEnemyKind, MoveDir } from '../../src/mp/protocol';
+import { resolveMatchRuleset } from '../../src/mp/ruleset';
+import type { MatchState } from '../../src/mp/types';
+
+// 15x10 arena whose row 1 is open floor from x=1 to x=13.
+function buildEmptyArena(matchId = 'match_golden_o'): MatchState {
+  return buildMatchState(matchId, 'ROOM1', ['p1'], () => 1_700_000_000_000, {
+    ruleset: resolveMatchRuleset({ gridW: 15, gridH: 10, enemyCount: 0 }),
+  });
+}
+
+function addEnemy(match: MatchState, kind: MatchEnemyKind, x: number, y: number, facing: MoveDir): void {
+  const id = `enemy_${match.enemies.size + 1}`;
+  match.enemies.set(id, {
+    id,
+    kind,
+    x,
+    y,
+    facing,
+    alive: true,
+    isMoving: false,
+    moveFromX: x,
+    moveFromY: y,
+    moveToX: x,
+    moveToY: y,
+    moveStartTick: 0,
+    moveDurationTicks: 0,
+    moveStartServerTimeMs: 0,
+  });
+}
+
+function setTile(match: MatchState, x: number, y: number, tile: number): void {
+  match.world.tiles[y * match.world.gridW + x] = tile;
+}
+
+describe('enemy ai kinds', () => {
+  it('chaser heads for the nearest player against its facing', () => {
+    const match = buildEmptyArena();
+    addEnemy(match, 'chaser', 7, 1, 'right');
+
+    stepMatch(match, [], 1);
+
+    const enemy = match.enemies.get('enemy_1')!;
+    assert.equal(enemy.isMoving, true);
+    assert.deepEqual({ x: enemy.moveToX, y: enemy.moveToY }, { x: 6, y: 1 });
+    assert.equal(enemy.facing, 'left');
+  });
+
+  it('wall phaser walks into bricks that box in a normal enemy', () => {
+    const match = buildEmptyArena();
+    addEnemy(match, 'normal', 5, 1, 'left');
+    addEnemy(match, 'wall_phaser', 9, 1, 'left');
+    for (const [x, y] of [[4, 1], [6, 1], [5, 2], [8, 1], [10, 1], [9, 2]]) {
+      setTile(match, x, y, 2);
+    }
+
+    stepMatch(match, [], 1);
+
+    assert.equal(match.enemies.get('enemy_1')!.isMoving, false);
+    const phaser = match.enemies.get('enemy_2')!;
+    assert.equal(phaser.isMoving, true);
+    assert.equal(match.world.tiles[phaser.moveToY * match.world.gridW + phaser.moveToX], 2);
+  });
+
+  it('bomb avoider never steps into a blast line when it has a safe option', () => {
+    for (let seed = 0; seed < 16; seed += 1) {
+      const match = buildEmptyArena(`match_${seed.toString(16)}a0`);
+      for (const [x, y] of [[5, 1], [4, 1], [6, 1], [5, 2]]) {
+        setTile(match, x, y, 0);
+      }
+      addEnemy(match, 'bomb_avoider', 5, 1, 'left');
+      match.bombs.set('bomb_1', {
+        id: 'bomb_1',
+        ownerId: 'p1',
+        x: 3,
+        y: 1,
+        tickPlaced: 0,
+        explodeAtTick: 1000,
+        range: 2,
+        slideDir: null,
+        slideNextTick: 0,
+      });
+
+      stepMatch(match, [], 1);
+
+      const enemy = match.enemies.get('enemy_1')!;
+      assert.equal(enemy.isMoving, true, match.matchId);
+      assert.notDeepEqual({ x: enemy.moveToX, y: enemy.moveToY }, { x: 4, y: 1 }, match.matchId);
+    }
+  });
+});
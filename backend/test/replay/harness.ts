@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+
+import type { MatchInputPayload } from '../../src/mp/protocol';
+import { stepMatch, TICK_RATE_MS, type MatchEvent, type MatchStepResult } from '../../src/mp/match';
+import { buildMatchState, hashWorldTiles } from '../../src/mp/matchManager';
+import { resolveMatchRuleset } from '../../src/mp/ruleset';
+import type { MatchState } from '../../src/mp/types';
+
+const DEFAULT_START_MS = 1_700_000_000_000;
+
+export type ReplayScenario = {
+  description: string;
+  matchId: string;
+  players: string[];
+  ticks: number;
+  startMs?: number;
+  teams?: Record<string, number>;
+  friendlyFire?: boolean;
+  ruleset?: Record<string, unknown>; // same shape the room ruleset endpoint accepts
+  remoteDetonate?: string[]; // players who own the remote detonation boost
+  inputs: Array<{
+    tick: number;
+    tgUserId: string;
+    payload: MatchInputPayload;
+  }>;
+};
+
+export type ReplayResult = {
+  finalTick: number;
+  ended: boolean;
+  worldHash: string;
+  players: Array<{
+    tgUserId: string;
+    x: number;
+    y: number;
+    state: string;
+    lives: number;
+    bombCapacity: number;
+    bombRange: number;
+  }>;
+  events: MatchEvent[];
+};
+
+export const SCENARIOS_DIR = path.join(__dirname, 'scenarios');
+export const GOLDEN_DIR = path.join(__dirname, 'golden');
+
+export function loadScenario(name: string): ReplayScenario {
+  const raw = fs.readFileSync(path.join(SCENARIOS_DIR, `${name}.json`), 'utf8');
+  return JSON.parse(raw) as ReplayScenario;
+}
+
+export function listScenarios(): string[] {
+  return fs.readdirSync(SCENARIOS_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => file.slice(0, -'.json'.length))
+    .sort();
+}
+
+function simulateScenario(scenario: ReplayScenario, onStep: (step: MatchStepResult) => void): MatchState {
+  const startMs = scenario.startMs ?? DEFAULT_START_MS;
+  let currentTick = 0;
+  const match = buildMatchState(scenario.matchId, `room_${scenario.matchId}`, scenario.players, () => startMs + currentTick * TICK_RATE_MS, {
+    teams: scenario.teams ? new Map(Object.entries(scenario.teams)) : null,
+    friendlyFire: scenario.friendlyFire ?? false,
+    ruleset: resolveMatchRuleset(scenario.ruleset),
+    remoteDetonate: new Set(scenario.remoteDetonate ?? []),
+  });
+
+  const seqByUser = new Map<string, number>();
+
+  for (let tick = 1; tick <= scenario.ticks && !match.ended; tick += 1) {
+    currentTick = tick;
+    const inputs = scenario.inputs
+      .filter((input) => input.tick === tick)
+      .map((input) => {
+        const seq = (seqByUser.get(input.tgUserId) ?? 0) + 1;
+        seqByUser.set(input.tgUserId, seq);
+        return { tgUserId: input.tgUserId, seq, payload: input.payload };
+      });
+
+    onStep(stepMatch(match, inputs, tick));
+  }
+
+  return match;
+}
+
+export function runScenario(scenario: ReplayScenario): ReplayResult {
+  const events: MatchEvent[] = [];
+  const match = simulateScenario(scenario, (step) => events.push(...step.events));
+
+  return {
+    finalTick: match.tick,
+    ended: match.ended,
+    worldHash: hashWorldTiles(match.world.tiles),
+    players: Array.from(match.players.values()).map((player) => ({
+      tgUserId: player.tgUserId,
+      x: player.x,
+      y: player.y,
+      state: player.state,
+      lives: match.playerLives.get(player.tgUserId) ?? 0,
+      bombCapacity: player.bombCapacity,
+      bombRange: player.bombRange,
+    })),
+    events,
+  };
+}
+
+// Every step's snapshot and events, for tests of what goes on the wire.
+export function collectScenarioSteps(scenario: ReplayScenario): MatchStepResult[] {
+  const steps: MatchStepResult[] = [];
+  simulateScenario(scenario, (step) => steps.push(step));
+  return steps;
+}
+
+export function goldenPath(name: string): string {
+  return path.join(GOLDEN_DIR, `${name}.golden.json`);
+}
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { MAX_BOMB_REWIND_TICKS, getBombPlacementRejectReason, stepMatch, tryPlaceBomb } from '../../src/mp/match';
+import { buildMatchState } from '../../src/mp/matchManager';
+import type { MatchState } from '../../src/mp/types';
+import { resolveMatchRuleset } from '../../src/mp/ruleset';
+
+// Walks p1 one cell right and returns the cell it left plus the tick it arrived.
+function walkOneCell(): { match: MatchState; from: { x: number; y: number }; arrivedTick: number } {
+  const match = buildMatchState('match_lagcomp', 'ROOM1', ['p1', 'p2'], () => 1_700_000_000_000, {
+    ruleset: resolveMatchRuleset({ preset: 'no_enemies' }),
+  });
+  const player = match.players.get('p1');
+  assert.ok(player);
+  const from = { x: player.x, y: player.y };
+
+  let tick = 1;
+  stepMatch(match, [{ tgUserId: 'p1', seq: 1, payload: { kind: 'move', dir: 'right' } }], tick);
+  stepMatch(match, [{ tgUserId: 'p1', seq: 2, payload: { kind: 'move', dir: null } }], (tick += 1));
+  while (player.x === from.x) {
+    assert.ok(tick < 20, 'player never moved');
+    stepMatch(match, [], (tick += 1));
+  }
+  return { match, from, arrivedTick: tick };
+}
+
+describe('bomb placement lag compensation', () => {
+  it('places on a cell the player just left when the client was behind', () => {
+    const { match, from, arrivedTick } = walkOneCell();
+
+    assert.equal(getBombPlacementRejectReason(match, 'p1', from.x, from.y), 'position_mismatch');
+
+    const spawned = tryPlaceBomb(match, 'p1', from.x, from.y, arrivedTick - 1);
+    assert.ok(spawned);
+    assert.equal(spawned.rewindTicks, 1);
+    assert.deepEqual({ x: spawned.bomb.x, y: spawned.bomb.y }, from);
+  });
+
+  it('leaves rewindTicks off placements at the current cell', () => {
+    const { match } = walkOneCell();
+    const player = match.players.get('p1');
+    assert.ok(player);
+
+    const spawned = tryPlaceBomb(match, 'p1', player.x, player.y, match.tick - 3);
+    assert.ok(spawned);
+    assert.equal('rewindTicks' in spawned, false);
+  });
+
+  it('checks the claimed cell against the claimed tick only', () => {
+    const { match, from, arrivedTick } = walkOneCell();
+    stepMatch(match, [], arrivedTick + 1);
+
+    // At arrivedTick the player had already left; an older cell in the window does not count.
+    assert.equal(getBombPlacementRejectReason(match, 'p1', from.x, from.y, arrivedTick), 'position_mismatch');
+    assert.equal(getBombPlacementRejectReason(match, 'p1', from.x, from.y, arrivedTick - 1), null);
+  });
+
+  it('refuses cells older than the rewind window', () => {
+    const { match, from, arrivedTick } = walkOneCell();
+    for (let tick = arrivedTick + 1; tick <= arrivedTick + MAX_BOMB_REWIND_TICKS; tick += 1) {
+      stepMatch(match, [], tick);
+    }
+
+    assert.equal(getBombPlacementRejectReason(match, 'p1', from.x, from.y, arrivedTick - 1), 'position_mismatch');
+    assert.equal(tryPlaceBomb(match, 'p1', from.x, from.y, match.tick - MAX_BOMB_REWIND_TICKS * 4), null);
+  });
+});
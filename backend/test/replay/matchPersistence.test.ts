@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { buildMatchSnapshot, stepMatch } from '../../src/mp/match';
+import { buildMatchState } from '../../src/mp/matchManager';
+import { PERSISTED_MATCH_VERSION, restoreMatchState, serializeMatchState } from '../../src/mp/matchPersistence';
+import type { PersistedMatch } from '../../src/mp/matchPersistence';
+import { beginReplayRecording, recordReplayInput } from '../../src/mp/replayStore';
+import type { MatchState, QueuedMatchInput } from '../../src/mp/types';
+
+const clock = () => 1_700_000_000_000;
+
+// Through Postgres JSONB and back, as a deploy would.
+function roundTrip(match: MatchState): MatchState {
+  const restored = restoreMatchState(JSON.parse(JSON.stringify(serializeMatchState(match))) as PersistedMatch, clock);
+  assert.ok(restored);
+  return restored;
+}
+
+function playOpening(): MatchState {
+  const match = buildMatchState('match_persist', 'ROOM1', ['p1', 'p2'], clock);
+  const inputs: Array<[number, QueuedMatchInput[]]> = [
+    [1, [{ tgUserId: 'p1', seq: 1, payload: { kind: 'bomb_place', x: 1, y: 1 } }]],
+    [2, [{ tgUserId: 'p1', seq: 2, payload: { kind: 'move', dir: 'right' } }]],
+    [3, [{ tgUserId: 'p2', seq: 1, payload: { kind: 'move', dir: 'down' } }]],
+  ];
+  for (let tick = 1; tick <= 30; tick += 1) {
+    stepMatch(match, inputs.find(([at]) => at === tick)?.[1] ?? [], tick);
+  }
+  return match;
+}
+
+describe('match persistence', () => {
+  it('restores a live match that simulates on exactly like the original', () => {
+    const original = playOpening();
+    assert.ok(original.bombs.size > 0, 'the opening should leave a bomb ticking');
+    const restored = roundTrip(original);
+
+    assert.deepEqual(buildMatchSnapshot(restored), buildMatchSnapshot(original));
+
+    for (let tick = 31; tick <= 120; tick += 1) {
+      const a = stepMatch(original, [], tick);
+      const b = stepMatch(restored, [], tick);
+      assert.deepEqual(b.events, a.events, `events at tick ${tick}`);
+      assert.deepEqual(b.snapshot, a.snapshot, `snapshot at tick ${tick}`);
+    }
+  });
+
+  it('keeps the never-hit sentinel and disconnect times', () => {
+    const match = playOpening();
+    match.players.get('p2')!.lastEnemyHitTick = Number.NEGATIVE_INFINITY;
+    match.disconnectedPlayers.add('p2');
+    match.disconnectedAtMsByUserId.set('p2', 1_699_999_999_000);
+    const restored = roundTrip(match);
+
+    assert.equal(restored.players.get('p2')?.lastEnemyHitTick, Number.NEGATIVE_INFINITY);
+    assert.deepEqual([...restored.disconnectedPlayers], ['p2']);
+    assert.equal(restored.disconnectedAtMsByUserId.get('p2'), 1_699_999_999_000);
+    assert.equal(restored.replay, null);
+    assert.deepEqual(restored.inputQueue, []);
+  });
+
+  it('carries the replay recording over, minus inputs still waiting in the queue', () => {
+    const match = playOpening();
+    beginReplayRecording(match);
+    recordReplayInput(match, 'p1', 3, { kind: 'bomb_place', x: 2, y: 1 });
+    recordReplayInput(match, 'p2', 2, { kind: 'move', dir: 'up' });
+    match.inputQueue.push({ tgUserId: 'p2', seq: 2, payload: { kind: 'move', dir: 'up' } });
+    const restored = roundTrip(match);
+
+    assert.deepEqual(restored.replay?.entries, [[30, 0, 3, 'b', 2, 1]]);
+    assert.equal(restored.replay?.matchId, 'match_persist');
+  });
+
+  it('refuses payloads from another format version', () => {
+    const persisted = { ...serializeMatchState(playOpening()), version: PERSISTED_MATCH_VERSION + 1 } as unknown as PersistedMatch;
+    assert.equal(restoreMatchState(persisted, clock), null);
+  });
+});
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { getPlayerMatchStats, stepMatch } from '../../src/mp/match';
+import { buildMatchState } from '../../src/mp/matchManager';
+import type { MatchEvent } from '../../src/mp/match';
+import type { MatchState } from '../../src/mp/types';
+
+const clock = () => 1_700_000_000_000;
+
+function runTicks(match: MatchState, from: number, to: number, atStart: MatchEvent[] = []): MatchEvent[] {
+  const events = [...atStart];
+  for (let tick = from; tick <= to; tick += 1) {
+    events.push(...stepMatch(match, [], tick).events);
+  }
+  return events;
+}
+
+describe('match stats', () => {
+  it('credits the bomb owner with tiles and the lives it takes', () => {
+    const match = buildMatchState('match_stats', 'ROOM1', ['p1', 'p2'], clock);
+    match.enemies.clear();
+    const first = stepMatch(match, [{ tgUserId: 'p1', seq: 1, payload: { kind: 'bomb_place', x: 1, y: 1 } }], 1);
+
+    // Park p2 in the blast and p1 out of it.
+    const p1 = match.players.get('p1')!;
+    const p2 = match.players.get('p2')!;
+    Object.assign(p2, { x: 2, y: 1, invulnUntilTick: 0 });
+    Object.assign(p1, { x: 5, y: 5, invulnUntilTick: 0 });
+
+    const events = runTicks(match, 2, match.ruleset.bombFuseTicks + 2, first.events);
+    const tilesDestroyed = events
+      .filter((event) => event.type === 'match:tiles_destroyed')
+      .reduce((sum, event) => sum + (event.type === 'match:tiles_destroyed' ? event.tiles.length : 0), 0);
+
+    const hit = events.find((event) => event.type === 'match:player_damaged' && event.tgUserId === 'p2');
+    assert.deepEqual(hit?.type === 'match:player_damaged' ? hit.source : null, { kind: 'bomb', tgUserId: 'p1' });
+    assert.equal(getPlayerMatchStats(match, 'p1').bombsPlaced, 1);
+    assert.equal(getPlayerMatchStats(match, 'p1').tilesDestroyed, tilesDestroyed);
+    assert.equal(getPlayerMatchStats(match, 'p1').kills, 1);
+    assert.equal(getPlayerMatchStats(match, 'p1').deathsByExplosion, 0);
+    assert.equal(getPlayerMatchStats(match, 'p2').deathsByExplosion, 1);
+    assert.equal(getPlayerMatchStats(match, 'p2').kills, 0);
+  });
+
+  it('counts blowing yourself up as a death, not a kill', () => {
+    const match = buildMatchState('match_stats_self', 'ROOM1', ['p1', 'p2'], clock);
+    match.enemies.clear();
+    stepMatch(match, [{ tgUserId: 'p1', seq: 1, payload: { kind: 'bomb_place', x: 1, y: 1 } }], 1);
+    match.players.get('p1')!.invulnUntilTick = 0;
+
+    runTicks(match, 2, match.ruleset.bombFuseTicks + 2);
+
+    assert.equal(getPlayerMatchStats(match, 'p1').deathsByExplosion, 1);
+    assert.equal(getPlayerMatchStats(match, 'p1').kills, 0);
+    assert.equal(getPlayerMatchStats(match, 'p1').eliminatedAtTick, null);
+  });
+});
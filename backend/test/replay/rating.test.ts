@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { balanceTeams, DEFAULT_DEVIATION, DEFAULT_RATING, placementsFromEnd, rateMatch } from '../../src/mp/rating';
+import type { RatedPlayer } from '../../src/mp/rating';
+
+function newcomer(tgUserId: string, placement: number, team: number | null = null): RatedPlayer {
+  return { tgUserId, team, placement, rating: DEFAULT_RATING, deviation: DEFAULT_DEVIATION, idleMs: 0 };
+}
+
+describe('ratings', () => {
+  it('moves the winner up, the loser down and both towards certainty', () => {
+    const next = rateMatch([newcomer('a', 1), newcomer('b', 2)]);
+    const a = next.get('a')!;
+    const b = next.get('b')!;
+
+    assert.ok(a.rating > DEFAULT_RATING);
+    assert.ok(b.rating < DEFAULT_RATING);
+    assert.ok(Math.abs(a.rating - DEFAULT_RATING - (DEFAULT_RATING - b.rating)) < 1e-9);
+    assert.ok(a.deviation < DEFAULT_DEVIATION);
+  });
+
+  it('moves settled ratings less than new ones and lets idle deviation drift back', () => {
+    const settled = rateMatch([
+      { ...newcomer('a', 1), deviation: 60 },
+      { ...newcomer('b', 2), deviation: 60 },
+    ]);
+    const fresh = rateMatch([newcomer('a', 1), newcomer('b', 2)]);
+    assert.ok(settled.get('a')!.rating - DEFAULT_RATING < fresh.get('a')!.rating - DEFAULT_RATING);
+
+    const returning = rateMatch([
+      { ...newcomer('a', 1), deviation: 60, idleMs: 60 * 24 * 60 * 60 * 1000 },
+      { ...newcomer('b', 2), deviation: 60 },
+    ]);
+    assert.ok(returning.get('a')!.rating > settled.get('a')!.rating);
+  });
+
+  it('leaves a draw between equals unchanged and never rates teammates against each other', () => {
+    const draw = rateMatch([newcomer('a', 1), newcomer('b', 1)]);
+    assert.equal(draw.get('a')!.rating, DEFAULT_RATING);
+
+    const teams = rateMatch([newcomer('a', 1, 0), newcomer('b', 1, 0), newcomer('c', 2, 1), newcomer('d', 2, 1)]);
+    assert.equal(teams.get('a')!.rating, teams.get('b')!.rating);
+    assert.ok(teams.get('a')!.rating > DEFAULT_RATING);
+    assert.ok(teams.get('c')!.rating < DEFAULT_RATING);
+  });
+
+  it('places free-for-all players by elimination order and teams by the winning side', () => {
+    const ffa = placementsFromEnd({}, [
+      { tgUserId: 'a', team: null },
+      { tgUserId: 'b', team: null },
+      { tgUserId: 'c', team: null },
+    ], new Map([['b', 10], ['a', 20]]));
+    assert.deepEqual(Object.fromEntries(ffa), { a: 2, b: 3, c: 1 });
+
+    const teams = placementsFromEnd({ winnerTeam: 1 }, [
+      { tgUserId: 'a', team: 0 },
+      { tgUserId: 'b', team: 1 },
+    ], new Map([['a', 40]]));
+    assert.deepEqual(Object.fromEntries(teams), { a: 2, b: 1 });
+  });
+
+  it('shares a placement between players eliminated on the same tick', () => {
+    const players = [
+      { tgUserId: 'a', team: null },
+      { tgUserId: 'b', team: null },
+      { tgUserId: 'c', team: null },
+    ];
+
+    // A mutual kill ends the match in a draw: neither side outlasted the other.
+    const draw = placementsFromEnd({}, players, new Map([['c', 12], ['b', 30], ['a', 30]]));
+    assert.deepEqual(Object.fromEntries(draw), { a: 1, b: 1, c: 3 });
+    const rated = rateMatch(players.map((player) => newcomer(player.tgUserId, draw.get(player.tgUserId)!)));
+    assert.equal(rated.get('a')!.rating, rated.get('b')!.rating);
+
+    const survivor = placementsFromEnd({}, players, new Map([['b', 30], ['a', 30]]));
+    assert.deepEqual(Object.fromEntries(survivor), { a: 2, b: 2, c: 1 });
+  });
+
+  it('balances teams by rating total', () => {
+    const teams = balanceTeams([
+      { tgUserId: 'a', rating: 2000 },
+      { tgUserId: 'b', rating: 1900 },
+      { tgUserId: 'c', rating: 1500 },
+      { tgUserId: 'd', rating: 1400 },
+    ]);
+    assert.equal(teams.get('a'), teams.get('d'));
+    assert.equal(teams.get('b'), teams.get('c'));
+    assert.notEqual(teams.get('a'), teams.get('b'));
+
+    const trio = balanceTeams([
+      { tgUserId: 'a', rating: 2000 },
+      { tgUserId: 'b', rating: 1500 },
+      { tgUserId: 'c', rating: 1500 },
+    ]);
+    assert.deepEqual([...trio.values()].sort(), [0, 1, 1]);
+    assert.equal(trio.get('a'), 0);
+  });
+});
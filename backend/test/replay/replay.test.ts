@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { describe, it } from 'node:test';
+
+import { goldenPath, listScenarios, loadScenario, runScenario } from './harness';
+
+// Regenerate after an intended rule change with:
+//   UPDATE_GOLDEN=1 npm test
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+describe('match replay goldens', () => {
+  for (const name of listScenarios()) {
+    it(name, () => {
+      const scenario = loadScenario(name);
+      const result = JSON.parse(JSON.stringify(runScenario(scenario)));
+      const file = goldenPath(name);
+
+      if (UPDATE_GOLDEN) {
+        fs.writeFileSync(file, `${JSON.stringify(result, null, 2)}\n`);
+        return;
+      }
+
+      assert.ok(fs.existsSync(file), `missing golden ${file}; run with UPDATE_GOLDEN=1`);
+      const golden = JSON.parse(fs.readFileSync(file, 'utf8'));
+      assert.equal(result.worldHash, golden.worldHash, 'worldHash');
+      assert.deepEqual(result.players, golden.players, 'players');
+      assert.deepEqual(result.events, golden.events, 'events');
+      assert.deepEqual(result, golden);
+    });
+  }
+
+  it('is deterministic across runs', () => {
+    for (const name of listScenarios()) {
+      const scenario = loadScenario(name);
+      assert.deepEqual(runScenario(scenario), runScenario(scenario), name);
+    }
+  });
+});
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import zlib from 'zlib';
+
+import { stepMatch, tryPlaceBomb } from '../../src/mp/match';
+import { buildMatchState } from '../../src/mp/matchManager';
+import type { MatchEnd } from '../../src/mp/protocol';
+import { beginReplayRecording, buildReplayFromFile, finishReplayRecording, parseReplayData, recordReplayInput } from '../../src/mp/replayStore';
+import { loadScenario } from './harness';
+
+describe('replay recording', () => {
+  it('re-simulates a recorded match to the same end state', async () => {
+    // Same script as the golden scenario, but driven the way wsServer does:
+    // moves are queued for the next step, bombs are placed between steps.
+    const scenario = loadScenario('self_blast_elimination');
+    let nowMs = 1_700_000_000_000;
+    const match = buildMatchState('match_0a1b2c', 'ROOM1', scenario.players, () => nowMs);
+    beginReplayRecording(match);
+
+    let end: MatchEnd | null = null;
+    let seq = 0;
+    while (!end && match.tick < scenario.ticks) {
+      for (const input of scenario.inputs.filter((entry) => entry.tick === match.tick)) {
+        seq += 1;
+        if (input.payload.kind === 'bomb_place') {
+          assert.ok(tryPlaceBomb(match, input.tgUserId, input.payload.x, input.payload.y));
+        } else {
+          match.inputQueue.push({ tgUserId: input.tgUserId, seq, payload: input.payload });
+        }
+        recordReplayInput(match, input.tgUserId, seq, input.payload);
+      }
+
+      nowMs += 50;
+      const inputs = match.inputQueue;
+      match.inputQueue = [];
+      const { events } = stepMatch(match, inputs, match.tick + 1);
+      end = (events.find((event) => event.type === 'match:end') as MatchEnd | undefined) ?? null;
+    }
+
+    assert.ok(end, 'scripted match should end');
+    const data = await finishReplayRecording(match, end);
+    assert.ok(data);
+    assert.equal(match.replay, null);
+
+    const file = await parseReplayData(data);
+    assert.ok(file);
+    const replay = buildReplayFromFile(file);
+
+    assert.equal(replay.verified, true);
+    assert.equal(replay.endTick, end.tick);
+    assert.equal(replay.frames.length, end.tick + 1);
+    const damagedCount = replay.frames
+      .flatMap((frame) => frame.events)
+      .filter((event) => event.type === 'match:player_damaged').length;
+    assert.equal(damagedCount, 3);
+    assert.equal(await finishReplayRecording(match, end), null);
+    assert.equal(await parseReplayData(zlib.gzipSync(JSON.stringify({ ...file, version: 'replay_v0' }))), null);
+  });
+});
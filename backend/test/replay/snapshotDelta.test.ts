@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { stepMatch } from '../../src/mp/match';
+import { buildMatchState, hashWorldTiles } from '../../src/mp/matchManager';
+import type { MatchSnapshot } from '../../src/mp/protocol';
+import { resolveMatchRuleset } from '../../src/mp/ruleset';
+import { applyMatchSnapshotDelta, diffMatchSnapshots } from '../../src/mp/snapshotDelta';
+import { collectScenarioSteps, loadScenario } from './harness';
+
+function collectSnapshots(name: string): MatchSnapshot[] {
+  return collectScenarioSteps(loadScenario(name)).map((step) => step.snapshot);
+}
+
+describe('snapshot deltas', () => {
+  it('rebuild every snapshot from the previous one and from older baselines', () => {
+    // Kicked and chained bombs, then patrolling enemies and broken bricks.
+    const snapshots = [...collectSnapshots('kick_into_chain'), ...collectSnapshots('idle_enemy_patrol')];
+    for (let i = 1; i < snapshots.length; i += 1) {
+      for (const gap of [1, 5, 20]) {
+        const base = snapshots[i - gap];
+        if (!base || base.matchId !== snapshots[i].matchId || base.tick >= snapshots[i].tick) continue;
+        const delta = diffMatchSnapshots(base, snapshots[i], 'fnv1a_00000000');
+        assert.deepEqual(applyMatchSnapshotDelta(base, delta), snapshots[i], `tick ${snapshots[i].tick} from ${base.tick}`);
+      }
+    }
+  });
+
+  it('carries no entity sections while nothing changes', () => {
+    const match = buildMatchState('match_idle', 'ROOM1', ['p1', 'p2'], () => 1_700_000_000_000, {
+      ruleset: resolveMatchRuleset({ preset: 'no_enemies' }),
+    });
+    const first = stepMatch(match, [], 1).snapshot;
+    const second = stepMatch(match, [], 2).snapshot;
+
+    const delta = diffMatchSnapshots(first, second, hashWorldTiles(match.world.tiles));
+    assert.equal(delta.baseTick, 1);
+    assert.equal(delta.tick, 2);
+    assert.equal(delta.players, undefined);
+    assert.equal(delta.enemies, undefined);
+    assert.equal(delta.bombs, undefined);
+    assert.equal(delta.items, undefined);
+  });
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { MatchClientMessage } from '../../src/mp/protocol';
+import { MAX_INBOUND_FRAME_BYTES, isClientMessage, parseClientFrame } from '../../src/ws/clientMessages';
+import type { ClientMessage } from '../../src/ws/clientMessages';
+import { encodeClientFrame } from '../../src/ws/wireCodec';
+
+function parseJson(value: unknown) {
+  return parseClientFrame(Buffer.from(JSON.stringify(value)), false);
+}
+
+describe('inbound client message validation', () => {
+  it('accepts every variant the client sends', () => {
+    const messages: ClientMessage[] = [
+      { type: 'hello', protocolVersions: ['match_v1'], buildId: 'dev' },
+      { type: 'ping', id: 3, t: 1_700_000_000_000.5 },
+      { type: 'room:join', roomId: 'ABCD', tgUserId: '42' },
+      { type: 'room:spectate', roomId: 'ABCD' },
+      { type: 'room:leave' },
+      { type: 'match:start' },
+      { type: 'match:input', seq: 1, payload: { kind: 'move', dir: null } },
+      { type: 'match:input', seq: 2, payload: { kind: 'bomb_place', x: 3, y: 5 } },
+      { type: 'match:input', seq: 3, payload: { kind: 'detonate' } },
+      { type: 'match:bomb_place', payload: { x: 3.25, y: 5 } },
+      { type: 'mp:presence_heartbeat' },
+      { type: 'mp:rejoin_ready', roomCode: 'ABCD', matchId: 'm1', rejoinAttemptId: 'r1' },
+      { type: 'mp:snapshot_applied', matchId: 'm1', tick: 40 },
+      { type: 'mp:snapshot_resync', matchId: 'm1', reason: 'missing_base' },
+      { type: 'room:restart_propose' },
+      { type: 'room:restart_vote', vote: 'no' },
+    ];
+
+    for (const msg of messages) {
+      assert.deepEqual(parseJson(msg), { ok: true, msg }, msg.type);
+      assert.ok(isClientMessage(msg), msg.type);
+    }
+  });
+
+  it('validates negotiated binary frames the same way', () => {
+    const input: MatchClientMessage = { type: 'match:input', seq: 7, payload: { kind: 'bomb_place', x: 1, y: 2 } };
+    const frame = encodeClientFrame(input);
+    assert.ok(frame);
+
+    assert.deepEqual(parseClientFrame(Buffer.from(frame), true), { ok: true, msg: input });
+    assert.deepEqual(parseClientFrame(Buffer.from(frame.subarray(1)), true), { ok: false, code: 'malformed_frame' });
+  });
+
+  it('names the first field that does not fit', () => {
+    const cases: Array<[unknown, string]> = [
+      [{ type: 'match:input', seq: 0, payload: { kind: 'detonate' } }, 'seq'],
+      [{ type: 'match:input', seq: 1, payload: { kind: 'move', dir: 'north' } }, 'payload.dir'],
+      [{ type: 'match:input', seq: 1, payload: { kind: 'teleport' } }, 'payload.kind'],
+      [{ type: 'match:input', seq: 1, payload: { kind: 'bomb_place', x: 1.5, y: 2 } }, 'payload.x'],
+      [{ type: 'match:input', seq: 1, payload: { kind: 'detonate', force: true } }, 'payload.force'],
+      [{ type: 'room:join', roomId: '' }, 'roomId'],
+      [{ type: 'room:leave', roomId: 'ABCD' }, 'roomId'],
+      [{ type: 'ping', id: '1', t: 0 }, 'id'],
+      [{ type: 'hello', protocolVersions: ['match_v1', 7], buildId: 'dev' }, 'protocolVersions[1]'],
+    ];
+
+    for (const [value, field] of cases) {
+      const msgType = (value as { type: string }).type;
+      assert.deepEqual(parseJson(value), { ok: false, code: 'invalid_field', msgType, field }, JSON.stringify(value));
+      assert.equal(isClientMessage(value), false);
+    }
+  });
+
+  it('rejects unknown types, non-objects and oversized frames', () => {
+    assert.deepEqual(parseJson({ type: 'admin:grant' }), { ok: false, code: 'unknown_type', msgType: 'admin:grant' });
+    assert.deepEqual(parseJson({ type: 'toString' }), { ok: false, code: 'unknown_type', msgType: 'toString' });
+    assert.deepEqual(parseJson({ roomId: 'ABCD' }), { ok: false, code: 'unknown_type', msgType: undefined });
+    assert.deepEqual(parseJson([{ type: 'ping' }]), { ok: false, code: 'malformed_frame' });
+    assert.deepEqual(parseClientFrame(Buffer.from('{"type":'), false), { ok: false, code: 'malformed_frame' });
+
+    const padded = { type: 'room:join', roomId: 'ABCD', tgUserId: 'x'.repeat(MAX_INBOUND_FRAME_BYTES) };
+    assert.deepEqual(parseJson(padded), { ok: false, code: 'frame_too_large' });
+  });
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { MAX_BOMB_REWIND_TICKS, MOVE_DURATION_TICKS } from '../../src/mp/match';
+import {
+  BOMB_PLACE_RATE_LIMIT,
+  BOMB_REWIND_JITTER_TICKS,
+  INCIDENT_COOLDOWN_MS,
+  MAX_MOVES_PER_MOVE_WINDOW,
+  MAX_STRIKES,
+  createInputGuardState,
+  isBombPlacementFar,
+  noteMoveInput,
+  resolveBombRewindTick,
+  shouldKick,
+  strike,
+  takeToken,
+} from '../../src/ws/inputGuard';
+
+describe('input guard', () => {
+  it('allows a burst, then refills at the configured rate', () => {
+    const state = createInputGuardState(0);
+    for (let i = 0; i < BOMB_PLACE_RATE_LIMIT.burst; i += 1) {
+      assert.ok(takeToken(state.bombBucket, BOMB_PLACE_RATE_LIMIT, 0), `burst ${i}`);
+    }
+    assert.equal(takeToken(state.bombBucket, BOMB_PLACE_RATE_LIMIT, 0), false);
+
+    const oneTokenMs = 1000 / BOMB_PLACE_RATE_LIMIT.perSec;
+    assert.equal(takeToken(state.bombBucket, BOMB_PLACE_RATE_LIMIT, oneTokenMs - 1), false);
+    assert.ok(takeToken(state.bombBucket, BOMB_PLACE_RATE_LIMIT, oneTokenMs * 2));
+  });
+
+  it('flags more direction changes than one move window can use', () => {
+    const state = createInputGuardState(0);
+    for (let i = 0; i < MAX_MOVES_PER_MOVE_WINDOW; i += 1) {
+      assert.equal(noteMoveInput(state, 10), false);
+    }
+    assert.equal(noteMoveInput(state, 10 + MOVE_DURATION_TICKS - 1), true);
+    assert.equal(noteMoveInput(state, 10 + MOVE_DURATION_TICKS), false);
+  });
+
+  it('tolerates interpolated bomb positions near the player', () => {
+    assert.equal(isBombPlacementFar({ x: 4.5, y: 3 }, { x: 4, y: 3 }), false);
+    assert.equal(isBombPlacementFar({ x: 5, y: 4 }, { x: 4, y: 3 }), false);
+    assert.equal(isBombPlacementFar({ x: 9, y: 3 }, { x: 4, y: 3 }), true);
+  });
+
+  it('holds the claimed bomb tick to what the client has acked', () => {
+    // A 3-tick link claiming the full rewind window only gets its measured lag plus jitter.
+    assert.equal(resolveBombRewindTick({ serverTick: 100, clientTick: 100 - MAX_BOMB_REWIND_TICKS, ackedTick: 90, ackLagTicks: 3 }), 100 - 3 - BOMB_REWIND_JITTER_TICKS);
+    // Nothing older than a tick the client already confirmed applying.
+    assert.equal(resolveBombRewindTick({ serverTick: 100, clientTick: 94, ackedTick: 97, ackLagTicks: 6 }), 97);
+    assert.equal(resolveBombRewindTick({ serverTick: 100, clientTick: 98, ackedTick: 95, ackLagTicks: 3 }), 98);
+    // No acks yet, or a claim from the future: current cell only.
+    assert.equal(resolveBombRewindTick({ serverTick: 100, clientTick: 98, ackedTick: null, ackLagTicks: null }), null);
+    assert.equal(resolveBombRewindTick({ serverTick: 100, clientTick: 120, ackedTick: 95, ackLagTicks: 3 }), null);
+  });
+
+  it('counts one strike per kind per cooldown and kicks after the limit', () => {
+    const state = createInputGuardState(0);
+    assert.ok(strike(state, 'input_flood', 0));
+    assert.equal(strike(state, 'input_flood', INCIDENT_COOLDOWN_MS - 1), false);
+    assert.ok(strike(state, 'bomb_far', 1));
+
+    let now = INCIDENT_COOLDOWN_MS;
+    while (state.strikes < MAX_STRIKES) {
+      assert.equal(shouldKick(state), false);
+      assert.ok(strike(state, 'input_flood', now));
+      now += INCIDENT_COOLDOWN_MS;
+    }
+    assert.ok(shouldKick(state));
+  });
+});
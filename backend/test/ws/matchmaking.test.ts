@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { formMatchGroups, ratingWindow } from '../../src/ws/matchmaking';
+import type { QueueTicket } from '../../src/ws/matchmaking';
+
+const NOW = 1_700_000_000_000;
+
+function ticket(tgUserId: string, rating: number, waitedSec: number, mode: QueueTicket['mode'] = 2): QueueTicket {
+  return { tgUserId, mode, rating, enqueuedAtMs: NOW - waitedSec * 1000 };
+}
+
+function ids(groups: QueueTicket[][]): string[][] {
+  return groups.map((group) => group.map((entry) => entry.tgUserId));
+}
+
+describe('matchmaking', () => {
+  it('widens the rating window with waiting time up to a cap', () => {
+    assert.ok(ratingWindow(0) < ratingWindow(10_000));
+    assert.ok(ratingWindow(10_000) < ratingWindow(30_000));
+    assert.equal(ratingWindow(10 * 60_000), ratingWindow(60 * 60_000));
+  });
+
+  it('pairs close ratings at once and leaves distant ones queued', () => {
+    const groups = formMatchGroups([ticket('a', 1500, 0), ticket('b', 1540, 0), ticket('c', 1900, 0)], NOW);
+    assert.deepEqual(ids(groups), [['a', 'b']]);
+  });
+
+  it('pairs distant ratings once both have waited long enough', () => {
+    const fresh = formMatchGroups([ticket('a', 1500, 60), ticket('b', 1900, 0)], NOW);
+    assert.deepEqual(ids(fresh), [], 'the newcomer window still excludes the gap');
+
+    const later = formMatchGroups([ticket('a', 1500, 60), ticket('b', 1900, 40)], NOW);
+    assert.deepEqual(ids(later), [['a', 'b']]);
+  });
+
+  it('fills groups by mode and lets the longest waiter pick the closest ratings', () => {
+    const groups = formMatchGroups([
+      ticket('a', 1500, 30, 3),
+      ticket('b', 1800, 20, 3),
+      ticket('c', 1520, 5, 3),
+      ticket('d', 1510, 1, 3),
+      ticket('e', 1505, 50, 2),
+    ], NOW);
+    assert.deepEqual(ids(groups), [['a', 'd', 'c']]);
+  });
+});
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { resolveSpectatorAccess } from '../../src/ws/spectatorAccess';
+
+const room = {
+  memberIds: ['host', 'guest'],
+  viewerFriendIds: new Set<string>(),
+  eliminatedIds: new Set<string>(),
+};
+
+describe('spectator access', () => {
+  it('rejects a stranger who only knows the room code', async () => {
+    let entryChecked = false;
+    const grant = await resolveSpectatorAccess({
+      ...room,
+      viewerTgUserId: 'stranger',
+      hasEntry: async () => {
+        entryChecked = true;
+        return false;
+      },
+    });
+    assert.equal(grant, null);
+    assert.ok(entryChecked);
+  });
+
+  it('admits friends of members and eliminated players without a password', async () => {
+    const noEntry = async (): Promise<boolean> => assert.fail('entry should not be checked');
+
+    assert.equal(await resolveSpectatorAccess({ ...room, viewerTgUserId: 'pal', viewerFriendIds: new Set(['guest']), hasEntry: noEntry }), 'friend');
+    assert.equal(await resolveSpectatorAccess({ ...room, viewerTgUserId: 'guest', eliminatedIds: new Set(['guest']), hasEntry: noEntry }), 'eliminated');
+  });
+
+  it('admits anyone with a valid password or invite', async () => {
+    assert.equal(await resolveSpectatorAccess({ ...room, viewerTgUserId: 'stranger', hasEntry: async () => true }), 'entry');
+  });
+});
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { MatchClientMessage, MatchServerMessage } from '../../src/mp/protocol';
+import { diffMatchSnapshots } from '../../src/mp/snapshotDelta';
+import { decodeClientFrame, decodeServerFrame, encodeClientFrame, encodeServerFrame } from '../../src/ws/wireCodec';
+import { collectScenarioSteps, loadScenario } from '../replay/harness';
+
+// What the client gets from the JSON path: undefined fields are dropped.
+function viaJson<T>(msg: T): T {
+  return JSON.parse(JSON.stringify(msg)) as T;
+}
+
+function collectServerMessages(name: string): MatchServerMessage[] {
+  const messages: MatchServerMessage[] = [];
+  let previous: MatchServerMessage | null = null;
+  for (const step of collectScenarioSteps(loadScenario(name))) {
+    messages.push(...step.events);
+    const snapshot: MatchServerMessage = { type: 'match:snapshot', snapshot: step.snapshot };
+    if (previous?.type === 'match:snapshot') {
+      messages.push({ type: 'match:snapshot_delta', delta: diffMatchSnapshots(previous.snapshot, step.snapshot, 'fnv1a_0badf00d') });
+    }
+    messages.push(snapshot);
+    previous = snapshot;
+  }
+  return messages;
+}
+
+describe('binary wire codec', () => {
+  it('decodes hot server messages to the same values as JSON', () => {
+    const messages = [
+      ...collectServerMessages('kick_into_chain'),
+      ...collectServerMessages('remote_detonate_early'),
+      ...collectServerMessages('idle_enemy_patrol'),
+    ];
+    const binaryTypes = new Set<string>();
+
+    for (const msg of messages) {
+      const frame = encodeServerFrame(msg);
+      if (!frame) continue;
+      binaryTypes.add(msg.type);
+      assert.deepEqual(decodeServerFrame(frame), viaJson(msg), msg.type);
+    }
+
+    assert.deepEqual([...binaryTypes].sort(), [
+      'match:bomb_chained',
+      'match:bomb_exploded',
+      'match:bomb_kicked',
+      'match:bomb_spawned',
+      'match:bomb_stopped',
+      'match:snapshot',
+      'match:snapshot_delta',
+    ]);
+  });
+
+  it('decodes every match:input payload to the same values as JSON', () => {
+    const inputs: MatchClientMessage[] = [
+      { type: 'match:input', seq: 1, payload: { kind: 'move', dir: 'left' } },
+      { type: 'match:input', seq: 2, payload: { kind: 'move', dir: null } },
+      { type: 'match:input', seq: 3, payload: { kind: 'bomb_place', x: 4, y: 7 } },
+      { type: 'match:input', seq: 4_000_000_000, payload: { kind: 'detonate' } },
+    ];
+
+    for (const msg of inputs) {
+      const frame = encodeClientFrame(msg);
+      assert.ok(frame);
+      assert.deepEqual(decodeClientFrame(frame), viaJson(msg));
+    }
+  });
+
+  it('leaves control messages and values that do not fit to JSON', () => {
+    const unencodable = [
+      { type: 'mp:presence_heartbeat' },
+      { type: 'match:input', seq: 1.5, payload: { kind: 'detonate' } },
+      { type: 'match:input', seq: -1, payload: { kind: 'detonate' } },
+      { type: 'match:input', seq: 1, payload: { kind: 'move', dir: 'north' } },
+      { type: 'match:input', seq: 1, payload: { kind: 'detonate', extra: true } },
+    ];
+
+    assert.equal(encodeServerFrame({ type: 'match:started' }), null);
+    for (const msg of unencodable) {
+      assert.equal(encodeClientFrame(msg), null, JSON.stringify(msg));
+    }
+  });
+
+  it('rejects truncated, padded and unknown frames', () => {
+    const input: MatchClientMessage = { type: 'match:input', seq: 9, payload: { kind: 'bomb_place', x: 1, y: 1 } };
+    const frame = encodeClientFrame(input);
+    assert.ok(frame);
+
+    assert.equal(decodeClientFrame(frame.subarray(0, frame.length - 1)), null);
+    assert.equal(decodeClientFrame(new Uint8Array([...frame, 0])), null);
+    assert.equal(decodeClientFrame(new Uint8Array([200, ...frame.subarray(1)])), null);
+    assert.equal(decodeClientFrame(new Uint8Array()), null);
+  });
+});
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+
+import { resolveWsIdentity } from '../../src/ws/wsAuth';
+
+const originalNodeEnv = process.env.NODE_ENV;
+
+function upgrade(path: string) {
+  return { url: path, headers: {} };
+}
+
+describe('WebSocket upgrade identity', () => {
+  afterEach(() => {
+    process.env.NODE_ENV = originalNodeEnv;
+  });
+
+  it('accepts dev identities without a session outside production', async () => {
+    process.env.NODE_ENV = 'development';
+
+    assert.deepEqual(await resolveWsIdentity(upgrade('/ws?tgUserId=dev:2')), { tgUserId: 'dev:2', via: 'dev_bypass' });
+    assert.deepEqual(await resolveWsIdentity(upgrade('/ws?tgUserId=dev:6f1c2a9e-0b7d-4e1a-9c3f-2d5e8a7b1c00')), {
+      tgUserId: 'dev:6f1c2a9e-0b7d-4e1a-9c3f-2d5e8a7b1c00',
+      via: 'dev_bypass',
+    });
+  });
+
+  it('refuses claimed identities that did not come from a session', async () => {
+    process.env.NODE_ENV = 'development';
+    assert.equal(await resolveWsIdentity(upgrade('/ws')), null);
+    assert.equal(await resolveWsIdentity(upgrade('/ws?tgUserId=123456789')), null);
+    assert.equal(await resolveWsIdentity(upgrade('/ws?tgUserId=dev:a%20b')), null);
+
+    process.env.NODE_ENV = 'production';
+    assert.equal(await resolveWsIdentity(upgrade('/ws?tgUserId=dev:2')), null);
+  });
+});
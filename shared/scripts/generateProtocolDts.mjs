@@ -0,0 +1,24 @@
+// Writes shared/src/protocol.d.ts from protocol.ts, the one source of the wire
+// types. The backend compiles against the .d.ts (its rootDir can't take .ts
+// files from outside), the client imports protocol.ts directly.
+// `--check` fails instead of writing when the .d.ts is stale.
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const srcDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'src');
+const sourcePath = path.join(srcDir, 'protocol.ts');
+const outputPath = path.join(srcDir, 'protocol.d.ts');
+
+const source = fs.readFileSync(sourcePath, 'utf8');
+const generated = `// Generated from protocol.ts by \`npm run gen:protocol\`. Do not edit.\n\n${source}`;
+
+if (process.argv.includes('--check')) {
+  const current = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, 'utf8') : '';
+  if (current !== generated) {
+    console.error('shared/src/protocol.d.ts is out of date; run `npm run gen:protocol`.');
+    process.exit(1);
+  }
+} else {
+  fs.writeFileSync(outputPath, generated);
+}
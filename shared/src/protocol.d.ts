@@ -1,22 +1,55 @@
+// Generated from protocol.ts by `npm run gen:protocol`. Do not edit.
+
 export type ProtocolVersion = 'match_v1';
 
+// First message on every connection, sent before anything else. Versions are
+// plain strings because a newer client may list ones this server never heard of.
+export type ClientHello = { type: 'hello'; protocolVersions: string[]; buildId: string };
+
+// The version both sides will speak. With no shared version the server answers
+// `match:error` `client_outdated` instead and ignores everything but pings.
+export type ServerHello = { type: 'hello'; protocolVersion: ProtocolVersion; buildId: string };
+
+// Requested with the `wire` query parameter when connecting and confirmed in
+// `connected`. `binary_v1` frames the hot match messages; the rest stays JSON.
+export type WireFormat = 'json' | 'binary_v1';
+
 export type MoveDir = 'up' | 'down' | 'left' | 'right';
 export type MoveIntentDir = MoveDir | null;
 
 export type MatchInputPayload =
   | { kind: 'move'; dir: MoveIntentDir }
-  | { kind: 'bomb_place'; x: number; y: number };
+  | { kind: 'bomb_place'; x: number; y: number }
+  | { kind: 'detonate' }; // sets off the sender's oldest bomb
 
 export type MatchClientMessage =
   | { type: 'match:start' }
   | { type: 'match:input'; seq: number; payload: MatchInputPayload }
-  | { type: 'match:bomb_place'; payload: { x: number; y: number } }
+  // `tick` is the newest snapshot the client had applied; the server may rewind to it.
+  | { type: 'match:bomb_place'; seq?: number; payload: { x: number; y: number; tick?: number } }
   | { type: 'mp:presence_heartbeat' }
-  | { type: 'mp:rejoin_ready'; roomCode: string; matchId: string; rejoinAttemptId: string }
-  | { type: 'mp:snapshot_applied'; matchId: string; rejoinAttemptId?: string }
+  // `lastEventId` is the newest match event the client applied; the server replays the rest.
+  | { type: 'mp:rejoin_ready'; roomCode: string; matchId: string; rejoinAttemptId: string; lastEventId?: string }
+  | { type: 'mp:snapshot_applied'; matchId: string; rejoinAttemptId?: string; tick?: number }
+  | { type: 'mp:snapshot_resync'; matchId: string; reason: SnapshotResyncReason }
   | { type: 'room:restart_propose' }
   | { type: 'room:restart_vote'; vote: 'yes' | 'no' };
 
+export type MatchRulesetPreset = 'classic' | 'sudden_death' | 'no_enemies' | 'big_map' | 'custom';
+
+// Room-level match rules, picked by the owner in the lobby and fixed at match start.
+export type MatchRuleset = {
+  preset: MatchRulesetPreset;
+  bombFuseTicks: number;
+  bombRange: number;
+  lives: number;
+  respawnDelayTicks: number;
+  enemyCount: number;
+  gridW: number;
+  gridH: number;
+  suddenDeathTick: number; // the arena starts closing in from the border at this tick
+};
+
 export type MatchWorldState = {
   gridW: number;
   gridH: number;
@@ -38,6 +71,7 @@ export type BombSnapshot = {
   ownerId?: string;
   tickPlaced?: number;
   explodeAtTick?: number;
+  slideDir?: MoveDir | null; // set while the bomb is sliding after a kick
 };
 
 export type MatchBombSpawned = {
@@ -48,6 +82,7 @@ export type MatchBombSpawned = {
   serverTick: number;
   tick: number;
   bomb: BombSnapshot;
+  rewindTicks?: number; // set when placed on a cell the owner had left (lag compensation)
 };
 
 export type MatchBombExploded = {
@@ -63,6 +98,49 @@ export type MatchBombExploded = {
   impacts: Array<{ x: number; y: number }>;
 };
 
+// Another bomb's blast reached this one; it explodes later in the same tick.
+export type MatchBombChained = {
+  type: 'match:bomb_chained';
+  roomCode: string;
+  matchId: string;
+  eventId: string;
+  serverTick: number;
+  tick: number;
+  bombId: string;
+  byBombId: string;
+  x: number;
+  y: number;
+};
+
+// A player walked into the bomb at (x, y); it slides one cell every
+// `ticksPerCell` ticks until `match:bomb_stopped`.
+export type MatchBombKicked = {
+  type: 'match:bomb_kicked';
+  roomCode: string;
+  matchId: string;
+  eventId: string;
+  serverTick: number;
+  tick: number;
+  bombId: string;
+  tgUserId: string;
+  dir: MoveDir;
+  x: number;
+  y: number;
+  ticksPerCell: number;
+};
+
+export type MatchBombStopped = {
+  type: 'match:bomb_stopped';
+  roomCode: string;
+  matchId: string;
+  eventId: string;
+  serverTick: number;
+  tick: number;
+  bombId: string;
+  x: number;
+  y: number;
+};
+
 export type MatchTilesDestroyed = {
   type: 'match:tiles_destroyed';
   roomCode: string;
@@ -73,6 +151,49 @@ export type MatchTilesDestroyed = {
   tiles: Array<{ x: number; y: number }>;
 };
 
+export type MatchItemType = 'BombUp' | 'FireUp';
+
+export type ItemSnapshot = {
+  id: string;
+  x: number;
+  y: number;
+  type: MatchItemType;
+};
+
+export type MatchItemSpawned = {
+  type: 'match:item_spawned';
+  roomCode: string;
+  matchId: string;
+  eventId: string;
+  serverTick: number;
+  tick: number;
+  item: ItemSnapshot;
+};
+
+export type MatchItemPicked = {
+  type: 'match:item_picked';
+  roomCode: string;
+  matchId: string;
+  eventId: string;
+  serverTick: number;
+  tick: number;
+  itemId: string;
+  x: number;
+  y: number;
+  itemType: MatchItemType;
+  tgUserId: string;
+  bombCapacity: number;
+  bombRange: number;
+};
+
+// What cost a player a life: another player's bomb, their own, an enemy, or
+// the arena itself (sudden-death walls closing on them or their spawn).
+export type MatchDamageSource =
+  | { kind: 'bomb'; tgUserId: string }
+  | { kind: 'self' }
+  | { kind: 'enemy'; enemyId: string }
+  | { kind: 'hazard' };
+
 export type MatchPlayerDamaged = {
   type: 'match:player_damaged';
   roomCode: string;
@@ -82,6 +203,7 @@ export type MatchPlayerDamaged = {
   tick: number;
   tgUserId: string;
   lives: number;
+  source: MatchDamageSource;
 };
 
 export type MatchPlayerEliminated = {
@@ -92,6 +214,7 @@ export type MatchPlayerEliminated = {
   serverTick: number;
   tick: number;
   tgUserId: string;
+  source: MatchDamageSource; // the final hit
 };
 
 export type MatchPlayerRespawned = {
@@ -114,7 +237,22 @@ export type MatchEnd = {
   serverTick: number;
   tick: number;
   winnerTgUserId: string | null;
-  reason: 'elimination' | 'draw';
+  winnerTeam?: number | null; // present only in team matches
+  reason: 'elimination' | 'draw' | 'timeout'; // timeout = still tied after sudden death
+};
+
+// Sudden death: `warning` announces cells that turn into hard walls at
+// `closesAtTick`; `closed` is sent when they do.
+export type MatchArenaShrink = {
+  type: 'match:arena_shrink';
+  roomCode: string;
+  matchId: string;
+  eventId: string;
+  serverTick: number;
+  tick: number;
+  phase: 'warning' | 'closed';
+  closesAtTick: number;
+  cells: Array<{ x: number; y: number }>;
 };
 
 export type RoomRestartProposed = {
@@ -139,7 +277,8 @@ export type RoomRestartAccepted = {
 export type RoomRestartCancelled = {
   type: 'room:restart_cancelled';
   roomCode: string;
-  reason: 'no_vote' | 'timeout';
+  // invalid_setup: the room's teams no longer make a valid match, as `match:start` would report.
+  reason: 'no_vote' | 'timeout' | 'invalid_setup';
 };
 
 export type RoomRestartRejected = {
@@ -155,11 +294,91 @@ export type RoomRestartCooldown = {
   retryAtMs: number;
 };
 
+export type RoomSpectating = {
+  type: 'room:spectating';
+  roomCode: string;
+  matchId: string | null;
+  delayMs: number;
+  players: string[];
+};
+
+// The room runs on another backend node; reconnect to `wsUrl` and join again.
+export type RoomRedirect = {
+  type: 'room:redirect';
+  roomCode: string;
+  wsUrl: string;
+};
+
+// This node is shutting down at `deadlineMs`. Live matches are handed to another
+// node; reconnect after the socket closes and rejoin as usual.
+export type ServerDraining = {
+  type: 'server:draining';
+  deadlineMs: number;
+};
+
+export type FriendsChangeReason = 'request' | 'accepted' | 'declined' | 'cancelled';
+
+// Quick play: players per match, all free-for-all.
+export type MatchmakingMode = 2 | 3 | 4;
+
+export type MatchmakingClientMessage =
+  | { type: 'mm:enqueue'; mode: MatchmakingMode }
+  | { type: 'mm:cancel' }
+  | { type: 'mm:accept'; proposalId: string }
+  | { type: 'mm:decline'; proposalId: string };
+
+// `proposed`: an mm:matched offer waits on accepts; `starting`: everyone accepted, join `roomCode`.
+export type MatchmakingState = 'idle' | 'searching' | 'proposed' | 'starting';
+
+// Why the state changed, when it wasn't the player's own request.
+export type MatchmakingStatusReason = 'declined' | 'accept_timeout' | 'peer_declined' | 'disconnected';
+
+export type MatchmakingStatus = {
+  type: 'mm:status';
+  state: MatchmakingState;
+  mode: MatchmakingMode | null;
+  rating: number | null;
+  enqueuedAtMs: number | null;
+  roomCode: string | null;
+  reason?: MatchmakingStatusReason;
+};
+
+export type MatchmakingMatched = {
+  type: 'mm:matched';
+  proposalId: string;
+  mode: MatchmakingMode;
+  players: Array<{ tgUserId: string; displayName: string; rating: number }>;
+  acceptDeadlineMs: number;
+};
+
+// A friend asked us into their room; joining with `inviteId` before `expiresAtMs` skips the room password.
+export type RoomInviteReceived = {
+  type: 'invite:received';
+  inviteId: string;
+  roomCode: string;
+  fromTgUserId: string;
+  fromDisplayName: string;
+  expiresAtMs: number;
+};
+
+// Per-user notices; the node that raises one forwards it to whichever node holds the user's socket.
+export type UserNotice =
+  | { type: 'friend:presence'; tgUserId: string; online: boolean }
+  | { type: 'friends:changed'; reason: FriendsChangeReason }
+  | MatchmakingStatus
+  | MatchmakingMatched
+  | RoomInviteReceived;
+
 export type MatchBombPlacedEvent = MatchBombSpawned;
 export type MatchBombExplodedEvent = MatchBombExploded;
 
+// normal wanders; chaser paths toward the nearest player; bomb_avoider keeps out
+// of blast lines; wall_phaser drifts through bricks.
+export type MatchEnemyKind = 'normal' | 'chaser' | 'bomb_avoider' | 'wall_phaser';
+
 export type EnemySnapshot = {
   id: string;
+  kind?: MatchEnemyKind;
   x: number;
   y: number;
   alive: boolean;
@@ -183,8 +402,12 @@ export type MatchSnapshotPlayer = {
   x: number;
   y: number;
   lives?: number;
+  bombCapacity?: number;
+  bombRange?: number;
+  remoteDetonate?: boolean; // unlocked by a FireUp pickup or an owned shop boost
   eliminated?: boolean;
   disconnected?: boolean;
+  team?: number | null;
   isMoving?: boolean;
   moveFromX?: number;
   moveFromY?: number;
@@ -208,6 +431,7 @@ export type MatchSnapshot = {
     gridH: number;
     worldHash?: string;
     bombs?: BombSnapshot[];
+    items?: ItemSnapshot[];
   };
   players: MatchSnapshotPlayer[];
   enemies?: EnemySnapshot[];
@@ -215,17 +439,99 @@ export type MatchSnapshot = {
 
 export type MatchSnapshotV1 = MatchSnapshot;
 
+// Changed entities since the base snapshot: new ones in full, existing ones
+// with only the fields that changed (plus their key). Omitted when nothing did.
+export type SnapshotEntityDelta<T, K extends keyof T> = {
+  upsert: Array<Partial<T> & Pick<T, K>>;
+  removed: Array<T[K]>;
+};
+
+/**
+ * Sent instead of a full snapshot once the client has acked `baseTick` with
+ * `mp:snapshot_applied`. Idle players and enemies carry no move timing; it is
+ * restamped from `tick` and `serverTimeMs` when the snapshot is rebuilt.
+ */
+export type MatchSnapshotDelta = {
+  version: ProtocolVersion;
+  roomCode: string;
+  matchId: string;
+  tick: number;
+  baseTick: number;
+  serverTime: number;
+  serverTimeMs: number;
+  worldHash: string; // hash of the live tile grid, for desync checks
+  bombs?: SnapshotEntityDelta<BombSnapshot, 'id'>;
+  items?: SnapshotEntityDelta<ItemSnapshot, 'id'>;
+  players?: SnapshotEntityDelta<MatchSnapshotPlayer, 'tgUserId'>;
+  enemies?: SnapshotEntityDelta<EnemySnapshot, 'id'>;
+};
+
+export type RejoinResumeMode = 'events' | 'world_init';
+
+// Why the server dropped an inbound frame; sent as the `match:error` error,
+// with `field` naming the first offending field for `invalid_field`.
+export type InboundRejectCode = 'frame_too_large' | 'malformed_frame' | 'unknown_type' | 'invalid_field';
+
+export type SnapshotResyncReason = 'missing_base' | 'world_hash_mismatch';
+
+export type MatchReplayEvent =
+  | MatchBombSpawned
+  | MatchBombExploded
+  | MatchBombChained
+  | MatchBombKicked
+  | MatchBombStopped
+  | MatchTilesDestroyed
+  | MatchItemSpawned
+  | MatchItemPicked
+  | MatchPlayerDamaged
+  | MatchPlayerRespawned
+  | MatchPlayerEliminated
+  | MatchArenaShrink
+  | MatchEnd;
+
+export type MatchReplayFrame = {
+  tick: number;
+  snapshot: MatchSnapshot;
+  events: MatchReplayEvent[];
+};
+
+// Response body of GET /api/matches/:matchId/replay. Frames are re-simulated
+// server-side from the recorded inputs; `verified` is false when the re-run
+// did not end on the recorded tick and world hash.
+export type MatchReplay = {
+  version: 'replay_v1';
+  roomCode: string;
+  matchId: string;
+  players: string[];
+  tickRateMs: number;
+  startedAtMs: number;
+  endedAtMs: number;
+  endTick: number;
+  winnerTgUserId: string | null;
+  reason: MatchEnd['reason'];
+  verified: boolean;
+  world: MatchWorldState;
+  frames: MatchReplayFrame[];
+};
+
 export type MatchServerMessage =
-  | { type: 'match:started'; roomCode: string; matchId: string }
+  | { type: 'match:started'; roomCode: string; matchId: string; ruleset: MatchRuleset }
   | { type: 'mp:rejoin_ack'; roomCode: string; matchId: string; serverTime: number; rejoinAttemptId: string }
-  | { type: 'mp:rejoin_sync'; matchId: string }
+  // `events`: missed events follow and the client keeps its world; `world_init`: a fresh world follows.
+  | { type: 'mp:rejoin_sync'; matchId: string; resume: RejoinResumeMode; replayedEvents: number }
   | MatchWorldInit
   | MatchBombSpawned
   | MatchBombExploded
+  | MatchBombChained
+  | MatchBombKicked
+  | MatchBombStopped
   | MatchTilesDestroyed
+  | MatchItemSpawned
+  | MatchItemPicked
   | MatchPlayerDamaged
   | MatchPlayerRespawned
   | MatchPlayerEliminated
+  | MatchArenaShrink
   | MatchEnd
   | RoomRestartProposed
   | RoomRestartVoteState
@@ -233,5 +539,7 @@ export type MatchServerMessage =
   | RoomRestartCancelled
   | RoomRestartRejected
   | RoomRestartCooldown
+  | RoomSpectating
   | { type: 'match:snapshot'; snapshot: MatchSnapshot }
-  | { type: 'match:error'; error: string };
+  | { type: 'match:snapshot_delta'; delta: MatchSnapshotDelta }
+  | { type: 'match:error'; error: string; field?: string };
@@ -27,8 +27,10 @@ import {
 } from '../game/campaign';
 
 import type { ControlsState, Direction, PlayerStats, SimulationEvent } from '../game/types';
-import type { MatchServerMessage } from '@shared/protocol';
+import type { MatchDamageSource, MatchEnd, MatchmakingMatched, MatchmakingMode, MatchmakingStatus, MatchReplay, MatchRuleset, MatchServerMessage, RoomInviteReceived } from '@shared/protocol';
 import {
+  acceptRoomInvite,
+  balanceRoomTeams,
   buyShopSku,
   claimReferral,
   closeRoom,
@@ -41,11 +43,16 @@ import {
   fetchShopCatalog,
   fetchShopOwned,
   fetchLedger,
+  fetchMatchHistory,
+  fetchMatchResult,
   fetchWallet,
+  inviteFriendToRoom,
   joinRoom,
   leaveRoom,
   requestFriend,
   setRoomReady,
+  setRoomRuleset,
+  setRoomTeam,
   startRoom,
   respondFriend,
   submitLeaderboard,
@@ -55,6 +62,8 @@ import {
   type LeaderboardMeEntry,
   type LeaderboardMode,
   type LeaderboardTopEntry,
+  type MatchHistoryEntry,
+  type MatchResultDetail,
   type MyRoomEntry,
   type OutgoingFriendRequest,
   type PublicRoomEntry,
@@ -76,7 +85,7 @@ import {
   type LastSessionMeta,
 } from '../utils/sessionStorage';
 import { RROverlayModal } from './RROverlayModal';
-import { MultiplayerModal } from './MultiplayerModal';
+import { MultiplayerModal, RULESET_PRESET_LABELS } from './MultiplayerModal';
 import { isDebugEnabled } from '../debug/debugFlags';
 import { diagnosticsStore } from '../debug/diagnosticsStore';
 import { DiagnosticsOverlay } from '../debug/DiagnosticsOverlay';
@@ -120,6 +129,8 @@ type AccountInfo = {
   nameChangeRemaining: number;
 };
 
+type KillFeedEntry = { id: string; text: string; atMs: number; involvesMe: boolean };
+
 type GameFlowPhase = 'intro' | 'start' | 'playing';
 type GameMode = 'sp' | 'mp';
 type RejoinPhase = 'idle' | 'rejoin_wait_ack' | 'rejoin_resetting' | 'rejoin_ready' | 'rejoin_applying' | 'rejoin_complete' | 'rejoin_failed';
@@ -147,6 +158,11 @@ type MatchRejoinAckMessage = Extract<
   { type: 'mp:rejoin_ack' }
 >;
 
+type MatchRejoinSyncMessage = Extract<
+  MatchServerMessage,
+  { type: 'mp:rejoin_sync' }
+>;
+
 function isMatchServerMessage(message: { type: string }): message is MatchServerMessage {
   return message.type.startsWith('match:') || message.type.startsWith('room:restart_') || message.type.startsWith('mp:');
 }
@@ -173,6 +189,8 @@ function mapRoomError(error?: string): string {
   if (error === 'not_enough_players') return 'Недостаточно игроков';
   if (error === 'not_all_ready') return 'Не все игроки готовы';
   if (error === 'ready_invalid') return 'Некорректное значение ready';
+  if (error === 'team_invalid') return 'Некорректная команда';
+  if (error === 'ruleset_invalid') return 'Некорректные правила матча';
   if (error) return error;
   return 'Request failed';
 }
@@ -182,9 +200,25 @@ const JOYSTICK_DEADZONE = 10;
 const INTRO_PLACEHOLDER_MS = 5500;
 const ONBOARDING_DONE_KEY = 'rift_onboarding_v1_done';
 const MOBILE_ROTATE_OVERLAY_BREAKPOINT = 700;
+const SNAPSHOT_ACK_EVERY_TICKS = 5; // baseline acks for delta snapshots, 4/s at 20 Hz
+const SERVER_TICK_MS = 50; // match simulation runs at 20 Hz
+const KILL_FEED_MAX_ENTRIES = 4;
+const KILL_FEED_TTL_MS = 5_000;
 const DISPLAY_NAME_KEY = 'rr_display_name_v1';
 const PLAYER_ACCENT_PALETTE = ['#00ff00', '#ff0000', '#00aaff', '#ffffff'] as const;
 
+function formatKillFeedText(source: MatchDamageSource, victim: string, nameOf: (tgUserId: string) => string, eliminated: boolean): string {
+  const suffix = eliminated ? ' — out!' : '';
+  if (source.kind === 'bomb') return `${nameOf(source.tgUserId)} 💣 ${victim}${suffix}`;
+  if (source.kind === 'self') return `${victim} caught their own blast${suffix}`;
+  if (source.kind === 'enemy') return `${victim} was caught by an enemy${suffix}`;
+  return `${victim} was crushed by the arena${suffix}`;
+}
+
+function formatTeamLabel(team: number): string {
+  return `Team ${String.fromCharCode(65 + team)}`;
+}
+
 function colorFromPlayerColorId(colorId: number): string {
   const paletteLength = PLAYER_ACCENT_PALETTE.length;
   const normalized = Number.isFinite(colorId)
@@ -208,7 +242,9 @@ type TelegramWebApp = {
 };
 
 
-function buildWsDebugMetrics(scene: GameScene, bombEventNetStats?: { serverTick: number; lastEventTick: number; eventsBuffered: number; eventsDroppedDup: number; eventsDroppedOutOfOrder: number }, bombGate?: { gated: boolean; reason: string | null }): WsDebugMetrics {
+type BombRewindStats = { placed: number; rewound: number; maxRewindTicks: number };
+
+function buildWsDebugMetrics(scene: GameScene, bombEventNetStats?: { serverTick: number; lastEventTick: number; eventsBuffered: number; eventsDroppedDup: number; eventsDroppedOutOfOrder: number }, bombGate?: { gated: boolean; reason: string | null }, bombRewindStats?: BombRewindStats): WsDebugMetrics {
   const netInterpStats = scene.getNetInterpStats();
   const routingStats = scene.getSnapshotRoutingStats();
 
@@ -256,6 +292,9 @@ function buildWsDebugMetrics(scene: GameScene, bombEventNetStats?: { serverTick:
     netResyncReason: routingStats.netResyncReason,
     bombInputGated: bombGate?.gated ?? true,
     bombGateReason: bombGate?.reason ?? 'unknown',
+    ownBombsPlaced: bombRewindStats?.placed ?? 0,
+    ownBombsRewound: bombRewindStats?.rewound ?? 0,
+    maxBombRewindTicks: bombRewindStats?.maxRewindTicks ?? 0,
   };
 }
 
@@ -266,6 +305,7 @@ export default function GameView(): JSX.Element {
   const gameRef = useRef<Phaser.Game | null>(null);
   const sceneRef = useRef<GameScene | null>(null);
   const inputSeqRef = useRef(0);
+  const bombRewindStatsRef = useRef<BombRewindStats>({ placed: 0, rewound: 0, maxRewindTicks: 0 });
   const activeMoveDirRef = useRef<Direction | null>(null);
 
   const joystickTouchZoneRef = useRef<HTMLDivElement | null>(null);
@@ -275,6 +315,11 @@ export default function GameView(): JSX.Element {
   const joystickStartYRef = useRef(0);
   const hudLivesRef = useRef<HTMLSpanElement | null>(null);
   const handledMatchEventIdsRef = useRef<Set<string>>(new Set());
+  // Survives a dropped socket so a reconnect can ask the server for just the events after it.
+  const lastAppliedEventRef = useRef<{ matchId: string; eventId: string } | null>(null);
+  const answeredRejoinAttemptIdRef = useRef<string | null>(null);
+  const handledUserNoticesRef = useRef<WeakSet<object>>(new WeakSet());
+  const handledRejoinSyncRef = useRef<MatchRejoinSyncMessage | null>(null);
   const bombBtnRef = useRef<HTMLButtonElement | null>(null);
   const detonateBtnRef = useRef<HTMLButtonElement | null>(null);
   const multiplayerBtnRef = useRef<HTMLButtonElement | null>(null);
@@ -334,6 +379,12 @@ export default function GameView(): JSX.Element {
   const [leaderboardMe, setLeaderboardMe] = useState<LeaderboardMeEntry | null>(null);
   const [leaderboardLoading, setLeaderboardLoading] = useState(false);
   const [leaderboardError, setLeaderboardError] = useState<string | null>(null);
+  const [matchHistoryTabActive, setMatchHistoryTabActive] = useState(false);
+  const [matchHistory, setMatchHistory] = useState<MatchHistoryEntry[]>([]);
+  const [matchHistoryNextBefore, setMatchHistoryNextBefore] = useState<number | null>(null);
+  const [matchHistoryLoading, setMatchHistoryLoading] = useState(false);
+  const [matchHistoryError, setMatchHistoryError] = useState<string | null>(null);
+  const [matchDetail, setMatchDetail] = useState<MatchResultDetail | null>(null);
   const [multiplayerUiOpen, setMultiplayerUiOpen] = useState(false);
   const [gameMode, setGameMode] = useState<GameMode | null>(null);
   const [mpExitConfirmOpen, setMpExitConfirmOpen] = useState(false);
@@ -341,6 +392,7 @@ export default function GameView(): JSX.Element {
   const [roomsError, setRoomsError] = useState<string | null>(null);
   const [joiningRoomCode, setJoiningRoomCode] = useState<string | null>(null);
   const [deepLinkJoinCode, setDeepLinkJoinCode] = useState<string | null>(null);
+  const [deepLinkInviteId, setDeepLinkInviteId] = useState<string | null>(null);
   const [, setMyRooms] = useState<MyRoomEntry[]>([]);
   const [publicRooms, setPublicRooms] = useState<PublicRoomEntry[]>([]);
   const [currentRoom, setCurrentRoom] = useState<RoomState | null>(null);
@@ -349,12 +401,21 @@ export default function GameView(): JSX.Element {
   const [multiplayerDisconnectedByUserId, setMultiplayerDisconnectedByUserId] = useState<Record<string, boolean>>({});
   const [multiplayerColorByUserId, setMultiplayerColorByUserId] = useState<Record<string, string>>({});
   const [currentMatchId, setCurrentMatchId] = useState<string | null>(null);
+  const [matchRuleset, setMatchRuleset] = useState<MatchRuleset | null>(null);
+  const [killFeed, setKillFeed] = useState<KillFeedEntry[]>([]);
+  const currentRoomMembersRef = useRef<RoomMember[]>([]);
   const [restartVote, setRestartVote] = useState<{ active: boolean; yesCount: number; total: number; expiresAt: number | null } | null>(null);
   const [restartVoteNowMs, setRestartVoteNowMs] = useState<number>(() => Date.now());
   const [restartCooldownRetryAtMs, setRestartCooldownRetryAtMs] = useState<number | null>(null);
   const [restartCooldownNowMs, setRestartCooldownNowMs] = useState<number>(() => Date.now());
   const [spectatorRestartPromptDismissed, setSpectatorRestartPromptDismissed] = useState(false);
-  const [matchEndState, setMatchEndState] = useState<{ winnerTgUserId: string | null; reason: 'elimination' | 'draw' } | null>(null);
+  const [matchEndState, setMatchEndState] = useState<{ matchId: string; winnerTgUserId: string | null; winnerTeam?: number | null; reason: MatchEnd['reason'] } | null>(null);
+  const [replayStatus, setReplayStatus] = useState<'idle' | 'loading' | 'playing' | 'unavailable'>('idle');
+  const [spectatingRoomCode, setSpectatingRoomCode] = useState<string | null>(null);
+  const [spectatorDelayMs, setSpectatorDelayMs] = useState(0);
+  const [spectatorTargets, setSpectatorTargets] = useState<Array<{ tgUserId: string; displayName: string }>>([]);
+  const [spectatorFollowIndex, setSpectatorFollowIndex] = useState(0);
+  const pendingSpectateRoomCodeRef = useRef<string | null>(null);
   const expectedRoomCodeRef = useRef<string | null>(null);
   const expectedMatchIdRef = useRef<string | null>(null);
   const worldReadyRef = useRef(false);
@@ -362,6 +423,7 @@ export default function GameView(): JSX.Element {
   const pendingWorldInitRef = useRef<MatchWorldInitMessage | null>(null);
   const pendingSnapshotRef = useRef<MatchSnapshotMessage['snapshot'] | null>(null);
   const lastAppliedSnapshotTickRef = useRef<number | null>(null);
+  const lastSnapshotAckRef = useRef<{ matchId: string; tick: number } | null>(null);
   const [inspectorOpen, setInspectorOpen] = useState(false);
   const [lastWorldInitAt, setLastWorldInitAt] = useState<number | null>(null);
   const [lastSnapshotAt, setLastSnapshotAt] = useState<number | null>(null);
@@ -443,6 +505,8 @@ export default function GameView(): JSX.Element {
     }
   }, [rejoinPhase, resetResumeAttemptState, resumeJoinInProgress]);
   const resetMpMatchRuntimeForNewMatch = useCallback((nextMatchId: string): void => {
+    sceneRef.current?.stopReplay();
+    setReplayStatus('idle');
     expectedMatchIdRef.current = nextMatchId;
     setCurrentMatchId(nextMatchId);
     worldReadyRef.current = false;
@@ -453,6 +517,7 @@ export default function GameView(): JSX.Element {
     handledMatchEventIdsRef.current.clear();
     processedWsMessagesRef.current = 0;
     setRestartVote(null);
+    setKillFeed([]);
     setMatchEndState(null);
     setSpectatorRestartPromptDismissed(false);
     setRestartCooldownRetryAtMs(null);
@@ -462,6 +527,8 @@ export default function GameView(): JSX.Element {
   }, []);
 
   const resetMpMatchRuntimeAwaitingMatchStart = useCallback((): void => {
+    sceneRef.current?.stopReplay();
+    setReplayStatus('idle');
     expectedMatchIdRef.current = null;
     setCurrentMatchId(null);
     worldReadyRef.current = false;
@@ -472,6 +539,7 @@ export default function GameView(): JSX.Element {
     handledMatchEventIdsRef.current.clear();
     processedWsMessagesRef.current = 0;
     setRestartVote(null);
+    setKillFeed([]);
     setMatchEndState(null);
     setSpectatorRestartPromptDismissed(false);
     setRestartCooldownRetryAtMs(null);
@@ -509,6 +577,9 @@ export default function GameView(): JSX.Element {
   const [friendsLoading, setFriendsLoading] = useState(false);
   const [friendsError, setFriendsError] = useState<string | null>(null);
   const [friendsList, setFriendsList] = useState<FriendEntry[]>([]);
+  const [matchmakingStatus, setMatchmakingStatus] = useState<MatchmakingStatus | null>(null);
+  const [matchmakingOffer, setMatchmakingOffer] = useState<MatchmakingMatched | null>(null);
+  const [roomInvites, setRoomInvites] = useState<RoomInviteReceived[]>([]);
   const [incomingRequests, setIncomingRequests] = useState<IncomingFriendRequest[]>([]);
   const [outgoingRequests, setOutgoingRequests] = useState<OutgoingFriendRequest[]>([]);
   const [audioSettings, setAudioSettings] = useState<AudioSettings>({ musicEnabled: true, sfxEnabled: true });
@@ -536,7 +607,7 @@ export default function GameView(): JSX.Element {
     width: window.innerWidth,
     height: window.innerHeight,
   }));
-  const ws = useWsClient(token || undefined);
+  const ws = useWsClient(token || undefined, import.meta.env.DEV ? devIdentity.localFallbackTgUserId : undefined);
   const wsSendRef = useRef(ws.send);
 
   useEffect(() => {
@@ -703,7 +774,12 @@ export default function GameView(): JSX.Element {
   const shouldShowRotateOverlay = isMobileViewport && isPortraitViewport;
   const deathOverlayVisible = lifeState.awaitingContinue || lifeState.gameOver;
   const isEliminatedSpectator = isMultiplayerMode && lifeState.eliminated && currentRoom?.phase === 'STARTED';
-  const isInteractionBlocked = resumeCountdownActive || isInputLocked || shouldShowRotateOverlay || deathOverlayVisible || lifeState.eliminated || lifeState.respawning;
+  const isSpectating = spectatingRoomCode !== null;
+  const isInteractionBlocked = resumeCountdownActive || isInputLocked || shouldShowRotateOverlay || deathOverlayVisible || lifeState.eliminated || lifeState.respawning || isSpectating;
+  const spectatorCameraActive = isSpectating || isEliminatedSpectator;
+  const spectatorFollowTarget = spectatorCameraActive && spectatorTargets.length > 0
+    ? spectatorTargets[spectatorFollowIndex % spectatorTargets.length]
+    : null;
   const isRestartVoteActive = restartVote?.active === true;
   const restartVoteRemainingMs = isRestartVoteActive && restartVote?.expiresAt
     ? Math.max(0, restartVote.expiresAt - restartVoteNowMs)
@@ -1246,7 +1322,7 @@ export default function GameView(): JSX.Element {
       return;
     }
 
-    setTickDebugStats(buildWsDebugMetrics(scene, ws.bombEventNetStats, { gated: Boolean(bombGateReason), reason: bombGateReason }));
+    setTickDebugStats(buildWsDebugMetrics(scene, ws.bombEventNetStats, { gated: Boolean(bombGateReason), reason: bombGateReason }, bombRewindStatsRef.current));
   }, 350);
 
   return () => window.clearInterval(id);
@@ -1372,8 +1448,8 @@ export default function GameView(): JSX.Element {
 
 
   useEffect(() => {
-    sceneRef.current?.setActiveMultiplayerSession(currentRoom?.roomCode ?? null, currentMatchId);
-  }, [currentRoom?.roomCode, currentMatchId]);
+    sceneRef.current?.setActiveMultiplayerSession(currentRoom?.roomCode ?? spectatingRoomCode, currentMatchId);
+  }, [currentRoom?.roomCode, currentMatchId, spectatingRoomCode]);
 
   useEffect(() => {
     const nextRoomCode = currentRoom?.roomCode ?? null;
@@ -1431,6 +1507,7 @@ export default function GameView(): JSX.Element {
     setMultiplayerLivesByUserId({});
     setMultiplayerDisconnectedByUserId({});
     handledMatchEventIdsRef.current.clear();
+    lastAppliedEventRef.current = null;
   }, [currentRoom?.roomCode]);
 
   useEffect(() => {
@@ -1515,6 +1592,54 @@ export default function GameView(): JSX.Element {
     setRejoinPhase('rejoin_ready');
   }, [handleResumeFailure, rejoinPhase, resetMpMatchRuntimeForNewMatch, resumeJoinInProgress, ws, ws.messages]);
 
+  // A plain reconnect mid-match keeps the arena; answer the server's rejoin handshake with the
+  // last event we applied so it replays the gap. Without one (or after a server restart moved
+  // the match) it sends a fresh world straight away instead of waiting for its timeout.
+  useEffect(() => {
+    if (resumeJoinInProgress || !ws.connected) return;
+
+    const lastAck = [...ws.messages].reverse().find((message): message is MatchRejoinAckMessage => message.type === 'mp:rejoin_ack');
+    if (!lastAck || answeredRejoinAttemptIdRef.current === lastAck.rejoinAttemptId) return;
+    answeredRejoinAttemptIdRef.current = lastAck.rejoinAttemptId;
+    if (lastAck.roomCode !== expectedRoomCodeRef.current) return;
+
+    const lastEvent = lastAppliedEventRef.current?.matchId === lastAck.matchId ? lastAppliedEventRef.current : null;
+
+    ws.send({
+      type: 'mp:rejoin_ready',
+      roomCode: lastAck.roomCode,
+      matchId: lastAck.matchId,
+      rejoinAttemptId: lastAck.rejoinAttemptId,
+      ...(lastEvent ? { lastEventId: lastEvent.eventId } : {}),
+    }, {
+      roomCode: lastAck.roomCode,
+      expectedMatchId: lastAck.matchId,
+    });
+
+    diagnosticsStore.log('ROOM', 'INFO', 'reconnect:ready_sent', {
+      roomCode: lastAck.roomCode,
+      matchId: lastAck.matchId,
+      attemptId: lastAck.rejoinAttemptId,
+      lastEventId: lastEvent?.eventId ?? null,
+    });
+  }, [resumeJoinInProgress, ws, ws.connected, ws.messages]);
+
+  useEffect(() => {
+    const lastSync = [...ws.messages].reverse().find((message): message is MatchRejoinSyncMessage => message.type === 'mp:rejoin_sync');
+    if (!lastSync || handledRejoinSyncRef.current === lastSync) return;
+    handledRejoinSyncRef.current = lastSync;
+
+    diagnosticsStore.log('ROOM', 'INFO', 'rejoin:sync', {
+      matchId: lastSync.matchId,
+      resume: lastSync.resume,
+      replayedEvents: lastSync.replayedEvents,
+    });
+
+    if (lastSync.resume !== 'events' || lastSync.matchId !== expectedMatchIdRef.current) return;
+    if (!sceneRef.current?.resumeRetainedWorld(lastSync.matchId)) return;
+    worldReadyRef.current = true;
+  }, [ws.messages]);
+
 
   useEffect(() => {
     const lastStarted = [...ws.messages].reverse().find((message) => message.type === 'match:started');
@@ -1556,9 +1681,11 @@ export default function GameView(): JSX.Element {
       if (prev.phase === 'STARTED') return prev;
       return { ...prev, phase: 'STARTED' };
     });
+    setMatchRuleset(lastStarted.ruleset ?? null);
     diagnosticsStore.log('ROOM', 'INFO', 'match:started:accepted', {
       roomCode: expectedRoomCode,
       matchId: lastStarted.matchId,
+      ruleset: lastStarted.ruleset?.preset ?? null,
     });
   }, [resumeJoinInProgress, switchToNextMatch, ws.messages]);
 
@@ -1571,11 +1698,28 @@ export default function GameView(): JSX.Element {
       return;
     }
 
+    pendingSpectateRoomCodeRef.current = null;
+
     if (lastError.error === 'not_enough_ws_players') {
       setRoomsError('WS: второй игрок ещё не подключён к матчу. Попробуйте Start ещё раз.');
       return;
     }
 
+    if (lastError.error === 'spectate_forbidden') {
+      setRoomsError('Only friends of the players or invited players can watch this room.');
+      return;
+    }
+
+    if (lastError.error === 'room_unavailable') {
+      setRoomsError('The room server is busy right now. Try joining again in a moment.');
+      return;
+    }
+
+    if (lastError.error === 'teams_incomplete' || lastError.error === 'teams_need_two_sides') {
+      setRoomsError('Teams: every player must pick a team, and at least two teams are needed.');
+      return;
+    }
+
     setRoomsError(`WS: ${lastError.error}`);
   }, [handleResumeFailure, resumeJoinInProgress, ws.messages]);
 
@@ -1588,8 +1732,36 @@ export default function GameView(): JSX.Element {
         : 'duo';
 
   useEffect(() => {
-    sceneRef.current?.setGameMode(isMultiplayerMode ? 'multiplayer' : 'solo');
-  }, [isMultiplayerMode]);
+    sceneRef.current?.setGameMode(isMultiplayerMode || spectatingRoomCode ? 'multiplayer' : 'solo');
+  }, [isMultiplayerMode, spectatingRoomCode]);
+
+  useEffect(() => {
+    const lastSpectating = [...ws.messages].reverse().find((message) => message.type === 'room:spectating');
+    if (!lastSpectating || lastSpectating.type !== 'room:spectating') return;
+    if (pendingSpectateRoomCodeRef.current !== lastSpectating.roomCode) return;
+
+    // The server confirmed the spectator slot; the regular match pipeline binds
+    // to the match once the delayed match:started/world_init/snapshot arrive.
+    pendingSpectateRoomCodeRef.current = null;
+    expectedRoomCodeRef.current = lastSpectating.roomCode;
+    expectedMatchIdRef.current = null;
+    worldReadyRef.current = false;
+    firstSnapshotReadyRef.current = false;
+    pendingWorldInitRef.current = null;
+    pendingSnapshotRef.current = null;
+    lastAppliedSnapshotTickRef.current = null;
+    handledMatchEventIdsRef.current.clear();
+    setSpectatingRoomCode(lastSpectating.roomCode);
+    setSpectatorDelayMs(lastSpectating.delayMs);
+    setSpectatorFollowIndex(0);
+    setMultiplayerUiOpen(false);
+    setGameMode('mp');
+    setGameFlowPhase('playing');
+  }, [ws.messages]);
+
+  useEffect(() => {
+    sceneRef.current?.setSpectatorFollowTarget(spectatorFollowTarget?.tgUserId ?? null);
+  }, [spectatorFollowTarget?.tgUserId]);
 
   useEffect(() => {
     const partySize = Math.max(1, Math.min(4, currentRoomMembers.length || 1));
@@ -2041,6 +2213,15 @@ export default function GameView(): JSX.Element {
       }
       return next;
     });
+    const followable = players
+      .filter((player) => player?.tgUserId && !player.eliminated && String(player.tgUserId) !== String(localTgUserId))
+      .map((player) => ({ tgUserId: String(player.tgUserId), displayName: String(player.displayName || player.tgUserId) }));
+    setSpectatorTargets((prev) => (
+      prev.length === followable.length
+      && prev.every((entry, index) => entry.tgUserId === followable[index].tgUserId && entry.displayName === followable[index].displayName)
+        ? prev
+        : followable
+    ));
 
     if (localTgUserId) {
       const me = players.find((player) => String(player?.tgUserId) === String(localTgUserId));
@@ -2087,6 +2268,12 @@ export default function GameView(): JSX.Element {
     lastAppliedSnapshotTickRef.current = snapshot.tick;
     maybeCompleteRejoinFromAppliedSnapshot(snapshot);
 
+    const lastAck = lastSnapshotAckRef.current;
+    if (!isSpectating && (!lastAck || lastAck.matchId !== snapshot.matchId || snapshot.tick - lastAck.tick >= SNAPSHOT_ACK_EVERY_TICKS)) {
+      lastSnapshotAckRef.current = { matchId: snapshot.matchId, tick: snapshot.tick };
+      ws.send({ type: 'mp:snapshot_applied', matchId: snapshot.matchId, tick: snapshot.tick }, { roomCode: snapshot.roomCode, expectedMatchId: snapshot.matchId });
+    }
+
     // If WS snapshots are flowing, match is live → ensure lobby overlay is gone for everyone.
     if (multiplayerUiOpen) {
       setMultiplayerUiOpen(false);
@@ -2098,8 +2285,29 @@ export default function GameView(): JSX.Element {
         });
       }
     }
-  }, [ws, ws.messages, localTgUserId, multiplayerUiOpen, isMultiplayerDebugEnabled, currentRoom?.roomCode, maybeCompleteRejoinFromAppliedSnapshot, rejoinPhase, resumeJoinInProgress, switchToNextMatch]);
+  }, [ws, ws.messages, localTgUserId, multiplayerUiOpen, isMultiplayerDebugEnabled, currentRoom?.roomCode, maybeCompleteRejoinFromAppliedSnapshot, rejoinPhase, resumeJoinInProgress, switchToNextMatch, isSpectating]);
+
 
+  useEffect(() => {
+    currentRoomMembersRef.current = currentRoomMembers;
+  }, [currentRoomMembers]);
+
+  const pushKillFeed = useCallback((id: string, victimId: string, source: MatchDamageSource, eliminated: boolean): void => {
+    const nameOf = (tgUserId: string): string => (tgUserId === localTgUserId
+      ? 'You'
+      : currentRoomMembersRef.current.find((member) => member.tgUserId === tgUserId)?.displayName ?? tgUserId);
+    const involvesMe = victimId === localTgUserId || (source.kind === 'bomb' && source.tgUserId === localTgUserId);
+    const entry: KillFeedEntry = { id, text: formatKillFeedText(source, nameOf(victimId), nameOf, eliminated), atMs: Date.now(), involvesMe };
+    setKillFeed((prev) => [...prev, entry].slice(-KILL_FEED_MAX_ENTRIES));
+  }, [localTgUserId]);
+
+  useEffect(() => {
+    if (killFeed.length === 0) return;
+    const timeout = setTimeout(() => {
+      setKillFeed((prev) => prev.filter((entry) => Date.now() - entry.atMs < KILL_FEED_TTL_MS));
+    }, Math.max(0, killFeed[0]!.atMs + KILL_FEED_TTL_MS - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [killFeed]);
 
   useEffect(() => {
     const scene = sceneRef.current;
@@ -2130,9 +2338,18 @@ export default function GameView(): JSX.Element {
           continue;
         }
         handledMatchEventIdsRef.current.add(message.eventId);
+        lastAppliedEventRef.current = { matchId: message.matchId, eventId: message.eventId };
       }
 
       if (message.type === 'match:bomb_spawned') {
+        if (message.bomb.ownerId === localTgUserId) {
+          const stats = bombRewindStatsRef.current;
+          stats.placed += 1;
+          if (message.rewindTicks) {
+            stats.rewound += 1;
+            stats.maxRewindTicks = Math.max(stats.maxRewindTicks, message.rewindTicks);
+          }
+        }
         scene.applyAuthoritativeBombSpawned(message);
         continue;
       }
@@ -2142,13 +2359,46 @@ export default function GameView(): JSX.Element {
         continue;
       }
 
+      if (message.type === 'match:bomb_chained') {
+        scene.applyAuthoritativeBombChained(message);
+        continue;
+      }
+
+      if (message.type === 'match:bomb_kicked') {
+        scene.applyAuthoritativeBombKicked(message);
+        continue;
+      }
+
+      if (message.type === 'match:bomb_stopped') {
+        scene.applyAuthoritativeBombStopped(message);
+        continue;
+      }
+
       if (message.type === 'match:tiles_destroyed') {
         scene.applyAuthoritativeTilesDestroyed(message);
         continue;
       }
 
+      if (message.type === 'match:item_spawned') {
+        scene.applyAuthoritativeItemSpawned(message);
+        continue;
+      }
+
+      if (message.type === 'match:item_picked') {
+        scene.applyAuthoritativeItemPicked(message, localTgUserId);
+        continue;
+      }
+
       if (message.type === 'match:player_damaged') {
         scene.applyAuthoritativePlayerDamaged(message, localTgUserId);
+        pushKillFeed(message.eventId, message.tgUserId, message.source, message.lives <= 0);
+
+        const members = currentRoomMembersRef.current;
+        const victimTeam = members.find((member) => member.tgUserId === message.tgUserId)?.team ?? null;
+        const myTeam = members.find((member) => member.tgUserId === localTgUserId)?.team ?? null;
+        if (message.source.kind === 'bomb' && message.source.tgUserId === localTgUserId && (victimTeam === null || victimTeam !== myTeam)) {
+          scene.addMultiplayerKillScore();
+        }
         continue;
       }
 
@@ -2159,6 +2409,13 @@ export default function GameView(): JSX.Element {
 
       if (message.type === 'match:player_eliminated') {
         scene.applyAuthoritativePlayerEliminated(message, localTgUserId);
+        // Other sources were already announced by the lethal `player_damaged`.
+        if (message.source.kind === 'hazard') pushKillFeed(message.eventId, message.tgUserId, message.source, true);
+        continue;
+      }
+
+      if (message.type === 'match:arena_shrink') {
+        scene.applyAuthoritativeArenaShrink(message);
         continue;
       }
 
@@ -2167,8 +2424,10 @@ export default function GameView(): JSX.Element {
           if (!prev) return prev;
           return { ...prev, phase: 'FINISHED' };
         });
-        setMatchEndState({ winnerTgUserId: message.winnerTgUserId, reason: message.reason });
-        setRoomsError(message.winnerTgUserId ? `Match ended. Winner: ${message.winnerTgUserId}` : 'Match ended. Draw.');
+        setMatchEndState({ matchId: message.matchId, winnerTgUserId: message.winnerTgUserId, winnerTeam: message.winnerTeam, reason: message.reason });
+        setRoomsError(message.winnerTeam != null
+          ? `Match ended. Winner: ${formatTeamLabel(message.winnerTeam)}`
+          : message.winnerTgUserId ? `Match ended. Winner: ${message.winnerTgUserId}` : message.reason === 'timeout' ? 'Match ended. Time ran out.' : 'Match ended. Draw.');
       }
 
       if (message.type === 'room:restart_proposed') {
@@ -2183,7 +2442,11 @@ export default function GameView(): JSX.Element {
 
       if (message.type === 'room:restart_cancelled') {
         setRestartVote(null);
-        setRoomsError(message.reason === 'timeout' ? 'Restart vote timed out.' : 'Restart vote cancelled.');
+        setRoomsError(message.reason === 'timeout'
+          ? 'Restart vote timed out.'
+          : message.reason === 'invalid_setup'
+            ? 'Restart cancelled: every player must pick a team, and at least two teams are needed.'
+            : 'Restart vote cancelled.');
         continue;
       }
 
@@ -2212,6 +2475,7 @@ export default function GameView(): JSX.Element {
     resumeJoinInProgress,
     switchToNextMatch,
     resetMpMatchRuntimeAwaitingMatchStart,
+    pushKillFeed,
   ]);
 
   useEffect(() => {
@@ -2400,7 +2664,14 @@ export default function GameView(): JSX.Element {
     if (isMultiplayerMode) {
       const position = sceneRef.current?.getLocalPlayerPosition();
       if (position) {
-        ws.send({ type: 'match:bomb_place', payload: { x: position.x, y: position.y } }, { roomCode: expectedRoomCodeRef.current, expectedMatchId: expectedMatchIdRef.current });
+        // The server checks the cell against where we stood at this tick, not where it has us now.
+        const tick = sceneRef.current?.getLastAppliedSnapshotTick() ?? -1;
+        const seq = inputSeqRef.current + 1;
+        inputSeqRef.current = seq;
+        ws.send(
+          { type: 'match:bomb_place', seq, payload: { x: position.x, y: position.y, ...(tick >= 0 ? { tick } : {}) } },
+          { roomCode: expectedRoomCodeRef.current, expectedMatchId: expectedMatchIdRef.current },
+        );
       }
       return;
     }
@@ -2411,6 +2682,14 @@ export default function GameView(): JSX.Element {
   const requestDetonate = (): void => {
     if (isInteractionBlocked) return;
     if (!isRemoteDetonateUnlocked) return;
+
+    if (isMultiplayerMode) {
+      const seq = inputSeqRef.current + 1;
+      inputSeqRef.current = seq;
+      ws.send({ type: 'match:input', seq, payload: { kind: 'detonate' } }, { roomCode: expectedRoomCodeRef.current, expectedMatchId: expectedMatchIdRef.current });
+      return;
+    }
+
     controlsRef.current.detonateRequested = true;
   };
 
@@ -2422,6 +2701,38 @@ export default function GameView(): JSX.Element {
     ws.send({ type: 'room:restart_vote', vote });
   };
 
+  const watchMatchReplay = async (matchId: string): Promise<void> => {
+    const scene = sceneRef.current;
+    if (!scene || !token) return;
+
+    setReplayStatus('loading');
+    try {
+      const response = await fetch(apiUrl(`/api/matches/${encodeURIComponent(matchId)}/replay`), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const json = await response.json().catch(() => null) as { ok?: boolean; replay?: MatchReplay } | null;
+      if (!response.ok || !json?.ok || !json.replay) {
+        setReplayStatus('unavailable');
+        return;
+      }
+
+      scene.startReplay(json.replay, localTgUserId, () => setReplayStatus('idle'));
+      setReplayStatus('playing');
+    } catch {
+      setReplayStatus('unavailable');
+    }
+  };
+
+  const stopMatchReplay = (): void => {
+    sceneRef.current?.stopReplay();
+    setReplayStatus('idle');
+  };
+
+  const cycleSpectatorTarget = (step: 1 | -1): void => {
+    if (spectatorTargets.length < 2) return;
+    setSpectatorFollowIndex((prev) => (prev + step + spectatorTargets.length) % spectatorTargets.length);
+  };
+
   const onZoomInput = (value: number): void => {
     const clamped = Math.max(zoomBounds.min, Math.min(zoomBounds.max, value));
     setZoom(clamped);
@@ -2462,6 +2773,38 @@ export default function GameView(): JSX.Element {
     }
   }, []);
 
+  // Without `before` the list starts over; with it the next page is appended.
+  const loadMatchHistory = useCallback(async (before?: number): Promise<void> => {
+    setMatchHistoryLoading(true);
+    setMatchHistoryError(null);
+    try {
+      const page = await fetchMatchHistory(before);
+      if (!page) {
+        setMatchHistoryError('Failed to load match history');
+        return;
+      }
+      setMatchHistory((prev) => (before === undefined ? page.matches : [...prev, ...page.matches]));
+      setMatchHistoryNextBefore(page.nextBefore);
+    } finally {
+      setMatchHistoryLoading(false);
+    }
+  }, []);
+
+  const openMatchDetail = useCallback(async (matchId: string): Promise<void> => {
+    setMatchHistoryLoading(true);
+    setMatchHistoryError(null);
+    try {
+      const detail = await fetchMatchResult(matchId);
+      if (!detail) {
+        setMatchHistoryError('Failed to load match');
+        return;
+      }
+      setMatchDetail(detail);
+    } finally {
+      setMatchHistoryLoading(false);
+    }
+  }, []);
+
   const loadRooms = useCallback(async (publicQuery?: string): Promise<void> => {
     setRoomsLoading(true);
     setRoomsError(null);
@@ -2496,7 +2839,7 @@ export default function GameView(): JSX.Element {
     }
   }, [currentRoom?.roomCode]);
 
-  const joinRoomByCode = useCallback(async (roomCodeRaw: string): Promise<void> => {
+  const joinRoomByCode = useCallback(async (roomCodeRaw: string, inviteId?: string): Promise<void> => {
     markUserInteracted();
     const roomCode = roomCodeRaw.trim().toUpperCase();
     if (!roomCode) return;
@@ -2505,9 +2848,9 @@ export default function GameView(): JSX.Element {
 
     setRoomsError(null);
     setJoiningRoomCode(roomCode);
-    if (isMultiplayerDebugEnabled) diagnosticsStore.log('UI', 'INFO', 'joinRoomByCode:start', { roomCode });
+    if (isMultiplayerDebugEnabled) diagnosticsStore.log('UI', 'INFO', 'joinRoomByCode:start', { roomCode, viaInvite: Boolean(inviteId) });
     try {
-      const result = await joinRoom(roomCode);
+      const result = inviteId ? await acceptRoomInvite(roomCode, inviteId) : await joinRoom(roomCode);
       if (!result) {
         setRoomsError('Join failed');
         if (isMultiplayerDebugEnabled) diagnosticsStore.log('ROOM', 'ERROR', 'joinRoomByCode:failed', { roomCode, reason: 'Join failed' });
@@ -2515,7 +2858,13 @@ export default function GameView(): JSX.Element {
       }
 
       if (result.error) {
-        setRoomsError(mapRoomError(result.error));
+        if (inviteId && result.error === 'wrong_password') {
+          // The invite no longer counts and this room has a password.
+          setRoomsError('Приглашение истекло, для входа нужен пароль комнаты');
+          setRoomInvites((prev) => prev.filter((invite) => invite.inviteId !== inviteId));
+        } else {
+          setRoomsError(mapRoomError(result.error));
+        }
         if (isMultiplayerDebugEnabled) diagnosticsStore.log('ROOM', 'ERROR', 'joinRoomByCode:error', { roomCode, error: result.error });
         return;
       }
@@ -2523,6 +2872,7 @@ export default function GameView(): JSX.Element {
       setCurrentRoom(result.room);
       setCurrentRoomMembers(result.members);
       setCurrentMatchId(null);
+      setRoomInvites((prev) => prev.filter((invite) => invite.roomCode !== roomCode));
       if (isMultiplayerDebugEnabled) diagnosticsStore.log('ROOM', 'INFO', 'joinRoomByCode:success', { roomCode, members: result.members.length });
       const [rooms, availableRooms] = await Promise.all([fetchMyRooms(), fetchPublicRooms()]);
       setMyRooms(rooms);
@@ -2532,6 +2882,23 @@ export default function GameView(): JSX.Element {
     }
   }, [currentRoom?.roomCode, isMultiplayerDebugEnabled, joiningRoomCode, markUserInteracted]);
 
+  const spectateRoomByCode = useCallback(async (roomCodeRaw: string): Promise<void> => {
+    markUserInteracted();
+    const roomCode = roomCodeRaw.trim().toUpperCase();
+    if (!roomCode) return;
+    if (currentRoom) {
+      setRoomsError('Leave your room before watching another match.');
+      return;
+    }
+
+    setRoomsError(null);
+    pendingSpectateRoomCodeRef.current = roomCode;
+    // Strangers may only watch with an invite; friends of the players need nothing.
+    const inviteId = roomInvites.find((invite) => invite.roomCode === roomCode)?.inviteId;
+    ws.send({ type: 'room:spectate', roomId: roomCode, tgUserId: localTgUserId, ...(inviteId ? { inviteId } : {}) });
+    if (isMultiplayerDebugEnabled) diagnosticsStore.log('ROOM', 'INFO', 'spectateRoomByCode:start', { roomCode });
+  }, [currentRoom, isMultiplayerDebugEnabled, localTgUserId, markUserInteracted, roomInvites, ws]);
+
   const resumeRoomByCode = useCallback(async (roomCodeRaw: string, expectedMatchId: string | null = null): Promise<void> => {
     const roomCode = roomCodeRaw.trim().toUpperCase();
     if (!roomCode) {
@@ -2997,13 +3364,13 @@ export default function GameView(): JSX.Element {
     }
   }, [deepLinkJoinCode, isMultiplayerDebugEnabled, multiplayerUiOpen, rejoinOverlayActive, rejoinPhase, resumeJoinInProgress, ws.messages]);
 
-  const onCreateRoom = useCallback(async (capacity: 2 | 3 | 4): Promise<void> => {
+  const onCreateRoom = useCallback(async (capacity: 2 | 3 | 4, friendlyFire = false): Promise<void> => {
     markUserInteracted();
     setRoomsError(null);
     setCreatingRoom(true);
-    if (isMultiplayerDebugEnabled) diagnosticsStore.log('UI', 'INFO', 'onCreateRoom:start', { capacity });
+    if (isMultiplayerDebugEnabled) diagnosticsStore.log('UI', 'INFO', 'onCreateRoom:start', { capacity, friendlyFire });
     try {
-      const created = await createRoom(capacity);
+      const created = await createRoom(capacity, friendlyFire);
       if (!created) {
         setRoomsError('Failed to create room');
         if (isMultiplayerDebugEnabled) diagnosticsStore.log('ROOM', 'ERROR', 'onCreateRoom:failed');
@@ -3028,6 +3395,10 @@ export default function GameView(): JSX.Element {
 
   const clearMultiplayerSessionForModeSwitch = useCallback((): void => {
     ws.send({ type: 'room:leave' });
+    pendingSpectateRoomCodeRef.current = null;
+    setSpectatingRoomCode(null);
+    setSpectatorTargets([]);
+    sceneRef.current?.setSpectatorFollowTarget(null);
     clearLastSession();
     stopResumeCountdown();
     setMultiplayerUiOpen(false);
@@ -3039,6 +3410,7 @@ export default function GameView(): JSX.Element {
     setCurrentRoom(null);
     setCurrentRoomMembers([]);
     setCurrentMatchId(null);
+    setMatchRuleset(null);
     setMultiplayerLivesByUserId({});
     setMultiplayerDisconnectedByUserId({});
     setRestartVote(null);
@@ -3211,6 +3583,57 @@ export default function GameView(): JSX.Element {
     }
   }, [currentRoom?.roomCode, currentRoomMembers, isMultiplayerDebugEnabled, localTgUserId]);
 
+  const onSetTeam = useCallback(async (team: number | null): Promise<void> => {
+    if (!currentRoom?.roomCode || !localTgUserId) return;
+
+    setRoomsError(null);
+    const result = await setRoomTeam(currentRoom.roomCode, team);
+    if (!result) {
+      setRoomsError('Team update failed');
+      return;
+    }
+    if (result.error) {
+      setRoomsError(mapRoomError(result.error));
+      return;
+    }
+    setCurrentRoom(result.room);
+    setCurrentRoomMembers(result.members);
+  }, [currentRoom?.roomCode, localTgUserId]);
+
+  const onBalanceTeams = useCallback(async (): Promise<void> => {
+    if (!currentRoom?.roomCode) return;
+
+    setRoomsError(null);
+    const result = await balanceRoomTeams(currentRoom.roomCode);
+    if (!result) {
+      setRoomsError('Team update failed');
+      return;
+    }
+    if (result.error) {
+      setRoomsError(mapRoomError(result.error));
+      return;
+    }
+    setCurrentRoom(result.room);
+    setCurrentRoomMembers(result.members);
+  }, [currentRoom?.roomCode]);
+
+  const onSetRuleset = useCallback(async (ruleset: Partial<MatchRuleset>): Promise<void> => {
+    if (!currentRoom?.roomCode) return;
+
+    setRoomsError(null);
+    const result = await setRoomRuleset(currentRoom.roomCode, ruleset);
+    if (!result) {
+      setRoomsError('Ruleset update failed');
+      return;
+    }
+    if (result.error) {
+      setRoomsError(mapRoomError(result.error));
+      return;
+    }
+    setCurrentRoom(result.room);
+    setCurrentRoomMembers(result.members);
+  }, [currentRoom?.roomCode]);
+
   const onStartRoom = useCallback(async (): Promise<void> => {
     if (!currentRoom?.roomCode) return;
 
@@ -3308,7 +3731,7 @@ export default function GameView(): JSX.Element {
     await loadFriends();
   }, [loadFriends]);
 
-  const onInviteFriend = useCallback(async (_tgUserId: string): Promise<void> => {
+  const onInviteFriend = useCallback(async (tgUserId: string): Promise<void> => {
     let roomCode = currentRoom?.roomCode;
     if (!roomCode) {
       const created = await createRoom(2);
@@ -3325,7 +3748,19 @@ export default function GameView(): JSX.Element {
       return;
     }
 
-    const inviteUrl = `${window.location.origin}${window.location.pathname}?startapp=room_${roomCode}`;
+    setFriendsError(null);
+    const result = await inviteFriendToRoom(roomCode, tgUserId);
+    if (!result) {
+      setFriendsError('Invite failed');
+      return;
+    }
+    if (!result.ok) {
+      setFriendsError(result.error === 'not_friends' ? 'Only friends can be invited' : mapRoomError(result.error));
+      return;
+    }
+
+    // Online friends already got the invite live; the link covers everyone else.
+    const inviteUrl = result.deepLink ?? `${window.location.origin}${window.location.pathname}?startapp=${result.startParam}`;
     try {
       await navigator.clipboard.writeText(inviteUrl);
     } catch {
@@ -3333,6 +3768,113 @@ export default function GameView(): JSX.Element {
     }
   }, [currentRoom?.roomCode, joinRoomByCode]);
 
+  const enterMatchmadeRoom = useCallback(async (roomCode: string): Promise<void> => {
+    const roomData = await fetchRoom(roomCode);
+    if (!roomData || roomData.error) {
+      setRoomsError(mapRoomError(roomData?.error ?? 'room_not_found'));
+      return;
+    }
+
+    // The room already lists us; setting it makes the socket join, and the server starts the match once everyone is in.
+    setCurrentRoom(roomData.room);
+    setCurrentRoomMembers(roomData.members);
+    setCurrentMatchId(null);
+    if (isMultiplayerDebugEnabled) diagnosticsStore.log('ROOM', 'INFO', 'matchmaking:room_entered', { roomCode, members: roomData.members.length });
+  }, [isMultiplayerDebugEnabled]);
+
+  const queueMatchmaking = useCallback(async (mode: MatchmakingMode): Promise<void> => {
+    markUserInteracted();
+    setRoomsError(null);
+    ws.send({ type: 'mm:enqueue', mode });
+  }, [markUserInteracted, ws]);
+
+  const cancelMatchmaking = useCallback(async (): Promise<void> => {
+    ws.send({ type: 'mm:cancel' });
+  }, [ws]);
+
+  const respondMatchmaking = useCallback(async (accept: boolean): Promise<void> => {
+    if (!matchmakingOffer) return;
+    markUserInteracted();
+    ws.send({ type: accept ? 'mm:accept' : 'mm:decline', proposalId: matchmakingOffer.proposalId });
+  }, [markUserInteracted, matchmakingOffer, ws]);
+
+  // The server drops the ticket when our last socket closes, so a reconnect starts from idle.
+  useEffect(() => {
+    if (ws.connected) return;
+    setMatchmakingStatus(null);
+    setMatchmakingOffer(null);
+  }, [ws.connected]);
+
+  useEffect(() => {
+    for (const message of ws.messages) {
+      if (message.type !== 'mm:status' && message.type !== 'mm:matched') continue;
+      if (handledUserNoticesRef.current.has(message)) continue;
+      handledUserNoticesRef.current.add(message);
+
+      if (message.type === 'mm:matched') {
+        setMatchmakingOffer(message);
+        setMultiplayerUiOpen(true);
+        continue;
+      }
+
+      setMatchmakingStatus(message);
+      if (message.state !== 'proposed') setMatchmakingOffer(null);
+      if (message.state === 'starting' && message.roomCode) void enterMatchmadeRoom(message.roomCode);
+    }
+  }, [enterMatchmadeRoom, ws.messages]);
+
+  // Friend notices can come from any backend node; presence patches the list, other changes refetch it.
+  useEffect(() => {
+    let friendsChanged = false;
+    for (const message of ws.messages) {
+      if (message.type !== 'friend:presence' && message.type !== 'friends:changed') continue;
+      if (handledUserNoticesRef.current.has(message)) continue;
+      handledUserNoticesRef.current.add(message);
+
+      if (message.type === 'friends:changed') {
+        friendsChanged = true;
+        continue;
+      }
+
+      const { tgUserId, online } = message;
+      setFriendsList((prev) => prev.map((friend) => (friend.tgUserId === tgUserId ? { ...friend, online } : friend)));
+    }
+
+    if (friendsChanged) void loadFriends();
+  }, [loadFriends, ws.messages]);
+
+  useEffect(() => {
+    for (const message of ws.messages) {
+      if (message.type !== 'invite:received') continue;
+      if (handledUserNoticesRef.current.has(message)) continue;
+      handledUserNoticesRef.current.add(message);
+
+      setRoomInvites((prev) => [...prev.filter((invite) => invite.inviteId !== message.inviteId && invite.roomCode !== message.roomCode), message]);
+    }
+  }, [ws.messages]);
+
+  useEffect(() => {
+    if (roomInvites.length === 0) return;
+    const nextExpiryMs = Math.min(...roomInvites.map((invite) => invite.expiresAtMs));
+    const timeout = setTimeout(() => {
+      setRoomInvites((prev) => prev.filter((invite) => invite.expiresAtMs > Date.now()));
+    }, Math.max(0, nextExpiryMs - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [roomInvites]);
+
+  const dismissRoomInvite = useCallback((inviteId: string): void => {
+    setRoomInvites((prev) => prev.filter((invite) => invite.inviteId !== inviteId));
+  }, []);
+
+  const openRoomInvites = useCallback((): void => {
+    markUserInteracted();
+    if (gameMode === 'sp') {
+      clearSingleplayerSessionForModeSwitch();
+    }
+    setGameMode('mp');
+    setMultiplayerUiOpen(true);
+  }, [clearSingleplayerSessionForModeSwitch, gameMode, markUserInteracted]);
+
 
   useEffect(() => {
     if (!isStoreOpen) return;
@@ -3344,6 +3886,12 @@ export default function GameView(): JSX.Element {
     void loadLeaderboard(leaderboardMode);
   }, [leaderboardMode, leaderboardOpen, loadLeaderboard]);
 
+  useEffect(() => {
+    if (!leaderboardOpen || !matchHistoryTabActive) return;
+    setMatchDetail(null);
+    void loadMatchHistory();
+  }, [leaderboardOpen, loadMatchHistory, matchHistoryTabActive]);
+
   useEffect(() => {
     if (!leaderboardOpen) return;
     setLeaderboardMode(activeLeaderboardMode);
@@ -3368,6 +3916,12 @@ export default function GameView(): JSX.Element {
         return;
       }
 
+      // Team matches are submitted by the server for the winning team.
+      if (matchEndState?.winnerTeam !== undefined) {
+        await loadLeaderboard(activeLeaderboardMode);
+        return;
+      }
+
       const members: TeamLeaderboardMember[] = currentRoomMembers
         .map((member) => ({
           tgUserId: member.tgUserId,
@@ -3415,7 +3969,9 @@ export default function GameView(): JSX.Element {
 
     if (!startParam?.startsWith('room_')) return;
 
-    const deepLinkRoomCode = startParam.replace('room_', '').trim().toUpperCase();
+    // room_<CODE>, or room_<CODE>_<inviteId> from a friend's invite.
+    const [deepLinkRoomCodeRaw, deepLinkInviteRaw] = startParam.slice('room_'.length).split('_');
+    const deepLinkRoomCode = (deepLinkRoomCodeRaw ?? '').trim().toUpperCase();
     if (!deepLinkRoomCode) return;
 
     if (gameMode === 'sp') {
@@ -3423,6 +3979,7 @@ export default function GameView(): JSX.Element {
     }
     setGameMode('mp');
     setDeepLinkJoinCode(deepLinkRoomCode);
+    setDeepLinkInviteId(deepLinkInviteRaw?.trim() || null);
     setMultiplayerUiOpen(true);
   }, [clearSingleplayerSessionForModeSwitch, gameMode, token]);
 
@@ -3715,16 +4272,17 @@ export default function GameView(): JSX.Element {
   const bootProgressPercent = Math.round(bootSplashProgress * 100);
 
   const isMultiplayerHud = currentRoomMembers.length >= 2;
+  const hudMaxLives = isMultiplayerHud ? (matchRuleset?.lives ?? 3) : 3;
   const renderHudLives = (member: RoomMember | null, ref?: Ref<HTMLSpanElement>): JSX.Element | null => {
     if (!member) return null;
 
     const lives = isMultiplayerHud
-      ? Math.max(0, Math.min(3, multiplayerLivesByUserId[member.tgUserId] ?? 0))
-      : Math.max(0, Math.min(3, lifeState.lives));
+      ? Math.max(0, Math.min(hudMaxLives, multiplayerLivesByUserId[member.tgUserId] ?? 0))
+      : Math.max(0, Math.min(hudMaxLives, lifeState.lives));
 
     return (
       <span ref={ref} className="hud-lives" aria-label="Lives" title="Lives">
-        {Array.from({ length: 3 }, (_, index) => {
+        {Array.from({ length: hudMaxLives }, (_, index) => {
           const isFullHeart = index < lives;
           return (
             <span
@@ -3873,6 +4431,34 @@ export default function GameView(): JSX.Element {
           </div>
         </div>
       )}
+      {killFeed.length > 0 && (
+        <div className="rr-kill-feed" aria-live="polite">
+          {killFeed.map((entry) => (
+            <div key={entry.id} className={`rr-kill-feed-entry${entry.involvesMe ? ' rr-kill-feed-entry--me' : ''}`}>{entry.text}</div>
+          ))}
+        </div>
+      )}
+      {roomInvites.length > 0 && !currentRoom && !multiplayerUiOpen && (
+        <div className="rr-room-invite-banner" role="status">
+          <span>{roomInvites[roomInvites.length - 1]!.fromDisplayName} invited you to play</span>
+          <button type="button" onClick={openRoomInvites}>View</button>
+          <button type="button" className="ghost" aria-label="Dismiss invite" onClick={() => dismissRoomInvite(roomInvites[roomInvites.length - 1]!.inviteId)}>×</button>
+        </div>
+      )}
+      {ws.drainDeadlineMs !== null && currentRoom?.phase === 'STARTED' && (
+        <div className="rr-server-draining-banner" role="status">Server restarting — your match will resume shortly</div>
+      )}
+      {ws.clientOutdated && (
+        <div className="rr-resume-overlay" role="dialog" aria-modal="true" aria-label="Update required">
+          <div className="rr-overlay-modal rr-resume-modal rr-mode-exit-modal">
+            <p className="rr-resume-title">Update required</p>
+            <p className="rr-mode-exit-body">A newer version of Rift Runners is live. Reload to keep playing online.</p>
+            <div className="rr-resume-actions">
+              <button type="button" className="rr-resume-btn rr-resume-btn--accept" onClick={() => window.location.reload()}>Reload</button>
+            </div>
+          </div>
+        </div>
+      )}
       {registrationOpen && (
         <div className="settings-overlay rr-overlay" role="dialog" aria-modal="true" aria-label="Create your player">
           <form className="settings-modal rr-overlay-modal" onSubmit={(event) => { void onSubmitNickname(event); }}>
@@ -3977,15 +4563,50 @@ export default function GameView(): JSX.Element {
           </div>
         </div>
       )}
-      {gameFlowPhase === 'playing' && isMultiplayerMode && currentRoom?.phase === 'FINISHED' && !isRestartVoteActive && (
+      {gameFlowPhase === 'playing' && isMultiplayerMode && currentRoom?.phase === 'FINISHED' && !isRestartVoteActive && replayStatus !== 'playing' && (
         <div className="waiting-overlay" role="dialog" aria-modal="true" aria-label="Match finished">
           <div className="waiting-overlay__card">
-            <strong>{matchEndState?.winnerTgUserId ? `Winner: ${matchEndState.winnerTgUserId}` : 'Draw'}</strong>
-            <p>{matchEndState?.reason === 'draw' ? 'All players eliminated.' : 'Elimination victory.'}</p>
+            <strong>
+              {matchEndState?.winnerTeam != null
+                ? `Winner: ${formatTeamLabel(matchEndState.winnerTeam)}`
+                : matchEndState?.winnerTgUserId ? `Winner: ${matchEndState.winnerTgUserId}` : 'Draw'}
+            </strong>
+            <p>{matchEndState?.reason === 'timeout' ? 'Sudden death closed the arena.' : matchEndState?.reason === 'draw' ? 'All players eliminated.' : 'Elimination victory.'}</p>
             <button type="button" onClick={proposeRestart}>Restart Match</button>
+            {matchEndState?.matchId ? (
+              <button
+                type="button"
+                className="ghost"
+                disabled={replayStatus === 'loading'}
+                onClick={() => void watchMatchReplay(matchEndState.matchId)}
+              >
+                {replayStatus === 'loading' ? 'Loading replay…' : 'Watch Replay'}
+              </button>
+            ) : null}
+            {replayStatus === 'unavailable' ? <p>Replay is not available yet.</p> : null}
           </div>
         </div>
       )}
+      {replayStatus === 'playing' && (
+        <div className="replay-hud" role="status" aria-live="polite">
+          <span className="replay-hud__label">Replay</span>
+          <button type="button" className="ghost" onClick={stopMatchReplay}>Exit Replay</button>
+        </div>
+      )}
+      {spectatorCameraActive && replayStatus !== 'playing' && (
+        <div className="replay-hud" role="status" aria-live="polite">
+          <span className="replay-hud__label">
+            {isSpectating ? `Spectating ${spectatingRoomCode}` : 'Spectating'}
+            {spectatorFollowTarget ? ` · ${spectatorFollowTarget.displayName}` : ''}
+            {isSpectating && spectatorDelayMs > 0 ? ` · ${Math.round(spectatorDelayMs / 1000)}s delay` : ''}
+          </span>
+          <button type="button" className="ghost" disabled={spectatorTargets.length < 2} onClick={() => cycleSpectatorTarget(-1)}>Prev</button>
+          <button type="button" className="ghost" disabled={spectatorTargets.length < 2} onClick={() => cycleSpectatorTarget(1)}>Next</button>
+          {isSpectating ? (
+            <button type="button" className="ghost" onClick={() => { void switchToSingleplayerFromMultiplayer(); }}>Stop watching</button>
+          ) : null}
+        </div>
+      )}
       {showAliveRestartVotePrompt && (
         <div className="restart-vote-hud" role="status" aria-live="polite">
           <span className="restart-vote-hud__label">Restart vote: {restartVote?.yesCount ?? 0}/{restartVote?.total ?? 0}</span>
@@ -4034,6 +4655,12 @@ export default function GameView(): JSX.Element {
           </div>
           <div className="hud-right">
             <div className="hud-cards">
+              {isMultiplayerHud && matchRuleset ? (
+                <div className="hud-card">
+                  <div className="hud-card__label">Rules</div>
+                  <div className="hud-card__value">{RULESET_PRESET_LABELS[matchRuleset.preset]}</div>
+                </div>
+              ) : null}
               <div className="hud-card">
                 <div className="hud-card__label">Stage</div>
                 <div className="hud-card__value">{campaign.stage}</div>
@@ -4241,11 +4868,69 @@ export default function GameView(): JSX.Element {
             { key: 'duo', label: 'Duo' },
             { key: 'trio', label: 'Trio' },
             { key: 'squad', label: 'Squad' },
+            { key: 'history', label: 'History' },
           ] as const)}
-          activeTab={leaderboardMode}
-          onTabChange={(mode) => setLeaderboardMode(mode as LeaderboardMode)}
+          activeTab={matchHistoryTabActive ? 'history' : leaderboardMode}
+          onTabChange={(tab) => {
+            setMatchHistoryTabActive(tab === 'history');
+            if (tab !== 'history') setLeaderboardMode(tab as LeaderboardMode);
+          }}
           onClose={() => setLeaderboardOpen(false)}
         >
+          {matchHistoryTabActive ? (
+            <div className="rr-match-history">
+              {matchHistoryError ? <div>{matchHistoryError}</div> : null}
+              {matchDetail ? (
+                <>
+                  <button type="button" className="ghost" onClick={() => setMatchDetail(null)}>Back</button>
+                  <div className="settings-kv">
+                    <span>{matchDetail.mode === 'team' ? 'Team match' : 'Free-for-all'} · {new Date(matchDetail.endedAtMs).toLocaleString()}</span>
+                    <strong>{Math.round((matchDetail.endTick * SERVER_TICK_MS) / 1000)}s</strong>
+                  </div>
+                  {matchDetail.players.map((player) => (
+                    <div key={player.tgUserId} className={`rr-match-history-player${player.tgUserId === localTgUserId ? ' rr-match-history-player--me' : ''}`}>
+                      <div className="settings-kv">
+                        <span>#{player.placement} {player.displayName}{player.team !== null ? ` · ${formatTeamLabel(player.team)}` : ''}</span>
+                        <strong>{player.ratingAfter} ({player.ratingAfter - player.ratingBefore >= 0 ? '+' : ''}{player.ratingAfter - player.ratingBefore})</strong>
+                      </div>
+                      <div className="rr-match-history-stats">
+                        Kills {player.stats.kills} · Bombs {player.stats.bombsPlaced} · Tiles {player.stats.tilesDestroyed}
+                        {' · '}Deaths {player.stats.deathsByExplosion + player.stats.deathsByEnemy} ({player.stats.deathsByEnemy} by enemies)
+                        {' · '}Survived {Math.round((player.stats.survivalTicks * SERVER_TICK_MS) / 1000)}s
+                      </div>
+                    </div>
+                  ))}
+                </>
+              ) : matchHistory.length === 0 ? (
+                <div>{matchHistoryLoading ? 'Loading match history...' : 'No multiplayer matches yet.'}</div>
+              ) : (
+                <>
+                  {matchHistory.map((entry) => (
+                    <button
+                      key={entry.matchId}
+                      type="button"
+                      className="leaderboard-row lb-row--neutral rr-match-history-row"
+                      onClick={() => { void openMatchDetail(entry.matchId); }}
+                    >
+                      <div className="leaderboard-row__left">
+                        <span className="leaderboard-rank">#{entry.placement}/{entry.playersCount}</span>
+                        <span className="leaderboard-name">
+                          {entry.mode === 'team' ? 'Team' : 'FFA'} · {new Date(entry.endedAtMs).toLocaleDateString()} · {entry.stats.kills} kills
+                        </span>
+                      </div>
+                      <strong className="leaderboard-score">{entry.ratingAfter - entry.ratingBefore >= 0 ? '+' : ''}{entry.ratingAfter - entry.ratingBefore}</strong>
+                    </button>
+                  ))}
+                  {matchHistoryNextBefore !== null ? (
+                    <button type="button" className="ghost" disabled={matchHistoryLoading} onClick={() => { void loadMatchHistory(matchHistoryNextBefore); }}>
+                      {matchHistoryLoading ? 'Loading...' : 'Load more'}
+                    </button>
+                  ) : null}
+                </>
+              )}
+            </div>
+          ) : (
+            <>
               {leaderboardLoading ? (
                 <div>Loading leaderboard...</div>
               ) : leaderboardError ? (
@@ -4280,6 +4965,8 @@ export default function GameView(): JSX.Element {
               ) : (
                 <div>No personal record yet.</div>
               )}
+            </>
+          )}
           </RROverlayModal>
       )}
 
@@ -4343,6 +5030,7 @@ export default function GameView(): JSX.Element {
         initialTab={deepLinkJoinCode ? 'room' : undefined}
         initialRoomTab={deepLinkJoinCode ? 'join' : undefined}
         initialJoinCode={deepLinkJoinCode ?? undefined}
+        initialInviteId={deepLinkInviteId ?? undefined}
         autoJoin={Boolean(deepLinkJoinCode)}
         roomsLoading={roomsLoading}
         roomsError={roomsError}
@@ -4355,12 +5043,21 @@ export default function GameView(): JSX.Element {
         startingRoom={startingRoom}
         onCreateRoom={onCreateRoom}
         onJoinRoomByCode={joinRoomByCode}
+        onSpectateRoomByCode={spectateRoomByCode}
         onSearchPublicRooms={loadRooms}
         onLeaveRoom={onLeaveRoom}
         onCloseRoom={onCloseRoom}
         onStartRoom={onStartRoom}
         onToggleReady={onToggleReady}
+        onSetTeam={onSetTeam}
+        onBalanceTeams={onBalanceTeams}
+        onSetRuleset={onSetRuleset}
         onCopyInviteLink={onCopyInviteLink}
+        matchmakingStatus={matchmakingStatus}
+        matchmakingOffer={matchmakingOffer}
+        onQueueMatchmaking={queueMatchmaking}
+        onCancelMatchmaking={cancelMatchmaking}
+        onRespondMatchmaking={respondMatchmaking}
         friendsLoading={friendsLoading}
         friendsError={friendsError}
         friendsList={friendsList}
@@ -4369,10 +5066,15 @@ export default function GameView(): JSX.Element {
         onSendFriendRequest={onSendFriendRequest}
         onRespondFriendRequest={onRespondFriendRequest}
         onInviteFriend={onInviteFriend}
+        roomInvites={roomInvites}
+        onDismissRoomInvite={dismissRoomInvite}
         referralLink={accountInfo?.referralLink ?? ''}
         onCopyReferralLink={onCopyReferral}
         localTgUserId={localTgUserId}
-        onConsumeInitialJoinCode={() => setDeepLinkJoinCode(null)}
+        onConsumeInitialJoinCode={() => {
+          setDeepLinkJoinCode(null);
+          setDeepLinkInviteId(null);
+        }}
       />
 
       {settingsOpen && (
@@ -4485,6 +5187,7 @@ export default function GameView(): JSX.Element {
         tickDebugStats={tickDebugStats}
         rttMs={ws.rttMs}
         rttJitterMs={ws.rttJitterMs}
+        bandwidthStats={ws.bandwidthStats}
         localInputSeq={inputSeqRef.current}
         onLobby={() => ws.send({ type: 'lobby:list' })}
         onCreateRoom={() => ws.send({ type: 'room:create' })}
@@ -8,9 +8,18 @@ import type {
   RoomMember,
   RoomState,
 } from '../game/wallet';
+import type {
+  MatchmakingMatched,
+  MatchmakingMode,
+  MatchmakingStatus,
+  MatchmakingStatusReason,
+  MatchRuleset,
+  MatchRulesetPreset,
+  RoomInviteReceived,
+} from '@shared/protocol';
 
 type MainTab = 'friends' | 'find' | 'room' | 'browse' | 'referral';
-type RoomScreen = 'home' | 'create' | 'join' | 'lobby';
+type RoomScreen = 'home' | 'create' | 'join' | 'quick' | 'lobby';
 type SlotPosition = 'nw' | 'ne' | 'sw' | 'se';
 
 type Props = {
@@ -19,6 +28,7 @@ type Props = {
   initialTab?: 'room' | 'friends';
   initialRoomTab?: 'create' | 'join';
   initialJoinCode?: string;
+  initialInviteId?: string;
   autoJoin?: boolean;
   roomsLoading: boolean;
   roomsError: string | null;
@@ -30,14 +40,23 @@ type Props = {
   creatingRoom: boolean;
   settingReady: boolean;
   startingRoom: boolean;
-  onCreateRoom: (capacity: 2 | 3 | 4) => Promise<void>;
-  onJoinRoomByCode: (code: string) => Promise<void>;
+  onCreateRoom: (capacity: 2 | 3 | 4, friendlyFire?: boolean) => Promise<void>;
+  onJoinRoomByCode: (code: string, inviteId?: string) => Promise<void>;
+  onSpectateRoomByCode: (code: string) => Promise<void>;
   onSearchPublicRooms: (query?: string) => Promise<void>;
   onLeaveRoom: () => Promise<void>;
   onCloseRoom: () => Promise<void>;
   onStartRoom: () => Promise<void>;
   onToggleReady: () => Promise<void>;
+  onSetTeam: (team: number | null) => Promise<void>;
+  onBalanceTeams?: () => Promise<void>;
+  onSetRuleset: (ruleset: Partial<MatchRuleset>) => Promise<void>;
   onCopyInviteLink: () => Promise<void>;
+  matchmakingStatus?: MatchmakingStatus | null;
+  matchmakingOffer?: MatchmakingMatched | null;
+  onQueueMatchmaking?: (mode: MatchmakingMode) => Promise<void>;
+  onCancelMatchmaking?: () => Promise<void>;
+  onRespondMatchmaking?: (accept: boolean) => Promise<void>;
   friendsLoading: boolean;
   friendsError: string | null;
   friendsList: FriendEntry[];
@@ -46,6 +65,8 @@ type Props = {
   onSendFriendRequest: (tgUserId: string) => Promise<void>;
   onRespondFriendRequest: (fromTgUserId: string, action: 'accept' | 'decline') => Promise<void>;
   onInviteFriend: (tgUserId: string) => Promise<void>;
+  roomInvites?: RoomInviteReceived[];
+  onDismissRoomInvite?: (inviteId: string) => void;
   referralLink: string;
   onCopyReferralLink: () => Promise<void>;
   localTgUserId?: string;
@@ -53,6 +74,27 @@ type Props = {
 };
 
 const SLOT_POSITIONS: readonly SlotPosition[] = ['nw', 'ne', 'sw', 'se'];
+const TEAM_LABELS = ['Team A', 'Team B'] as const;
+export const RULESET_PRESET_LABELS: Record<MatchRulesetPreset, string> = {
+  classic: 'Classic',
+  sudden_death: 'Sudden death',
+  no_enemies: 'No enemies',
+  big_map: 'Big map',
+  custom: 'Custom',
+};
+const SELECTABLE_RULESET_PRESETS: readonly MatchRulesetPreset[] = ['classic', 'sudden_death', 'no_enemies', 'big_map'];
+const MATCHMAKING_MODES: readonly MatchmakingMode[] = [2, 3, 4];
+const MATCHMAKING_REASON_LABELS: Record<MatchmakingStatusReason, string> = {
+  declined: 'You declined the match.',
+  accept_timeout: 'Match not accepted in time.',
+  peer_declined: 'Another player declined — back in the queue.',
+  disconnected: 'Connection lost — you left the queue.',
+};
+
+function formatWaited(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
 
 export function MultiplayerModal({
   open,
@@ -60,6 +102,7 @@ export function MultiplayerModal({
   initialTab,
   initialRoomTab,
   initialJoinCode,
+  initialInviteId,
   autoJoin,
   roomsLoading,
   roomsError,
@@ -73,12 +116,21 @@ export function MultiplayerModal({
   startingRoom,
   onCreateRoom,
   onJoinRoomByCode,
+  onSpectateRoomByCode,
   onSearchPublicRooms,
   onLeaveRoom,
   onCloseRoom,
   onStartRoom,
   onToggleReady,
+  onSetTeam,
+  onBalanceTeams,
+  onSetRuleset,
   onCopyInviteLink,
+  matchmakingStatus = null,
+  matchmakingOffer = null,
+  onQueueMatchmaking,
+  onCancelMatchmaking,
+  onRespondMatchmaking,
   friendsLoading,
   friendsError,
   friendsList,
@@ -87,6 +139,8 @@ export function MultiplayerModal({
   onSendFriendRequest,
   onRespondFriendRequest,
   onInviteFriend,
+  roomInvites = [],
+  onDismissRoomInvite,
   referralLink,
   onCopyReferralLink,
   localTgUserId,
@@ -98,11 +152,15 @@ export function MultiplayerModal({
   const [friendTargetDraft, setFriendTargetDraft] = useState('');
   const [roomNameDraft, setRoomNameDraft] = useState('');
   const [roomPasswordDraft, setRoomPasswordDraft] = useState('');
+  const [friendlyFireDraft, setFriendlyFireDraft] = useState(false);
   const [createSlots, setCreateSlots] = useState<[boolean, boolean, boolean]>([true, false, false]);
   const [roomSearchDraft, setRoomSearchDraft] = useState('');
   const [passwordPromptRoomCode, setPasswordPromptRoomCode] = useState<string | null>(null);
   const [passwordPromptDraft, setPasswordPromptDraft] = useState('');
   const [passwordPromptError, setPasswordPromptError] = useState<string | null>(null);
+  const [quickModeDraft, setQuickModeDraft] = useState<MatchmakingMode>(2);
+  const [acceptedProposalId, setAcceptedProposalId] = useState<string | null>(null);
+  const [nowMs, setNowMs] = useState(() => Date.now());
   const autoJoinRef = useRef<string | null>(null);
 
   useEffect(() => {
@@ -138,8 +196,22 @@ export function MultiplayerModal({
     }
 
     autoJoinRef.current = code;
-    void onJoinRoomByCode(code);
-  }, [autoJoin, currentRoom?.roomCode, initialJoinCode, joiningRoomCode, onConsumeInitialJoinCode, onJoinRoomByCode, open]);
+    void onJoinRoomByCode(code, initialInviteId);
+  }, [autoJoin, currentRoom?.roomCode, initialInviteId, initialJoinCode, joiningRoomCode, onConsumeInitialJoinCode, onJoinRoomByCode, open]);
+
+  // An offer can arrive while the player looks at another tab.
+  useEffect(() => {
+    if (!open || !matchmakingOffer || currentRoom) return;
+    setActiveMainTab('room');
+    setRoomScreen('quick');
+  }, [currentRoom, matchmakingOffer, open]);
+
+  const matchmakingState = matchmakingStatus?.state ?? 'idle';
+  useEffect(() => {
+    if (!open || (matchmakingState !== 'searching' && matchmakingState !== 'proposed')) return;
+    const interval = setInterval(() => setNowMs(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, [matchmakingState, open]);
 
   const roomNameError = roomNameDraft.trim() ? null : 'Room name is required';
   const selectedCreateSlots = createSlots.filter(Boolean).length;
@@ -150,6 +222,7 @@ export function MultiplayerModal({
     () => currentRoomMembers.find((member) => member.tgUserId === localTgUserId)?.ready ?? false,
     [currentRoomMembers, localTgUserId],
   );
+  const myTeam = currentRoomMembers.find((member) => member.tgUserId === localTgUserId)?.team ?? null;
 
   const hostMember = useMemo(() => {
     if (!currentRoomMembers.length) return null;
@@ -163,6 +236,7 @@ export function MultiplayerModal({
   );
 
   const isHost = Boolean(localTgUserId && currentRoom?.ownerTgUserId && localTgUserId === currentRoom.ownerTgUserId);
+  const activeRulesetPreset = currentRoom?.ruleset?.preset ?? 'classic';
   const canStart = isHost
     && !startingRoom
     && (currentRoom?.phase ?? 'LOBBY') !== 'STARTED'
@@ -212,14 +286,14 @@ export function MultiplayerModal({
 
   const handleCreate = async (): Promise<void> => {
     if (roomNameError) return;
-    await onCreateRoom(apiCapacity);
+    await onCreateRoom(apiCapacity, friendlyFireDraft);
     setRoomScreen('lobby');
   };
 
-  const handleJoinByCode = async (codeRaw: string): Promise<void> => {
+  const handleJoinByCode = async (codeRaw: string, inviteId?: string): Promise<void> => {
     const code = codeRaw.trim().toUpperCase();
     if (!code) return;
-    await onJoinRoomByCode(code);
+    await onJoinRoomByCode(code, inviteId);
     setRoomScreen('lobby');
   };
 
@@ -317,7 +391,7 @@ export function MultiplayerModal({
                   <div key={friend.tgUserId} className="rr-mp-card">
                     <span className="rr-mp-avatar">👥</span>
                     <span className="rr-mp-card-label">{friend.displayName}</span>
-                    <span className="rr-mp-chip">friend</span>
+                    <span className={`rr-mp-chip ${friend.online ? 'online' : 'offline'}`}>{friend.online ? 'online' : 'offline'}</span>
                     <button type="button" className="rr-mp-mini-button" onClick={() => { void onInviteFriend(friend.tgUserId); }}>Invite</button>
                   </div>
                 ))}
@@ -329,8 +403,108 @@ export function MultiplayerModal({
             <section className="rr-mp-section rr-room-shell">
               {roomScreen === 'home' ? (
                 <div className="rr-room-home">
+                  {roomInvites.length > 0 ? (
+                    <div className="rr-room-invites">
+                      {roomInvites.map((invite) => (
+                        <div key={invite.inviteId} className="rr-mp-card">
+                          <span className="rr-mp-avatar">✉️</span>
+                          <span className="rr-mp-card-label">{invite.fromDisplayName} · {invite.roomCode}</span>
+                          <button
+                            type="button"
+                            className="rr-mp-mini-button"
+                            disabled={Boolean(joiningRoomCode)}
+                            onClick={() => { void handleJoinByCode(invite.roomCode, invite.inviteId); }}
+                          >
+                            {joiningRoomCode === invite.roomCode ? 'Joining...' : 'Join'}
+                          </button>
+                          <button type="button" className="rr-mp-mini-button ghost" onClick={() => onDismissRoomInvite?.(invite.inviteId)}>Dismiss</button>
+                        </div>
+                      ))}
+                      {roomsError ? <p className="rr-mp-error">{roomsError}</p> : null}
+                    </div>
+                  ) : null}
                   <button type="button" className="rr-room-home-action rr-room-home-action--create" onClick={() => setRoomScreen('create')}>Create</button>
                   <button type="button" className="rr-room-home-action rr-room-home-action--join" onClick={() => setRoomScreen('join')}>Join</button>
+                  {onQueueMatchmaking ? (
+                    <button type="button" className="rr-room-home-action rr-room-home-action--quick" onClick={() => setRoomScreen('quick')}>
+                      {matchmakingState === 'idle' ? 'Quick play' : 'Quick play · searching'}
+                    </button>
+                  ) : null}
+                </div>
+              ) : null}
+
+              {roomScreen === 'quick' ? (
+                <div className="rr-room-flow rr-room-flow--quick">
+                  <div className="rr-room-flow-head">
+                    <h4 className="rr-mp-section-title">Quick play</h4>
+                    <button type="button" className="ghost rr-room-back-button" onClick={() => setRoomScreen('home')}>Back</button>
+                  </div>
+
+                  {matchmakingOffer && matchmakingState === 'proposed' ? (
+                    <div className="rr-quick-offer">
+                      <strong>Match found · {matchmakingOffer.mode} players</strong>
+                      <ul className="rr-quick-offer-players">
+                        {matchmakingOffer.players.map((player) => (
+                          <li key={player.tgUserId}>
+                            <span>{player.displayName}{player.tgUserId === localTgUserId ? ' (you)' : ''}</span>
+                            <span className="rr-quick-rating">{player.rating}</span>
+                          </li>
+                        ))}
+                      </ul>
+                      <span className="rr-mp-empty">Accept within {Math.max(0, Math.ceil((matchmakingOffer.acceptDeadlineMs - nowMs) / 1000))}s</span>
+                      {acceptedProposalId === matchmakingOffer.proposalId ? (
+                        <p className="rr-mp-empty">Waiting for others…</p>
+                      ) : (
+                        <div className="rr-quick-actions">
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setAcceptedProposalId(matchmakingOffer.proposalId);
+                              void onRespondMatchmaking?.(true);
+                            }}
+                          >
+                            Accept
+                          </button>
+                          <button type="button" className="ghost" onClick={() => { void onRespondMatchmaking?.(false); }}>Decline</button>
+                        </div>
+                      )}
+                    </div>
+                  ) : null}
+
+                  {matchmakingState === 'searching' ? (
+                    <div className="rr-quick-searching">
+                      <strong>Searching for {matchmakingStatus?.mode ?? quickModeDraft} players…</strong>
+                      <span className="rr-quick-timer">{formatWaited(nowMs - (matchmakingStatus?.enqueuedAtMs ?? nowMs))}</span>
+                      {matchmakingStatus?.rating !== null && matchmakingStatus?.rating !== undefined ? (
+                        <span className="rr-mp-empty">Your rating: {matchmakingStatus.rating}</span>
+                      ) : null}
+                      <button type="button" className="ghost" onClick={() => { void onCancelMatchmaking?.(); }}>Cancel</button>
+                    </div>
+                  ) : null}
+
+                  {matchmakingState === 'starting' ? (
+                    <p className="rr-mp-empty">Joining room {matchmakingStatus?.roomCode ?? ''}…</p>
+                  ) : null}
+
+                  {matchmakingState === 'idle' ? (
+                    <>
+                      <div className="rr-quick-modes">
+                        {MATCHMAKING_MODES.map((mode) => (
+                          <button
+                            key={mode}
+                            type="button"
+                            className={quickModeDraft === mode ? 'active' : 'ghost'}
+                            onClick={() => setQuickModeDraft(mode)}
+                          >
+                            {mode} players
+                          </button>
+                        ))}
+                      </div>
+                      <button type="button" className="rr-room-create-cta" onClick={() => { void onQueueMatchmaking?.(quickModeDraft); }}>Find match</button>
+                    </>
+                  ) : null}
+
+                  {matchmakingStatus?.reason ? <p className="rr-mp-error">{MATCHMAKING_REASON_LABELS[matchmakingStatus.reason]}</p> : null}
                 </div>
               ) : null}
 
@@ -349,6 +523,10 @@ export function MultiplayerModal({
                       <input type="password" value={roomPasswordDraft} placeholder="Optional" onChange={(event) => setRoomPasswordDraft(event.target.value)} />
                     </label>
                   </div>
+                  <label className="rr-room-field rr-room-field--inline">
+                    <input type="checkbox" checked={friendlyFireDraft} onChange={(event) => setFriendlyFireDraft(event.target.checked)} />
+                    <span>Friendly fire in team matches</span>
+                  </label>
                   {roomNameError ? <p className="rr-mp-error">{roomNameError}</p> : null}
 
                   <div className="rr-room-corner-board">
@@ -456,6 +634,16 @@ export function MultiplayerModal({
                       >
                         {joiningRoomCode ? 'Joining...' : 'Join'}
                       </button>
+                      <button
+                        type="button"
+                        className="ghost"
+                        disabled={Boolean(joiningRoomCode) || !joinCodeDraft.trim()}
+                        onClick={() => {
+                          void onSpectateRoomByCode(joinCodeDraft);
+                        }}
+                      >
+                        Watch
+                      </button>
                     </div>
                   </div>
 
@@ -514,6 +702,7 @@ export function MultiplayerModal({
                         >
                           <strong>{slotDisabled ? 'Reserved slot' : (member?.displayName ?? 'Waiting for player')}</strong>
                           <span>{slotDisabled ? 'Not used for this room size' : (isSlotHost ? 'Host' : (member ? (isReady ? 'Ready' : 'Not ready') : 'Open slot'))}</span>
+                          {member?.team != null ? <span>{TEAM_LABELS[member.team] ?? `Team ${member.team + 1}`}</span> : null}
                           {isHost && member && !isSlotHost ? (
                             <button
                               type="button"
@@ -541,6 +730,43 @@ export function MultiplayerModal({
                     </div>
                   </div>
 
+                  <div className="rr-mp-inline-actions rr-room-ruleset-picker">
+                    {SELECTABLE_RULESET_PRESETS.map((preset) => (
+                      <button
+                        key={preset}
+                        type="button"
+                        className={activeRulesetPreset === preset ? 'rr-ready-button-on' : 'ghost'}
+                        disabled={!isHost || activeRulesetPreset === preset}
+                        onClick={() => { void onSetRuleset({ preset }); }}
+                      >
+                        {RULESET_PRESET_LABELS[preset]}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="rr-mp-inline-actions rr-room-team-picker">
+                    {TEAM_LABELS.map((label, team) => (
+                      <button
+                        key={label}
+                        type="button"
+                        className={myTeam === team ? 'rr-ready-button-on' : 'ghost'}
+                        onClick={() => { void onSetTeam(myTeam === team ? null : team); }}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    {isHost && onBalanceTeams ? (
+                      <button
+                        type="button"
+                        className="ghost"
+                        disabled={currentRoomMembers.length < 2 || currentRoom?.phase === 'STARTED'}
+                        onClick={() => { void onBalanceTeams(); }}
+                      >
+                        Balance by rating
+                      </button>
+                    ) : null}
+                  </div>
+
                   <div className="rr-mp-inline-actions rr-room-actions">
                     <button type="button" onClick={() => { void onCopyInviteLink(); }}>Copy invite link</button>
                     <button type="button" className="ghost" onClick={() => { void handleLeave(); }}>Leave room</button>
@@ -1,6 +1,6 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import type { NetSimConfig, NetSimPresetId } from '../ws/useWsClient';
-import type { WsDebugMetrics } from '../ws/wsTypes';
+import type { WsBandwidthStats, WsDebugMetrics } from '../ws/wsTypes';
 import { triggerDebugDrift } from '../game/LocalPredictionController';
 import { isDebugEnabled } from '../debug/debugFlags';
 
@@ -107,6 +107,7 @@ export function WsDebugOverlay({
   tickDebugStats,
   rttMs,
   rttJitterMs,
+  bandwidthStats,
   onCreateRoom,
   onStartMatch,
   onMove,
@@ -133,6 +134,7 @@ export function WsDebugOverlay({
   tickDebugStats: WsDebugMetrics | null;
   rttMs: number | null;
   rttJitterMs: number;
+  bandwidthStats: WsBandwidthStats;
   onCreateRoom: () => void;
   onStartMatch: () => void;
   onMove: (dir: 'up' | 'down' | 'left' | 'right') => void;
@@ -710,6 +712,10 @@ export function WsDebugOverlay({
             RTT: {(tickDebugStats?.rttMs ?? rttMs)?.toFixed(0) ?? '—'} ms | Jitter: {(tickDebugStats?.rttJitterMs ?? rttJitterMs).toFixed(0)} ms
           </div>
 
+          <div style={{ marginTop: 4 }}>
+            inbound: {(bandwidthStats.inboundBytesPerSec / 1024).toFixed(1)} KB/s | snapshots full/delta: {bandwidthStats.fullSnapshots}/{bandwidthStats.deltaSnapshots} | resyncs: {bandwidthStats.resyncs}
+          </div>
+
           <div style={{ marginTop: 4 }}>
             bufferSize: {tickDebugStats?.bufferSize ?? 0} | underrunRate: {((tickDebugStats?.underrunRate ?? 0) * 100).toFixed(1)}% | underruns: {tickDebugStats?.underrunCount ?? 0} | lateRate(EMA):{' '}
             {((tickDebugStats?.lateSnapshotEma ?? 0) * 100).toFixed(1)}% | lateCount: {tickDebugStats?.lateSnapshotCount ?? 0}
@@ -730,6 +736,9 @@ export function WsDebugOverlay({
           <div>
             bombGated: {String(tickDebugStats?.bombInputGated ?? false)} | bombGateReason: {tickDebugStats?.bombGateReason ?? '—'}
           </div>
+          <div>
+            ownBombs: {tickDebugStats?.ownBombsPlaced ?? 0} | rewound: {tickDebugStats?.ownBombsRewound ?? 0} | maxRewindTicks: {tickDebugStats?.maxBombRewindTicks ?? 0}
+          </div>
 
           <div style={{ marginTop: 4 }}>
             extrapCount: {tickDebugStats?.extrapCount ?? 0} | stallCount: {tickDebugStats?.stallCount ?? 0} | extrapTicks: {tickDebugStats?.extrapolatingTicks ?? 0} | stalled: {String(tickDebugStats?.stalled ?? false)}
@@ -1,7 +1,7 @@
 import Phaser from 'phaser';
 import { RemotePlayersRenderer } from './RemotePlayersRenderer';
 import { LocalPredictionController } from './LocalPredictionController';
-import type { EnemySnapshot, MatchSnapshotPlayer, MatchSnapshotV1 } from '@shared/protocol';
+import type { EnemySnapshot, ItemSnapshot, MatchReplay, MatchReplayEvent, MatchSnapshotPlayer, MatchSnapshotV1 } from '@shared/protocol';
 import {
   canOccupyCell,
   createArena,
@@ -65,6 +65,7 @@ import { createBossArena } from './boss/BossArena';
 import { generateBossNodeStones } from './level/bossNode';
 import { getDeterministicArenaTileTexture } from './tileTextures';
 import type {
+  BombModel,
   ControlsState,
   Direction,
   EnemyKind,
@@ -75,6 +76,7 @@ import type {
   FlameArmAxis,
   FlameModel,
   FlameSegmentKind,
+  ItemModel,
   LevelProgressModel,
   PlayerModel,
   PlayerStats,
@@ -105,6 +107,13 @@ const EXTRA_LIFE_STEP_SCORE = 1000;
 const MP_MOVE_TICKS_CONST = Math.max(1, Math.round(scaleMovementDurationMs(GAME_CONFIG.moveDurationMs) / (1000 / 20)));
 // Enemy MP smoothing: local constant to avoid touching player movement pipeline.
 const MP_MOVE_TICK_MS_ENEMY = 1000 / 20;
+const ENEMY_TEXTURE_BY_KIND: Record<EnemyKind, string> = {
+  normal: 'rr_enemy_basic',
+  elite: 'rr_enemy_elite',
+  chaser: 'rr_enemy_chaser',
+  bomb_avoider: 'rr_enemy_avoider',
+  wall_phaser: 'rr_enemy_phaser',
+};
 
 interface TileTweenSegment {
   fromX: number;
@@ -139,6 +148,13 @@ export class GameScene extends Phaser.Scene {
   private worldHashClient: string | null = null;
   private controls: ControlsState;
   private gameMode: GameMode = 'solo';
+  private replayPlayback: {
+    replay: MatchReplay;
+    viewerTgUserId: string;
+    nextFrameIndex: number;
+    startedAtMs: number | null;
+    onFinished?: () => void;
+  } | null = null;
   private partySize = 1;
   private pickupsSpawnedThisLevel = 0;
   private lives = INITIAL_LIVES;
@@ -260,6 +276,7 @@ export class GameScene extends Phaser.Scene {
   private flameBeamSprites = new Map<string, Phaser.GameObjects.Image>();
   private activeFlames = new Map<string, FlameModel>();
   private activeFlameBeams = new Map<string, FlameBeamModel>();
+  private arenaShrinkWarnings = new Map<string, Phaser.GameObjects.Rectangle>();
 
   private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;
   private spaceKey?: Phaser.Input.Keyboard.Key;
@@ -277,6 +294,8 @@ export class GameScene extends Phaser.Scene {
   private pinchStartZoom: number | null = null;
   private cameraFollowThresholdZoom: number = GAME_CONFIG.minZoom;
   private isCameraFollowingPlayer = false;
+  private spectatorFollowTgUserId: string | null = null;
+  private spectatorCameraTarget: Phaser.GameObjects.Container | null = null;
 
   constructor(controls: ControlsState) {
     super('GameScene');
@@ -464,6 +483,31 @@ export class GameScene extends Phaser.Scene {
       hasOuterHalo: true,
     });
 
+    createUnitTexture('rr_enemy_chaser', {
+      fillColor: 0xff9f43,
+      strokeColor: 0xfff3e3,
+      glowColor: 0xd9631e,
+      markerColor: 0xfff1a8,
+      eyeColor: 0x3a1a06,
+      hasOuterHalo: true,
+    });
+
+    createUnitTexture('rr_enemy_avoider', {
+      fillColor: 0x5fd39a,
+      strokeColor: 0xeafff4,
+      glowColor: 0x2f9e6a,
+      markerColor: 0xf2ffd0,
+      eyeColor: 0x0d2e1e,
+    });
+
+    createUnitTexture('rr_enemy_phaser', {
+      fillColor: 0x8fa3b8,
+      strokeColor: 0xf0f6ff,
+      glowColor: 0x5a6f87,
+      markerColor: 0xd9ecff,
+      eyeColor: 0x1a2433,
+    });
+
     createExplosionTexture('fx_explosion_core', 'core');
     createExplosionTexture('fx_explosion_beam_h', 'horizontal');
     createExplosionTexture('fx_explosion_beam_v', 'vertical');
@@ -475,7 +519,10 @@ export class GameScene extends Phaser.Scene {
   }
 
   update(time: number, delta: number): void {
-    if (this.isLevelCleared || this.awaitingSoloContinue || this.soloGameOver || this.multiplayerEliminated) return;
+    this.tickReplayPlayback(time);
+    if (this.isLevelCleared || this.awaitingSoloContinue || this.soloGameOver) return;
+    // Replays and the spectator camera keep rendering the rest of the match after the viewer is out.
+    if (this.multiplayerEliminated && !this.replayPlayback && !this.spectatorFollowTgUserId) return;
 
     this.accumulator += delta;
     while (this.accumulator >= this.FIXED_DT) {
@@ -503,6 +550,10 @@ export class GameScene extends Phaser.Scene {
         this.remotePlayers?.update(renderSimulationTick, this.snapshotBuffer, this.localTgUserId, this.needsNetResync);
       }
     }
+    // Remote sprites are created lazily from snapshots, so pick the target up once it exists.
+    if (this.spectatorFollowTgUserId) {
+      this.refreshSpectatorCameraTarget();
+    }
 
     this.consumeKeyboard();
     this.tickPlayerMovement(time);
@@ -950,6 +1001,7 @@ export class GameScene extends Phaser.Scene {
   private rebuildArenaTiles(): void {
     const stale = this.children.list.filter((child) => child.getData('arenaTile') === true);
     for (const node of stale) node.destroy();
+    this.arenaShrinkWarnings.clear();
 
     const { tileSize } = GAME_CONFIG;
     const themeId = this.getArenaThemeId();
@@ -1161,15 +1213,16 @@ export class GameScene extends Phaser.Scene {
   }
 
   private updateCameraFollowMode(): void {
-    if (!this.playerSprite) return;
+    const target = this.spectatorCameraTarget ?? this.playerSprite;
+    if (!target) return;
 
     const camera = this.cameras.main;
     const shouldFollow = camera.zoom > this.cameraFollowThresholdZoom;
 
     if (shouldFollow) {
       if (!this.isCameraFollowingPlayer) {
-        camera.centerOn(this.playerSprite.x, this.playerSprite.y);
-        camera.startFollow(this.playerSprite, true, 0.14, 0.14);
+        camera.centerOn(target.x, target.y);
+        camera.startFollow(target, true, 0.14, 0.14);
         this.isCameraFollowingPlayer = true;
       }
       return;
@@ -1179,7 +1232,31 @@ export class GameScene extends Phaser.Scene {
       camera.stopFollow();
       this.isCameraFollowingPlayer = false;
     }
-    camera.centerOn(this.playerSprite.x, this.playerSprite.y);
+    camera.centerOn(target.x, target.y);
+  }
+
+  /**
+   * Spectator camera: follow a remote player's sprite instead of the local one.
+   * Pass null to go back to following the local player.
+   */
+  public setSpectatorFollowTarget(tgUserId: string | null): void {
+    this.spectatorFollowTgUserId = tgUserId;
+    this.playerSprite?.setVisible(tgUserId === null);
+    this.refreshSpectatorCameraTarget(true);
+  }
+
+  private refreshSpectatorCameraTarget(force = false): void {
+    const next = this.spectatorFollowTgUserId
+      ? this.remotePlayers?.getPlayerContainer(this.spectatorFollowTgUserId) ?? null
+      : null;
+    if (!force && next === this.spectatorCameraTarget) return;
+
+    this.spectatorCameraTarget = next;
+    if (this.isCameraFollowingPlayer) {
+      this.cameras.main.stopFollow();
+      this.isCameraFollowingPlayer = false;
+    }
+    this.updateCameraFollowMode();
   }
 
   private getActivePointers(): Phaser.Input.Pointer[] {
@@ -1498,6 +1575,9 @@ export class GameScene extends Phaser.Scene {
   }
 
   private tryPickupItem(x: number, y: number): void {
+    // Multiplayer pickups are resolved by the server (match:item_picked).
+    if (this.gameMode === 'multiplayer') return;
+
     const item = pickupItem(this.arena, x, y);
     if (!item) return;
 
@@ -1741,6 +1821,25 @@ export class GameScene extends Phaser.Scene {
     this.doorIconSprite = undefined;
   }
 
+  // Extrapolates a kicked bomb along its slide, stopping short of the first
+  // blocking tile, until `match:bomb_stopped` pins it to its final cell.
+  private getBombRenderPosition(bomb: BombModel, time: number): { x: number; y: number } {
+    if (!bomb.slide) return bomb;
+
+    const { dx, dy, startedAtMs, msPerCell } = bomb.slide;
+    const travelled = Math.max(0, (time - startedAtMs) / msPerCell);
+    let freeCells = 0;
+    while (freeCells < travelled) {
+      const nx = bomb.x + dx * (freeCells + 1);
+      const ny = bomb.y + dy * (freeCells + 1);
+      if (!isInsideArena(this.arena, nx, ny) || this.arena.tiles[ny][nx] !== 'Floor') break;
+      freeCells += 1;
+    }
+
+    const distance = Math.min(travelled, freeCells);
+    return { x: bomb.x + dx * distance, y: bomb.y + dy * distance };
+  }
+
   private destroyBreakableSprite(x: number, y: number): void {
     const match = this.children.list.find((child) => {
       if (!(child instanceof Phaser.GameObjects.Image)) return false;
@@ -1793,8 +1892,9 @@ export class GameScene extends Phaser.Scene {
       const alpha = Phaser.Math.Linear(BOMB_PULSE_CONFIG.maxAlpha, BOMB_PULSE_CONFIG.minAlpha, warningRatio * (1 - remain));
       const shouldWarn = warningRatio > 0.1;
 
+      const renderPos = this.getBombRenderPosition(bomb, time);
       sprite
-        .setPosition(bomb.x * tileSize + tileSize / 2, bomb.y * tileSize + tileSize / 2)
+        .setPosition(renderPos.x * tileSize + tileSize / 2, renderPos.y * tileSize + tileSize / 2)
         .setTexture(this.getTextureKey(baseStyle))
         .setDisplaySize(tileSize * (baseStyle.scale ?? 0.7) * pulseScale, tileSize * (baseStyle.scale ?? 0.7) * pulseScale)
         .setOrigin(baseStyle.origin?.x ?? 0.5, baseStyle.origin?.y ?? 0.5)
@@ -1918,7 +2018,8 @@ export class GameScene extends Phaser.Scene {
 
       sprite
         .setPosition(renderGX * tileSize + tileSize / 2, renderGY * tileSize + tileSize / 2 + anim.hoverOffset)
-        .setTexture(enemy.kind === 'elite' ? 'rr_enemy_elite' : 'rr_enemy_basic')
+        .setTexture(ENEMY_TEXTURE_BY_KIND[enemy.kind])
+        .setAlpha(enemy.kind === 'wall_phaser' && this.arena.tiles[enemy.gridY]?.[enemy.gridX] === 'BreakableBlock' ? 0.55 : 1)
         .setAngle(this.getFacingAngle(enemy.facing) + anim.extraRotation)
         .setDisplaySize(tileSize * (style.scale ?? 0.72) * anim.scale, tileSize * (style.scale ?? 0.72) * anim.scale)
         .setOrigin(style.origin?.x ?? 0.5, style.origin?.y ?? 0.5);
@@ -2253,6 +2354,10 @@ export class GameScene extends Phaser.Scene {
     if (!isInsideArena(this.arena, nextX, nextY) || !canOccupyCell(this.arena, nextX, nextY)) {
       return false;
     }
+    // Match bombs are keyed by id, so canOccupyCell does not see them; the server kicks instead.
+    if (this.gameMode === 'multiplayer' && [...this.arena.bombs.values()].some((bomb) => bomb.x === nextX && bomb.y === nextY)) {
+      return false;
+    }
 
     this.player.moveFromX = this.player.gridX;
     this.player.moveFromY = this.player.gridY;
@@ -2704,10 +2809,15 @@ export class GameScene extends Phaser.Scene {
     if (!effectiveLocalId) return;
 
     this.syncEnemiesFromSnapshot(snapshot.enemies ?? []);
+    if (snapshot.world?.items) {
+      this.syncItemsFromSnapshot(snapshot.world.items);
+    }
 
     const me = snapshot.players?.find((p) => p.tgUserId === effectiveLocalId);
     if (!me) return;
 
+    this.syncLocalBombStats(me.bombCapacity, me.bombRange, me.remoteDetonate);
+
     if (!this.worldReady) {
       return;
     }
@@ -2755,6 +2865,38 @@ export class GameScene extends Phaser.Scene {
 
 
 
+  private syncItemsFromSnapshot(items: ItemSnapshot[]): void {
+    const next = new Map<string, ItemModel>();
+    for (const item of items) {
+      const key = toKey(item.x, item.y);
+      next.set(key, { key, x: item.x, y: item.y, type: item.type });
+    }
+
+    for (const key of this.arena.items.keys()) {
+      if (!next.has(key)) this.arena.items.delete(key);
+    }
+    for (const [key, item] of next) {
+      this.arena.items.set(key, item);
+    }
+  }
+
+  private syncLocalBombStats(bombCapacity?: number, bombRange?: number, remoteDetonate?: boolean): void {
+    let changed = false;
+    if (typeof bombCapacity === 'number' && bombCapacity !== this.stats.capacity) {
+      this.stats.capacity = bombCapacity;
+      changed = true;
+    }
+    if (typeof bombRange === 'number' && bombRange !== this.stats.range) {
+      this.stats.range = bombRange;
+      changed = true;
+    }
+    if (typeof remoteDetonate === 'boolean' && remoteDetonate !== this.stats.remoteDetonateUnlocked) {
+      this.stats.remoteDetonateUnlocked = remoteDetonate;
+      changed = true;
+    }
+    if (changed) emitStats(this.stats);
+  }
+
   private syncEnemiesFromSnapshot(enemies: EnemySnapshot[]): void {
     const seen = new Set<string>();
 
@@ -2778,6 +2920,7 @@ export class GameScene extends Phaser.Scene {
         existing.moveDurationMs = Math.max(1, enemyMoveDurationMs);
         existing.moveStartedAtMs = enemy.moveStartServerTimeMs ?? this.getEstimatedServerNowMs() ?? performance.now();
         existing.state = existing.isMoving ? 'move' : 'idle';
+        existing.kind = enemy.kind ?? 'normal';
         continue;
       }
 
@@ -2798,7 +2941,7 @@ export class GameScene extends Phaser.Scene {
         isMoving: enemy.isMoving === true,
         facing: 'left',
         state: enemy.isMoving ? 'move' : 'idle',
-        kind: 'normal',
+        kind: enemy.kind ?? 'normal',
         moveIntervalMs: this.getScaledEnemyMoveInterval('normal'),
       });
     }
@@ -2907,6 +3050,7 @@ export class GameScene extends Phaser.Scene {
     this.arena.height = gridH;
     this.matchGridW = gridW;
     this.matchGridH = gridH;
+    this.arena.items.clear();
     this.clearDynamicSprites();
     this.rebuildArenaTiles();
     this.syncCameraBoundsToArena();
@@ -2930,6 +3074,24 @@ export class GameScene extends Phaser.Scene {
     return true;
   }
 
+  // Reconnect without a world_init: the server replays missed events onto the arena we kept.
+  // The world hash check stays off until the next world_init, since we no longer hold the initial tiles.
+  public resumeRetainedWorld(matchId: string): boolean {
+    if (this.currentMatchId && matchId !== this.currentMatchId) {
+      this.droppedWrongMatch += 1;
+      return false;
+    }
+
+    if (this.arena.tiles.length === 0) {
+      return false;
+    }
+
+    this.worldReady = true;
+    this.invalidPosDrops = 0;
+
+    return true;
+  }
+
 
 
   public applyAuthoritativeBombSpawned(payload: { bomb: { id: string; x: number; y: number; ownerId?: string; tickPlaced?: number; explodeAtTick?: number } }): void {
@@ -2957,6 +3119,29 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  public applyAuthoritativeBombChained(payload: { bombId: string }): void {
+    const bomb = this.arena.bombs.get(payload.bombId);
+    if (!bomb) return;
+    bomb.detonateAt = this.time.now;
+  }
+
+  public applyAuthoritativeBombKicked(payload: { bombId: string; dir: Direction; x: number; y: number; ticksPerCell: number }): void {
+    const bomb = this.arena.bombs.get(payload.bombId);
+    if (!bomb) return;
+    const { dx, dy } = this.toDelta(payload.dir);
+    bomb.x = payload.x;
+    bomb.y = payload.y;
+    bomb.slide = { dx, dy, startedAtMs: this.time.now, msPerCell: payload.ticksPerCell * this.FIXED_DT };
+  }
+
+  public applyAuthoritativeBombStopped(payload: { bombId: string; x: number; y: number }): void {
+    const bomb = this.arena.bombs.get(payload.bombId);
+    if (!bomb) return;
+    bomb.x = payload.x;
+    bomb.y = payload.y;
+    bomb.slide = undefined;
+  }
+
   public applyAuthoritativeTilesDestroyed(payload: { tiles: Array<{ x: number; y: number }> }): void {
     for (const tile of payload.tiles) {
       if (!isInsideArena(this.arena, tile.x, tile.y)) continue;
@@ -2965,6 +3150,60 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Sudden death: `warning` cells pulse red until the server closes them,
+   * then they are swapped for hard walls.
+   */
+  public applyAuthoritativeArenaShrink(payload: { phase: 'warning' | 'closed'; cells: Array<{ x: number; y: number }> }): void {
+    const { tileSize } = GAME_CONFIG;
+
+    for (const cell of payload.cells) {
+      if (!isInsideArena(this.arena, cell.x, cell.y)) continue;
+      const key = toKey(cell.x, cell.y);
+      const centerX = cell.x * tileSize + tileSize / 2;
+      const centerY = cell.y * tileSize + tileSize / 2;
+
+      if (payload.phase === 'warning') {
+        if (this.arenaShrinkWarnings.has(key)) continue;
+        const marker = this.add
+          .rectangle(centerX, centerY, tileSize, tileSize, 0xff2a2a, 0.35)
+          .setDepth(DEPTH_ITEM)
+          .setData('arenaTile', true);
+        this.tweens.add({ targets: marker, alpha: 0.1, duration: 250, yoyo: true, repeat: -1 });
+        this.arenaShrinkWarnings.set(key, marker);
+        continue;
+      }
+
+      this.arenaShrinkWarnings.get(key)?.destroy();
+      this.arenaShrinkWarnings.delete(key);
+      this.destroyBreakableSprite(cell.x, cell.y);
+      this.arena.tiles[cell.y][cell.x] = 'HardWall';
+      this.arena.items.delete(key);
+      this.add
+        .image(centerX, centerY, this.getPolishedTileTexture('HardWall', cell.x, cell.y))
+        .setOrigin(0.5, 0.5)
+        .setDisplaySize(tileSize, tileSize)
+        .setDepth(DEPTH_BREAKABLE)
+        .setData('arenaTile', true);
+    }
+  }
+
+  public applyAuthoritativeItemSpawned(payload: { item: ItemSnapshot }): void {
+    const { item } = payload;
+    if (!isInsideArena(this.arena, item.x, item.y)) return;
+    const key = toKey(item.x, item.y);
+    this.arena.items.set(key, { key, x: item.x, y: item.y, type: item.type });
+  }
+
+  public applyAuthoritativeItemPicked(
+    payload: { x: number; y: number; tgUserId: string; bombCapacity: number; bombRange: number },
+    localTgUserId?: string,
+  ): void {
+    this.arena.items.delete(toKey(payload.x, payload.y));
+    if (payload.tgUserId !== localTgUserId) return;
+    this.syncLocalBombStats(payload.bombCapacity, payload.bombRange);
+  }
+
   public applyAuthoritativePlayerDamaged(payload: { tgUserId: string; lives: number }, localTgUserId?: string): void {
     if (payload.tgUserId !== localTgUserId) return;
     this.lives = Math.max(0, payload.lives);
@@ -2974,6 +3213,11 @@ export class GameScene extends Phaser.Scene {
     emitStats(this.stats);
   }
 
+  public addMultiplayerKillScore(): void {
+    this.stats.score += GAME_CONFIG.playerKillScore;
+    emitStats(this.stats);
+  }
+
   public applyAuthoritativePlayerRespawned(payload: { tgUserId: string; x: number; y: number }, localTgUserId?: string): void {
     if (payload.tgUserId !== localTgUserId) return;
     this.multiplayerEliminated = false;
@@ -2991,6 +3235,107 @@ export class GameScene extends Phaser.Scene {
     this.emitLifeState();
   }
 
+  /**
+   * Plays a recorded match back through the same snapshot/event path used for
+   * live multiplayer, following `viewerTgUserId` (or the first player).
+   */
+  public startReplay(replay: MatchReplay, viewerTgUserId?: string, onFinished?: () => void): void {
+    const viewer = viewerTgUserId && replay.players.includes(viewerTgUserId) ? viewerTgUserId : replay.players[0];
+    if (!viewer) return;
+
+    this.setGameMode('multiplayer');
+    this.setActiveMultiplayerSession(replay.roomCode, replay.matchId);
+    this.resetMultiplayerNetState();
+    this.setLocalTgUserId(viewer);
+    this.applyMatchWorldInit({ roomCode: replay.roomCode, matchId: replay.matchId, world: replay.world });
+
+    const me = replay.frames[0]?.snapshot.players.find((player) => player.tgUserId === viewer);
+    this.lives = me?.lives ?? this.lives;
+    this.stats.lives = this.lives;
+    this.emitLifeState();
+    emitStats(this.stats);
+
+    this.replayPlayback = { replay, viewerTgUserId: viewer, nextFrameIndex: 0, startedAtMs: null, onFinished };
+  }
+
+  public stopReplay(): void {
+    this.replayPlayback = null;
+  }
+
+  public isReplayActive(): boolean {
+    return this.replayPlayback !== null;
+  }
+
+  private tickReplayPlayback(time: number): void {
+    const playback = this.replayPlayback;
+    if (!playback) return;
+
+    if (playback.startedAtMs === null) {
+      playback.startedAtMs = time;
+    }
+
+    const { frames, tickRateMs } = playback.replay;
+    const firstTick = frames[0]?.tick ?? 0;
+    const targetTick = firstTick + Math.floor((time - playback.startedAtMs) / tickRateMs);
+
+    while (playback.nextFrameIndex < frames.length && frames[playback.nextFrameIndex].tick <= targetTick) {
+      const frame = frames[playback.nextFrameIndex];
+      playback.nextFrameIndex += 1;
+      for (const event of frame.events) {
+        this.applyReplayEvent(event, playback.viewerTgUserId);
+      }
+      this.applyMatchSnapshot(frame.snapshot, playback.viewerTgUserId);
+    }
+
+    if (playback.nextFrameIndex >= frames.length) {
+      this.replayPlayback = null;
+      playback.onFinished?.();
+    }
+  }
+
+  private applyReplayEvent(event: MatchReplayEvent, viewerTgUserId: string): void {
+    switch (event.type) {
+      case 'match:bomb_spawned':
+        this.applyAuthoritativeBombSpawned(event);
+        return;
+      case 'match:bomb_exploded':
+        this.applyAuthoritativeBombExploded(event);
+        return;
+      case 'match:bomb_chained':
+        this.applyAuthoritativeBombChained(event);
+        return;
+      case 'match:bomb_kicked':
+        this.applyAuthoritativeBombKicked(event);
+        return;
+      case 'match:bomb_stopped':
+        this.applyAuthoritativeBombStopped(event);
+        return;
+      case 'match:tiles_destroyed':
+        this.applyAuthoritativeTilesDestroyed(event);
+        return;
+      case 'match:item_spawned':
+        this.applyAuthoritativeItemSpawned(event);
+        return;
+      case 'match:item_picked':
+        this.applyAuthoritativeItemPicked(event, viewerTgUserId);
+        return;
+      case 'match:player_damaged':
+        this.applyAuthoritativePlayerDamaged(event, viewerTgUserId);
+        return;
+      case 'match:player_respawned':
+        this.applyAuthoritativePlayerRespawned(event, viewerTgUserId);
+        return;
+      case 'match:player_eliminated':
+        this.applyAuthoritativePlayerEliminated(event, viewerTgUserId);
+        return;
+      case 'match:arena_shrink':
+        this.applyAuthoritativeArenaShrink(event);
+        return;
+      default:
+        return;
+    }
+  }
+
   public setAudioSettings(next: SceneAudioSettings): void {
     this.audioSettings = { ...next };
     if (this.sound) {
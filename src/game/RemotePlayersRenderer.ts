@@ -682,6 +682,10 @@ export class RemotePlayersRenderer {
     };
   }
 
+  getPlayerContainer(tgUserId: string): Phaser.GameObjects.Container | null {
+    return this.players.get(tgUserId)?.container ?? null;
+  }
+
   getDelayTicks(): number {
     return this.delayTicks;
   }
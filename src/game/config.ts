@@ -23,6 +23,7 @@ export const GAME_CONFIG = {
   baseEnemyCount: 4,
   maxEnemyCount: 24,
   enemyScore: 75,
+  playerKillScore: 100, // multiplayer: a life taken from an opponent with your bomb
   playerDeathPenalty: 50,
   defaultBombCapacity: 1,
   defaultRange: 2,
@@ -48,6 +48,14 @@ export interface BombModel extends GridPosition {
   ownerId: string;
   escapedByOwner: boolean;
   detonateAt: number;
+  slide?: BombSlide; // multiplayer only: kicked and still moving
+}
+
+export interface BombSlide {
+  dx: number;
+  dy: number;
+  startedAtMs: number;
+  msPerCell: number;
 }
 
 export interface ItemModel extends GridPosition {
@@ -62,7 +70,8 @@ export interface FlameModel extends GridPosition {
   axis?: FlameArmAxis;
 }
 
-export type EnemyKind = 'normal' | 'elite';
+// chaser, bomb_avoider and wall_phaser only come from multiplayer snapshots.
+export type EnemyKind = 'normal' | 'elite' | 'chaser' | 'bomb_avoider' | 'wall_phaser';
 
 export interface EnemyModel {
   key: string;
@@ -1,3 +1,4 @@
+import type { MatchRuleset } from '@shared/protocol';
 import { apiUrl } from '../utils/apiBase';
 
 const SESSION_TOKEN_KEY = 'rift_session_token';
@@ -46,6 +47,53 @@ export type LeaderboardResponse = {
   me: LeaderboardMeEntry | null;
 };
 
+export type MatchPlayerStats = {
+  bombsPlaced: number;
+  tilesDestroyed: number;
+  kills: number;
+  deathsByExplosion: number;
+  deathsByEnemy: number;
+  survivalTicks: number;
+};
+
+export type MatchHistoryEntry = {
+  matchId: string;
+  roomCode: string;
+  mode: 'ffa' | 'team';
+  reason: string;
+  endedAtMs: number;
+  hasReplay: boolean;
+  playersCount: number;
+  placement: number;
+  ratingBefore: number;
+  ratingAfter: number;
+  stats: MatchPlayerStats;
+};
+
+export type MatchHistoryPage = {
+  matches: MatchHistoryEntry[];
+  nextBefore: number | null;
+};
+
+export type MatchResultDetail = {
+  matchId: string;
+  roomCode: string;
+  mode: 'ffa' | 'team';
+  reason: string;
+  winnerTeam: number | null;
+  endTick: number;
+  endedAtMs: number;
+  hasReplay: boolean;
+  players: Array<{
+    tgUserId: string;
+    displayName: string;
+    team: number | null;
+    placement: number;
+    ratingBefore: number;
+    ratingAfter: number;
+    stats: MatchPlayerStats;
+  }>;
+};
 
 export type TeamLeaderboardMember = {
   tgUserId: string;
@@ -58,6 +106,7 @@ export type RoomMember = {
   displayName: string;
   joinedAt: string;
   ready?: boolean;
+  team?: number | null;
 };
 
 export type RoomState = {
@@ -67,6 +116,7 @@ export type RoomState = {
   status: string;
   phase?: string;
   createdAt?: string;
+  ruleset?: MatchRuleset;
 };
 
 export type MyRoomEntry = {
@@ -92,6 +142,7 @@ export type FriendEntry = {
   tgUserId: string;
   displayName: string;
   createdAt?: string;
+  online: boolean;
 };
 
 export type IncomingFriendRequest = {
@@ -265,6 +316,88 @@ export async function confirmPurchase(intentId: string): Promise<{ wallet: Walle
 }
 
 
+function parseMatchPlayerStats(raw: any): MatchPlayerStats {
+  return {
+    bombsPlaced: Number(raw?.bombsPlaced ?? 0),
+    tilesDestroyed: Number(raw?.tilesDestroyed ?? 0),
+    kills: Number(raw?.kills ?? 0),
+    deathsByExplosion: Number(raw?.deathsByExplosion ?? 0),
+    deathsByEnemy: Number(raw?.deathsByEnemy ?? 0),
+    survivalTicks: Number(raw?.survivalTicks ?? 0),
+  };
+}
+
+export async function fetchMatchHistory(before?: number): Promise<MatchHistoryPage | null> {
+  const token = getToken();
+  if (!token) return null;
+
+  try {
+    const query = before === undefined ? '' : `?before=${encodeURIComponent(String(before))}`;
+    const res = await fetch(apiUrl(`/api/matches/me${query}`), {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const json = await res.json();
+    if (!json?.ok) return null;
+    return {
+      matches: Array.isArray(json.matches)
+        ? json.matches.map((entry: any) => ({
+          matchId: String(entry?.matchId ?? ''),
+          roomCode: String(entry?.roomCode ?? ''),
+          mode: entry?.mode === 'team' ? 'team' : 'ffa',
+          reason: String(entry?.reason ?? ''),
+          endedAtMs: Number(entry?.endedAtMs ?? 0),
+          hasReplay: entry?.hasReplay === true,
+          playersCount: Number(entry?.playersCount ?? 0),
+          placement: Number(entry?.placement ?? 0),
+          ratingBefore: Number(entry?.ratingBefore ?? 0),
+          ratingAfter: Number(entry?.ratingAfter ?? 0),
+          stats: parseMatchPlayerStats(entry?.stats),
+        }))
+        : [],
+      nextBefore: json.nextBefore == null ? null : Number(json.nextBefore),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function fetchMatchResult(matchId: string): Promise<MatchResultDetail | null> {
+  const token = getToken();
+  if (!token) return null;
+
+  try {
+    const res = await fetch(apiUrl(`/api/matches/${encodeURIComponent(matchId)}`), {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const json = await res.json();
+    if (!json?.ok || !json.match) return null;
+    const match = json.match;
+    return {
+      matchId: String(match.matchId ?? matchId),
+      roomCode: String(match.roomCode ?? ''),
+      mode: match.mode === 'team' ? 'team' : 'ffa',
+      reason: String(match.reason ?? ''),
+      winnerTeam: match.winnerTeam == null ? null : Number(match.winnerTeam),
+      endTick: Number(match.endTick ?? 0),
+      endedAtMs: Number(match.endedAtMs ?? 0),
+      hasReplay: match.hasReplay === true,
+      players: Array.isArray(match.players)
+        ? match.players.map((player: any) => ({
+          tgUserId: String(player?.tgUserId ?? ''),
+          displayName: String(player?.displayName ?? 'Unknown'),
+          team: player?.team == null ? null : Number(player.team),
+          placement: Number(player?.placement ?? 0),
+          ratingBefore: Number(player?.ratingBefore ?? 0),
+          ratingAfter: Number(player?.ratingAfter ?? 0),
+          stats: parseMatchPlayerStats(player?.stats),
+        }))
+        : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
 export async function claimReferral(refCode: string): Promise<boolean> {
   const token = getToken();
   if (!token) return false;
@@ -387,6 +520,7 @@ export async function fetchFriends(): Promise<FriendsPayload | null> {
           tgUserId: String(entry?.tgUserId ?? ''),
           displayName: String(entry?.displayName ?? 'Unknown'),
           createdAt: entry?.createdAt ? String(entry.createdAt) : undefined,
+          online: entry?.online === true,
         }))
         : [],
       incoming: Array.isArray(json.incoming)
@@ -452,7 +586,7 @@ export async function respondFriend(fromTgUserId: string, action: 'accept' | 'de
   }
 }
 
-export async function createRoom(capacity: 2 | 3 | 4): Promise<{ roomCode: string; capacity: number } | null> {
+export async function createRoom(capacity: 2 | 3 | 4, friendlyFire = false): Promise<{ roomCode: string; capacity: number } | null> {
   const token = getToken();
   if (!token) return null;
 
@@ -463,7 +597,7 @@ export async function createRoom(capacity: 2 | 3 | 4): Promise<{ roomCode: strin
         'Content-Type': 'application/json',
         Authorization: `Bearer ${token}`,
       },
-      body: JSON.stringify({ capacity }),
+      body: JSON.stringify({ capacity, friendlyFire }),
     });
     const json = await res.json();
     if (!json?.ok) return null;
@@ -511,6 +645,7 @@ export async function joinRoom(roomCode: string): Promise<{ room: RoomState; mem
           displayName: String(member?.displayName ?? 'Unknown'),
           joinedAt: String(member?.joinedAt ?? ''),
           ready: Boolean(member?.ready ?? false),
+          team: member?.team == null ? null : Number(member.team),
         }))
         : [],
     };
@@ -594,6 +729,7 @@ export async function fetchRoom(roomCode: string): Promise<{ room: RoomState; me
         status: String(json.room.status ?? 'OPEN'),
         phase: String(json.room.phase ?? 'LOBBY'),
         createdAt: String(json.room.createdAt ?? ''),
+        ruleset: json.room.ruleset ?? undefined,
       },
       members: Array.isArray(json.members)
         ? json.members.map((member: any) => ({
@@ -601,6 +737,7 @@ export async function fetchRoom(roomCode: string): Promise<{ room: RoomState; me
           displayName: String(member?.displayName ?? 'Unknown'),
           joinedAt: String(member?.joinedAt ?? ''),
           ready: Boolean(member?.ready ?? false),
+          team: member?.team == null ? null : Number(member.team),
         }))
         : [],
     };
@@ -610,6 +747,72 @@ export async function fetchRoom(roomCode: string): Promise<{ room: RoomState; me
 }
 
 
+// Joins through a friend's invite, which stands in for the room password.
+export async function acceptRoomInvite(roomCode: string, inviteId: string): Promise<{ room: RoomState; members: RoomMember[]; error?: string } | null> {
+  const token = getToken();
+  if (!token) return null;
+
+  try {
+    const res = await fetch(apiUrl(`/api/rooms/${encodeURIComponent(roomCode)}/join`), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ inviteId }),
+    });
+    const json = await res.json();
+    if (!res.ok || !json?.room) {
+      return {
+        room: { roomCode: String(roomCode).toUpperCase(), capacity: 0, status: 'UNKNOWN' },
+        members: [],
+        error: String(json?.error ?? 'join_failed'),
+      };
+    }
+  } catch {
+    return null;
+  }
+
+  return fetchRoom(roomCode);
+}
+
+export type RoomInviteResult = {
+  ok: boolean;
+  inviteId?: string;
+  expiresAtMs?: number;
+  startParam?: string;
+  deepLink?: string | null;
+  error?: string;
+};
+
+export async function inviteFriendToRoom(roomCode: string, tgUserId: string): Promise<RoomInviteResult | null> {
+  const token = getToken();
+  if (!token) return null;
+
+  try {
+    const res = await fetch(apiUrl(`/api/rooms/${encodeURIComponent(roomCode)}/invite`), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ tgUserId }),
+    });
+    const json = await res.json();
+    if (!json?.ok) return { ok: false, error: String(json?.error ?? 'invite_failed') };
+
+    return {
+      ok: true,
+      inviteId: String(json.invite?.inviteId ?? ''),
+      expiresAtMs: Number(json.invite?.expiresAtMs ?? 0),
+      startParam: String(json.startParam ?? ''),
+      deepLink: json.deepLink == null ? null : String(json.deepLink),
+    };
+  } catch {
+    return null;
+  }
+}
+
 export async function leaveRoom(): Promise<{ ok: boolean; closedRoomCode?: string; leftRoomCode?: string; error?: string } | null> {
   const token = getToken();
   if (!token) return null;
@@ -693,6 +896,147 @@ export async function setRoomReady(roomCode: string, ready: boolean): Promise<{
           displayName: String(member?.displayName ?? 'Unknown'),
           joinedAt: String(member?.joinedAt ?? ''),
           ready: Boolean(member?.ready ?? false),
+          team: member?.team == null ? null : Number(member.team),
+        }))
+        : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function setRoomTeam(roomCode: string, team: number | null): Promise<{ room: RoomState; members: RoomMember[]; error?: string } | null> {
+  const token = getToken();
+  if (!token) return null;
+
+  try {
+    const res = await fetch(apiUrl('/api/rooms/team'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ roomCode, team }),
+    });
+    const json = await res.json();
+    if (!json?.ok) {
+      return {
+        room: { roomCode: String(roomCode).toUpperCase(), capacity: 0, status: 'UNKNOWN', phase: 'LOBBY' },
+        members: [],
+        error: String(json?.error ?? 'team_failed'),
+      };
+    }
+
+    return {
+      room: {
+        roomCode: String(json.room?.roomCode ?? ''),
+        ownerTgUserId: String(json.room?.ownerTgUserId ?? ''),
+        capacity: Number(json.room?.capacity ?? 0),
+        status: String(json.room?.status ?? 'OPEN'),
+        phase: String(json.room?.phase ?? 'LOBBY'),
+        createdAt: String(json.room?.createdAt ?? ''),
+      },
+      members: Array.isArray(json.members)
+        ? json.members.map((member: any) => ({
+          tgUserId: String(member?.tgUserId ?? ''),
+          displayName: String(member?.displayName ?? 'Unknown'),
+          joinedAt: String(member?.joinedAt ?? ''),
+          ready: Boolean(member?.ready ?? false),
+          team: member?.team == null ? null : Number(member.team),
+        }))
+        : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Owner only: the server splits the lobby into two teams by team rating.
+export async function balanceRoomTeams(roomCode: string): Promise<{ room: RoomState; members: RoomMember[]; error?: string } | null> {
+  const token = getToken();
+  if (!token) return null;
+
+  try {
+    const res = await fetch(apiUrl('/api/rooms/balance'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ roomCode }),
+    });
+    const json = await res.json();
+    if (!json?.ok) {
+      return {
+        room: { roomCode: String(roomCode).toUpperCase(), capacity: 0, status: 'UNKNOWN', phase: 'LOBBY' },
+        members: [],
+        error: String(json?.error ?? 'balance_failed'),
+      };
+    }
+
+    return {
+      room: {
+        roomCode: String(json.room?.roomCode ?? ''),
+        ownerTgUserId: String(json.room?.ownerTgUserId ?? ''),
+        capacity: Number(json.room?.capacity ?? 0),
+        status: String(json.room?.status ?? 'OPEN'),
+        phase: String(json.room?.phase ?? 'LOBBY'),
+        createdAt: String(json.room?.createdAt ?? ''),
+      },
+      members: Array.isArray(json.members)
+        ? json.members.map((member: any) => ({
+          tgUserId: String(member?.tgUserId ?? ''),
+          displayName: String(member?.displayName ?? 'Unknown'),
+          joinedAt: String(member?.joinedAt ?? ''),
+          ready: Boolean(member?.ready ?? false),
+          team: member?.team == null ? null : Number(member.team),
+        }))
+        : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function setRoomRuleset(roomCode: string, ruleset: Partial<MatchRuleset>): Promise<{ room: RoomState; members: RoomMember[]; error?: string } | null> {
+  const token = getToken();
+  if (!token) return null;
+
+  try {
+    const res = await fetch(apiUrl('/api/rooms/ruleset'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ roomCode, ruleset }),
+    });
+    const json = await res.json();
+    if (!json?.ok) {
+      return {
+        room: { roomCode: String(roomCode).toUpperCase(), capacity: 0, status: 'UNKNOWN', phase: 'LOBBY' },
+        members: [],
+        error: String(json?.error ?? 'ruleset_failed'),
+      };
+    }
+
+    return {
+      room: {
+        roomCode: String(json.room?.roomCode ?? ''),
+        ownerTgUserId: String(json.room?.ownerTgUserId ?? ''),
+        capacity: Number(json.room?.capacity ?? 0),
+        status: String(json.room?.status ?? 'OPEN'),
+        phase: String(json.room?.phase ?? 'LOBBY'),
+        createdAt: String(json.room?.createdAt ?? ''),
+        ruleset: json.room?.ruleset ?? undefined,
+      },
+      members: Array.isArray(json.members)
+        ? json.members.map((member: any) => ({
+          tgUserId: String(member?.tgUserId ?? ''),
+          displayName: String(member?.displayName ?? 'Unknown'),
+          joinedAt: String(member?.joinedAt ?? ''),
+          ready: Boolean(member?.ready ?? false),
+          team: member?.team == null ? null : Number(member.team),
         }))
         : [],
     };
@@ -738,6 +1082,7 @@ export async function startRoom(roomCode: string): Promise<{ room: RoomState; me
           displayName: String(member?.displayName ?? 'Unknown'),
           joinedAt: String(member?.joinedAt ?? ''),
           ready: Boolean(member?.ready ?? false),
+          team: member?.team == null ? null : Number(member.team),
         }))
         : [],
     };
@@ -0,0 +1,132 @@
+import type {
+  MatchSnapshot,
+  MatchSnapshotDelta,
+  SnapshotEntityDelta,
+  SnapshotResyncReason,
+} from '@shared/protocol';
+import type { WsServerMessage } from './wsTypes';
+
+// Comfortably longer than the server keeps history, so any tick we acked is still here.
+const BASELINE_HISTORY_TICKS = 64;
+
+export type SnapshotDeltaResult =
+  | { ok: true; snapshot: MatchSnapshot }
+  | { ok: false; reason: SnapshotResyncReason };
+
+/**
+ * Turns `match:snapshot_delta` back into full snapshots, so GameScene and
+ * RemotePlayersRenderer keep consuming the same shape as before. Keeps every
+ * recent snapshot as a possible baseline and mirrors the server tile grid from
+ * world_init and tile events to check each delta's `worldHash`.
+ */
+export class SnapshotDeltaDecoder {
+  private matchId: string | null = null;
+  private baselines = new Map<number, MatchSnapshot>();
+  private tiles: number[] | null = null;
+  private gridW = 0;
+
+  reset(): void {
+    this.matchId = null;
+    this.baselines.clear();
+    this.tiles = null;
+  }
+
+  observe(msg: WsServerMessage): void {
+    if (msg.type === 'match:world_init') {
+      this.switchMatch(msg.matchId);
+      this.tiles = [...msg.world.tiles];
+      this.gridW = msg.world.gridW;
+    } else if (msg.type === 'match:snapshot') {
+      this.remember(msg.snapshot);
+    } else if (msg.type === 'match:tiles_destroyed' && msg.matchId === this.matchId) {
+      for (const tile of msg.tiles) this.setTile(tile.x, tile.y, 0);
+    } else if (msg.type === 'match:arena_shrink' && msg.matchId === this.matchId && msg.phase === 'closed') {
+      for (const cell of msg.cells) this.setTile(cell.x, cell.y, 1);
+    }
+  }
+
+  decode(delta: MatchSnapshotDelta): SnapshotDeltaResult {
+    const base = delta.matchId === this.matchId ? this.baselines.get(delta.baseTick) : undefined;
+    if (!base) return { ok: false, reason: 'missing_base' };
+    if (this.tiles && computeTilesHash(this.tiles) !== delta.worldHash) {
+      return { ok: false, reason: 'world_hash_mismatch' };
+    }
+
+    const snapshot = applyMatchSnapshotDelta(base, delta);
+    this.remember(snapshot);
+    return { ok: true, snapshot };
+  }
+
+  private remember(snapshot: MatchSnapshot): void {
+    this.switchMatch(snapshot.matchId);
+    this.baselines.set(snapshot.tick, snapshot);
+    for (const tick of this.baselines.keys()) {
+      if (tick <= snapshot.tick - BASELINE_HISTORY_TICKS) this.baselines.delete(tick);
+    }
+  }
+
+  private switchMatch(matchId: string): void {
+    if (this.matchId === matchId) return;
+    this.matchId = matchId;
+    this.baselines.clear();
+    this.tiles = null;
+  }
+
+  private setTile(x: number, y: number, tile: number): void {
+    if (!this.tiles || x < 0 || x >= this.gridW) return;
+    const idx = y * this.gridW + x;
+    if (idx >= 0 && idx < this.tiles.length) this.tiles[idx] = tile;
+  }
+}
+
+// Same as the server's rebuild in backend/src/mp/snapshotDelta.ts.
+export function applyMatchSnapshotDelta(base: MatchSnapshot, delta: MatchSnapshotDelta): MatchSnapshot {
+  const restamp = <T extends { isMoving?: boolean; moveStartTick?: number; moveStartServerTimeMs?: number }>(entity: T): T => (
+    entity.isMoving === false
+      ? { ...entity, moveStartTick: delta.tick, moveStartServerTimeMs: delta.serverTimeMs }
+      : entity
+  );
+
+  return {
+    ...base,
+    tick: delta.tick,
+    serverTime: delta.serverTime,
+    serverTimeMs: delta.serverTimeMs,
+    world: {
+      ...base.world,
+      bombs: applyEntities(base.world.bombs ?? [], delta.bombs, 'id'),
+      items: applyEntities(base.world.items ?? [], delta.items, 'id'),
+    },
+    players: applyEntities(base.players, delta.players, 'tgUserId').map(restamp),
+    enemies: applyEntities(base.enemies ?? [], delta.enemies, 'id').map(restamp),
+  };
+}
+
+function applyEntities<T extends object, K extends keyof T>(base: T[], delta: SnapshotEntityDelta<T, K> | undefined, key: K): T[] {
+  if (!delta) return base;
+
+  const removed = new Set(delta.removed);
+  const upsertByKey = new Map(delta.upsert.map((entity) => [entity[key], entity]));
+  const result: T[] = [];
+  for (const entity of base) {
+    if (removed.has(entity[key])) continue;
+    const patch = upsertByKey.get(entity[key]);
+    upsertByKey.delete(entity[key]);
+    result.push(patch ? { ...entity, ...patch } : entity);
+  }
+
+  for (const entity of upsertByKey.values()) {
+    result.push(entity as T);
+  }
+  return result;
+}
+
+// FNV-1a over the tile codes, matching hashWorldTiles on the server.
+function computeTilesHash(tiles: number[]): string {
+  let hash = 2166136261;
+  for (const tile of tiles) {
+    hash ^= tile & 0xff;
+    hash = Math.imul(hash, 16777619);
+  }
+  return `fnv1a_${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
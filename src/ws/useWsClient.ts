@@ -1,7 +1,11 @@
 import { useEffect, useRef, useState } from 'react';
+import type { WireFormat } from '@shared/protocol';
 import { diagnosticsStore } from '../debug/diagnosticsStore';
+import { SnapshotDeltaDecoder } from './snapshotDelta';
+import { BINARY_WIRE_FORMAT } from './wireCodec';
 import { WsClient } from './wsClient';
 import type {
+  WsBandwidthStats,
   WsClientMessage,
   WsInboundTraceEntry,
   WsOutboundTraceEntry,
@@ -36,6 +40,7 @@ const NET_SIM_PRESETS: NetSimPreset[] = [
 ];
 
 const DEFAULT_BACKEND_HOST = 'rift-runners-backend.onrender.com';
+const DRAIN_RECONNECT_JITTER_MS = 1_500;
 
 function normalizeWsUrl(candidate: string): string | null {
   const trimmed = candidate.trim();
@@ -123,6 +128,11 @@ function resolveNetSimConfig(search: string): NetSimConfig {
   };
 }
 
+// `?wire=json` keeps every frame readable in the browser's network tab.
+function resolveWireFormat(search: string): WireFormat {
+  return new URLSearchParams(search).get('wire') === 'json' ? 'json' : BINARY_WIRE_FORMAT;
+}
+
 function getNetDelayMs(config: NetSimConfig): number {
   if (!config.enabled) return 0;
   if (config.jitterMs <= 0) return config.latencyMs;
@@ -137,7 +147,8 @@ function shouldDrop(config: NetSimConfig): boolean {
   return Math.random() < config.dropRate;
 }
 
-export function useWsClient(token?: string) {
+// Without a session the server only accepts dev identities, and only outside production.
+export function useWsClient(token?: string, devTgUserId?: string) {
   const clientRef = useRef<WsClient | null>(null);
   const [netSimConfig, setNetSimConfig] = useState<NetSimConfig>(() => resolveNetSimConfig(window.location.search));
   const netSimConfigRef = useRef<NetSimConfig>(netSimConfig);
@@ -151,6 +162,13 @@ export function useWsClient(token?: string) {
   const [outboundTrace, setOutboundTrace] = useState<WsOutboundTraceEntry[]>([]);
   const [urlUsed, setUrlUsed] = useState<string>('');
   const [lastError, setLastError] = useState<string | null>(null);
+  const [clientOutdated, setClientOutdated] = useState(false);
+  // Set when the server says our room runs on another node; the socket reconnects there.
+  const [redirectWsUrl, setRedirectWsUrl] = useState<string | null>(null);
+  // Set by server:draining; once that node closes the socket we reconnect after the deadline.
+  const [drainDeadlineMs, setDrainDeadlineMs] = useState<number | null>(null);
+  const drainDeadlineRef = useRef<number | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
 
   // M14.7 RTT (EMA + jitter EMA)
   const pingSeqRef = useRef(0);
@@ -170,11 +188,22 @@ export function useWsClient(token?: string) {
     eventsDroppedDup: 0,
     eventsDroppedOutOfOrder: 0,
   });
+  const snapshotDecoderRef = useRef(new SnapshotDeltaDecoder());
+  const inboundBytesRef = useRef(0);
+  const snapshotCountsRef = useRef({ fullSnapshots: 0, deltaSnapshots: 0, resyncs: 0 });
+  const [bandwidthStats, setBandwidthStats] = useState<WsBandwidthStats>({
+    inboundBytesPerSec: 0,
+    fullSnapshots: 0,
+    deltaSnapshots: 0,
+    resyncs: 0,
+  });
 
   useEffect(() => {
-    if (!token) return;
+    if (!token && !devTgUserId) return;
 
-    const wsUrl = resolveWsUrl();
+    const wsUrl = redirectWsUrl ?? resolveWsUrl();
+    let reconnectTimer: number | null = null;
+    let disposed = false;
 
     setUrlUsed(wsUrl);
     setLastError(null);
@@ -184,9 +213,13 @@ export function useWsClient(token?: string) {
     const client = new WsClient({
       url: wsUrl,
       token,
+      devTgUserId,
+      wire: resolveWireFormat(window.location.search),
       onOpen: () => {
         setConnected(true);
         setLastError(null);
+        drainDeadlineRef.current = null;
+        setDrainDeadlineMs(null);
         const now = new Date().toISOString();
         diagnosticsStore.setWsState({ status: 'OPEN', lastError: null, lastOpenAt: now });
         diagnosticsStore.log('WS', 'INFO', 'connect:open');
@@ -201,13 +234,29 @@ export function useWsClient(token?: string) {
           lastCloseReason: event.reason || null,
         });
         diagnosticsStore.log('WS', 'WARN', 'connect:close', { code: event.code, reason: event.reason || null });
+
+        // A restarting node hands its rooms over once it is gone; the jitter
+        // keeps a full server's worth of clients from reconnecting in one burst.
+        const deadline = drainDeadlineRef.current;
+        if (deadline !== null && reconnectTimer === null && !disposed) {
+          const delayMs = Math.max(0, deadline - Date.now()) + Math.random() * DRAIN_RECONNECT_JITTER_MS;
+          diagnosticsStore.log('WS', 'INFO', 'connect:drain_reconnect_scheduled', { delayMs: Math.round(delayMs) });
+          reconnectTimer = window.setTimeout(() => {
+            reconnectTimer = null;
+            setRedirectWsUrl(null);
+            setReconnectAttempt((prev) => prev + 1);
+          }, delayMs);
+        }
       },
       onError: () => {
         setLastError('WebSocket error');
         diagnosticsStore.setWsState({ status: 'ERROR', lastError: 'WebSocket error' });
         diagnosticsStore.log('WS', 'ERROR', 'connect:error', { error: 'WebSocket error' });
       },
-      onMessage: (msg) => {
+      onMessage: (received, sizeBytes) => {
+        inboundBytesRef.current += sizeBytes;
+        let msg = received;
+
         // Handle pong without polluting messages
         if (msg.type === 'pong') {
           const sentPerf = pingSentAtRef.current.get(msg.id);
@@ -232,6 +281,50 @@ export function useWsClient(token?: string) {
           return;
         }
 
+        // Deltas are rebuilt into full snapshots here so everything downstream
+        // keeps consuming match:snapshot.
+        if (msg.type === 'match:snapshot_delta') {
+          const result = snapshotDecoderRef.current.decode(msg.delta);
+          if (!result.ok) {
+            snapshotCountsRef.current.resyncs += 1;
+            clientRef.current?.send({ type: 'mp:snapshot_resync', matchId: msg.delta.matchId, reason: result.reason });
+            diagnosticsStore.log('WS', 'WARN', 'snapshot_delta:resync', {
+              matchId: msg.delta.matchId,
+              tick: msg.delta.tick,
+              baseTick: msg.delta.baseTick,
+              reason: result.reason,
+            });
+            return;
+          }
+          snapshotCountsRef.current.deltaSnapshots += 1;
+          msg = { type: 'match:snapshot', snapshot: result.snapshot };
+        } else {
+          if (msg.type === 'match:snapshot') snapshotCountsRef.current.fullSnapshots += 1;
+          snapshotDecoderRef.current.observe(msg);
+        }
+
+        if (msg.type === 'hello') {
+          diagnosticsStore.log('WS', 'INFO', 'hello:accepted', { protocolVersion: msg.protocolVersion, serverBuildId: msg.buildId });
+          return;
+        }
+
+        if (msg.type === 'room:redirect') {
+          const nextUrl = normalizeWsUrl(msg.wsUrl);
+          diagnosticsStore.log('WS', 'INFO', 'room:redirect', { roomCode: msg.roomCode, wsUrl: msg.wsUrl, accepted: Boolean(nextUrl && nextUrl !== wsUrl) });
+          if (nextUrl && nextUrl !== wsUrl) setRedirectWsUrl(nextUrl);
+          return;
+        }
+
+        if (msg.type === 'server:draining') {
+          drainDeadlineRef.current = msg.deadlineMs;
+          setDrainDeadlineMs(msg.deadlineMs);
+          diagnosticsStore.log('WS', 'WARN', 'server:draining', { deadlineMs: msg.deadlineMs });
+        }
+
+        if (msg.type === 'match:error' && msg.error === 'client_outdated') {
+          setClientOutdated(true);
+        }
+
         if (msg.type === 'match:error') {
           setLastError(msg.error);
           diagnosticsStore.setWsState({ status: 'ERROR', lastError: msg.error });
@@ -341,14 +434,21 @@ export function useWsClient(token?: string) {
       pingSentAtRef.current.set(id, performance.now());
       const msg: WsClientMessage = { type: 'ping', id, t: Date.now() };
       c.send(msg);
+
+      setBandwidthStats({ inboundBytesPerSec: inboundBytesRef.current, ...snapshotCountsRef.current });
+      inboundBytesRef.current = 0;
     }, 1000);
 
     return () => {
+      disposed = true;
       window.clearInterval(pingTimer);
+      if (reconnectTimer !== null) window.clearTimeout(reconnectTimer);
       pingSentAtRef.current.clear();
       bombEventSeenRef.current.clear();
       lastEventTickRef.current = -1;
       currentMatchIdRef.current = null;
+      snapshotDecoderRef.current.reset();
+      inboundBytesRef.current = 0;
       setBombEventNetStats({ serverTick: -1, lastEventTick: -1, eventsBuffered: 0, eventsDroppedDup: 0, eventsDroppedOutOfOrder: 0 });
 
       client.disconnect();
@@ -357,7 +457,7 @@ export function useWsClient(token?: string) {
       setUrlUsed('');
       diagnosticsStore.setWsState({ status: 'CLOSED' });
     };
-  }, [token]);
+  }, [devTgUserId, reconnectAttempt, redirectWsUrl, token]);
 
   return {
     connected,
@@ -366,11 +466,14 @@ export function useWsClient(token?: string) {
     outboundTrace,
     urlUsed,
     lastError,
+    clientOutdated,
+    drainDeadlineMs,
     netSimConfig,
     netSimPresets: NET_SIM_PRESETS,
     rttMs,
     rttJitterMs,
     bombEventNetStats,
+    bandwidthStats,
     setNetSimEnabled: (enabled: boolean) => {
       if (!import.meta.env.DEV) return;
       setNetSimConfig((prev) => ({ ...prev, enabled }));
@@ -0,0 +1,392 @@
+import type { MatchClientMessage, MatchServerMessage, WireFormat } from '@shared/protocol';
+
+/**
+ * Binary frames for the hot match traffic, used once a client negotiates
+ * `binary_v1`. Control messages stay JSON. A frame is one tag byte followed by
+ * a record: a presence bitmask, then each present field at a fixed width
+ * (strings and lists carry a u16 length). Any value a schema can't hold exactly
+ * makes the encoder return null so the caller falls back to JSON.
+ *
+ * The server copy lives in `backend/src/ws/wireCodec.ts`; keep the two in step.
+ */
+export const BINARY_WIRE_FORMAT: WireFormat = 'binary_v1';
+
+type FieldKind =
+  | 'u32'
+  | 'i32'
+  | 'f64'
+  | 'bool'
+  | 'str'
+  | { oneOf: ReadonlyArray<string | null> }
+  | { nullable: FieldKind }
+  | { record: RecordSchema }
+  | { list: FieldKind };
+
+type RecordSchema = ReadonlyArray<readonly [string, FieldKind]>;
+
+const MOVE_DIR: FieldKind = { oneOf: ['up', 'down', 'left', 'right', null] };
+const CELL: RecordSchema = [['x', 'i32'], ['y', 'i32']];
+
+const MOVE_TIMING: RecordSchema = [
+  ['isMoving', 'bool'],
+  ['moveFromX', 'i32'],
+  ['moveFromY', 'i32'],
+  ['moveToX', 'i32'],
+  ['moveToY', 'i32'],
+  ['moveStartTick', 'u32'],
+  ['moveDurationTicks', 'u32'],
+  ['moveStartServerTimeMs', 'f64'],
+  ['moveDurationMs', 'f64'],
+];
+
+const BOMB: RecordSchema = [
+  ['id', 'str'],
+  ['x', 'i32'],
+  ['y', 'i32'],
+  ['ownerId', 'str'],
+  ['tickPlaced', 'u32'],
+  ['explodeAtTick', 'u32'],
+  ['slideDir', MOVE_DIR],
+];
+
+const ITEM: RecordSchema = [
+  ['id', 'str'],
+  ['x', 'i32'],
+  ['y', 'i32'],
+  ['type', { oneOf: ['BombUp', 'FireUp'] }],
+];
+
+const PLAYER: RecordSchema = [
+  ['tgUserId', 'str'],
+  ['displayName', 'str'],
+  ['colorId', 'u32'],
+  ['skinId', 'str'],
+  ['lastInputSeq', 'u32'],
+  ['x', 'i32'],
+  ['y', 'i32'],
+  ['lives', 'u32'],
+  ['bombCapacity', 'u32'],
+  ['bombRange', 'u32'],
+  ['remoteDetonate', 'bool'],
+  ['eliminated', 'bool'],
+  ['disconnected', 'bool'],
+  ['team', { nullable: 'i32' }],
+  ...MOVE_TIMING,
+];
+
+const ENEMY: RecordSchema = [
+  ['id', 'str'],
+  ['kind', { oneOf: ['normal', 'chaser', 'bomb_avoider', 'wall_phaser'] }],
+  ['x', 'i32'],
+  ['y', 'i32'],
+  ['alive', 'bool'],
+  ...MOVE_TIMING,
+];
+
+const SNAPSHOT_HEADER: RecordSchema = [
+  ['version', { oneOf: ['match_v1'] }],
+  ['roomCode', 'str'],
+  ['matchId', 'str'],
+  ['tick', 'u32'],
+  ['serverTime', 'f64'],
+  ['serverTimeMs', 'f64'],
+];
+
+const SNAPSHOT: RecordSchema = [
+  ...SNAPSHOT_HEADER,
+  ['world', {
+    record: [
+      ['gridW', 'u32'],
+      ['gridH', 'u32'],
+      ['worldHash', 'str'],
+      ['bombs', { list: { record: BOMB } }],
+      ['items', { list: { record: ITEM } }],
+    ],
+  }],
+  ['players', { list: { record: PLAYER } }],
+  ['enemies', { list: { record: ENEMY } }],
+];
+
+const entityDelta = (schema: RecordSchema): FieldKind => ({
+  record: [['upsert', { list: { record: schema } }], ['removed', { list: 'str' }]],
+});
+
+const SNAPSHOT_DELTA: RecordSchema = [
+  ...SNAPSHOT_HEADER,
+  ['baseTick', 'u32'],
+  ['worldHash', 'str'],
+  ['bombs', entityDelta(BOMB)],
+  ['items', entityDelta(ITEM)],
+  ['players', entityDelta(PLAYER)],
+  ['enemies', entityDelta(ENEMY)],
+];
+
+const EVENT_HEADER: RecordSchema = [
+  ['roomCode', 'str'],
+  ['matchId', 'str'],
+  ['eventId', 'str'],
+  ['serverTick', 'u32'],
+  ['tick', 'u32'],
+];
+
+// Tags are the 1-based position in these lists; only append.
+const SERVER_FRAMES: ReadonlyArray<readonly [MatchServerMessage['type'], RecordSchema]> = [
+  ['match:snapshot', [['snapshot', { record: SNAPSHOT }]]],
+  ['match:snapshot_delta', [['delta', { record: SNAPSHOT_DELTA }]]],
+  ['match:bomb_spawned', [...EVENT_HEADER, ['bomb', { record: BOMB }], ['rewindTicks', 'u32']]],
+  ['match:bomb_exploded', [...EVENT_HEADER, ['bombId', 'str'], ...CELL, ['impacts', { list: { record: CELL } }]]],
+  ['match:bomb_chained', [...EVENT_HEADER, ['bombId', 'str'], ['byBombId', 'str'], ...CELL]],
+  ['match:bomb_kicked', [...EVENT_HEADER, ['bombId', 'str'], ['tgUserId', 'str'], ['dir', MOVE_DIR], ...CELL, ['ticksPerCell', 'u32']]],
+  ['match:bomb_stopped', [...EVENT_HEADER, ['bombId', 'str'], ...CELL]],
+];
+
+const CLIENT_FRAMES: ReadonlyArray<readonly [MatchClientMessage['type'], RecordSchema]> = [
+  ['match:input', [
+    ['seq', 'u32'],
+    ['payload', { record: [['kind', { oneOf: ['move', 'bomb_place', 'detonate'] }], ['dir', MOVE_DIR], ...CELL] }],
+  ]],
+];
+
+const MAX_U16 = 0xffff;
+const MAX_U32 = 0xffffffff;
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+class FrameWriter {
+  private bytes = new Uint8Array(512);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  u16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.length, value, true);
+    this.length += 2;
+  }
+
+  u32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.length, value, true);
+    this.length += 4;
+  }
+
+  i32(value: number): void {
+    this.reserve(4);
+    this.view.setInt32(this.length, value, true);
+    this.length += 4;
+  }
+
+  f64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  raw(data: Uint8Array): void {
+    this.reserve(data.length);
+    this.bytes.set(data, this.length);
+    this.length += data.length;
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.bytes.subarray(0, this.length));
+    this.bytes = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+class FrameReader {
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  u8(): number {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16(): number {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  i32(): number {
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  raw(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) throw new RangeError('frame_truncated');
+    const data = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return data;
+  }
+}
+
+function writeValue(writer: FrameWriter, kind: FieldKind, value: unknown): void {
+  if (kind === 'u32' || kind === 'i32') {
+    const [min, max] = kind === 'u32' ? [0, MAX_U32] : [-0x80000000, 0x7fffffff];
+    if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) throw new RangeError(kind);
+    if (kind === 'u32') writer.u32(value as number);
+    else writer.i32(value as number);
+  } else if (kind === 'f64') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new RangeError(kind);
+    writer.f64(value);
+  } else if (kind === 'bool') {
+    if (typeof value !== 'boolean') throw new RangeError(kind);
+    writer.u8(value ? 1 : 0);
+  } else if (kind === 'str') {
+    if (typeof value !== 'string') throw new RangeError(kind);
+    const data = textEncoder.encode(value);
+    if (data.length > MAX_U16) throw new RangeError(kind);
+    writer.u16(data.length);
+    writer.raw(data);
+  } else if ('oneOf' in kind) {
+    const index = kind.oneOf.indexOf(value as string | null);
+    if (index < 0) throw new RangeError('oneOf');
+    writer.u8(index);
+  } else if ('nullable' in kind) {
+    writer.u8(value === null ? 0 : 1);
+    if (value !== null) writeValue(writer, kind.nullable, value);
+  } else if ('record' in kind) {
+    writeRecord(writer, kind.record, value);
+  } else {
+    if (!Array.isArray(value) || value.length > MAX_U16) throw new RangeError('list');
+    writer.u16(value.length);
+    for (const entry of value) writeValue(writer, kind.list, entry);
+  }
+}
+
+function writeRecord(writer: FrameWriter, schema: RecordSchema, value: unknown): void {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new RangeError('record');
+  const record = value as Record<string, unknown>;
+
+  // Same fields JSON would carry: undefined ones are dropped, unknown ones don't fit.
+  let presence = 0;
+  schema.forEach(([name], index) => {
+    if (record[name] !== undefined) presence |= 1 << index;
+  });
+  for (const key of Object.keys(record)) {
+    if (record[key] !== undefined && !schema.some(([name]) => name === key)) throw new RangeError('unknown_field');
+  }
+
+  writer.u32(presence >>> 0);
+  schema.forEach(([name, kind], index) => {
+    if (presence & (1 << index)) writeValue(writer, kind, record[name]);
+  });
+}
+
+function readValue(reader: FrameReader, kind: FieldKind): unknown {
+  if (kind === 'u32') return reader.u32();
+  if (kind === 'i32') return reader.i32();
+  if (kind === 'f64') return reader.f64();
+  if (kind === 'bool') {
+    const flag = reader.u8();
+    if (flag > 1) throw new RangeError('bool');
+    return flag === 1;
+  }
+  if (kind === 'str') return textDecoder.decode(reader.raw(reader.u16()));
+  if ('oneOf' in kind) {
+    const index = reader.u8();
+    if (index >= kind.oneOf.length) throw new RangeError('oneOf');
+    return kind.oneOf[index];
+  }
+  if ('nullable' in kind) return reader.u8() === 0 ? null : readValue(reader, kind.nullable);
+  if ('record' in kind) return readRecord(reader, kind.record);
+
+  const length = reader.u16();
+  const list: unknown[] = [];
+  for (let i = 0; i < length; i += 1) list.push(readValue(reader, kind.list));
+  return list;
+}
+
+function readRecord(reader: FrameReader, schema: RecordSchema): Record<string, unknown> {
+  const presence = reader.u32();
+  if (schema.length < 32 && presence >>> schema.length !== 0) throw new RangeError('presence');
+
+  const record: Record<string, unknown> = {};
+  schema.forEach(([name, kind], index) => {
+    if (presence & (1 << index)) record[name] = readValue(reader, kind);
+  });
+  return record;
+}
+
+function encodeFrame<T extends { type: string }>(frames: ReadonlyArray<readonly [string, RecordSchema]>, msg: T): Uint8Array | null {
+  const tag = frames.findIndex(([type]) => type === msg.type);
+  if (tag < 0) return null;
+
+  const { type: _type, ...body } = msg;
+  const writer = new FrameWriter();
+  try {
+    writer.u8(tag + 1);
+    writeRecord(writer, frames[tag][1], body);
+  } catch {
+    return null;
+  }
+  return writer.finish();
+}
+
+function decodeFrame<T>(frames: ReadonlyArray<readonly [string, RecordSchema]>, data: Uint8Array): T | null {
+  try {
+    const reader = new FrameReader(data);
+    const frame = frames[reader.u8() - 1];
+    if (!frame) return null;
+    const body = readRecord(reader, frame[1]);
+    if (!reader.done) return null;
+    return { type: frame[0], ...body } as T;
+  } catch {
+    return null;
+  }
+}
+
+// Null when the message has no binary form or a value doesn't fit; send JSON instead.
+export function encodeServerFrame(msg: { type: string }): Uint8Array | null {
+  return encodeFrame(SERVER_FRAMES, msg);
+}
+
+export function decodeServerFrame(data: Uint8Array): MatchServerMessage | null {
+  return decodeFrame<MatchServerMessage>(SERVER_FRAMES, data);
+}
+
+export function encodeClientFrame(msg: { type: string }): Uint8Array | null {
+  return encodeFrame(CLIENT_FRAMES, msg);
+}
+
+export function decodeClientFrame(data: Uint8Array): MatchClientMessage | null {
+  return decodeFrame<MatchClientMessage>(CLIENT_FRAMES, data);
+}
@@ -1,9 +1,17 @@
+import type { ProtocolVersion, WireFormat } from '@shared/protocol';
+import { BINARY_WIRE_FORMAT, decodeServerFrame, encodeClientFrame } from './wireCodec';
 import type { WsClientMessage, WsServerMessage } from './wsTypes';
 
+// Offered in `hello`, preferred first. The server drops clients it shares none with.
+const PROTOCOL_VERSIONS: ProtocolVersion[] = ['match_v1'];
+const BUILD_ID = String(import.meta.env.VITE_BUILD_ID || 'dev');
+
 export type WsClientOptions = {
   url: string;
-  token: string;
-  onMessage?: (msg: WsServerMessage) => void;
+  token?: string;
+  devTgUserId?: string; // dev builds only: identity the server accepts outside production without a session
+  wire?: WireFormat; // requested on connect; the server confirms it in `connected`
+  onMessage?: (msg: WsServerMessage, sizeBytes: number) => void;
   onOpen?: () => void;
   onClose?: (event: CloseEvent) => void;
   onError?: (error: Event) => void;
@@ -11,6 +19,7 @@ export type WsClientOptions = {
 
 export class WsClient {
   private ws?: WebSocket;
+  private binaryWire = false;
 
   constructor(private opts: WsClientOptions) {}
 
@@ -18,17 +27,31 @@ export class WsClient {
     if (this.ws) return;
 
     const url = new URL(this.opts.url);
-    url.searchParams.set('token', this.opts.token);
+    if (this.opts.token) url.searchParams.set('token', this.opts.token);
+    if (this.opts.devTgUserId) url.searchParams.set('tgUserId', this.opts.devTgUserId);
+    url.searchParams.set('wire', this.opts.wire ?? 'json');
 
     this.ws = new WebSocket(url.toString(), []);
+    this.ws.binaryType = 'arraybuffer';
     this.ws.onopen = () => {
+      this.send({ type: 'hello', protocolVersions: PROTOCOL_VERSIONS, buildId: BUILD_ID });
       this.opts.onOpen?.();
     };
 
     this.ws.onmessage = (ev) => {
       try {
-        const msg = JSON.parse(ev.data as string) as WsServerMessage;
-        this.opts.onMessage?.(msg);
+        if (ev.data instanceof ArrayBuffer) {
+          const msg = decodeServerFrame(new Uint8Array(ev.data));
+          if (msg) this.opts.onMessage?.(msg, ev.data.byteLength);
+          return;
+        }
+
+        const raw = ev.data as string;
+        const msg = JSON.parse(raw) as WsServerMessage;
+        if (msg.type === 'connected') {
+          this.binaryWire = msg.wire === BINARY_WIRE_FORMAT;
+        }
+        this.opts.onMessage?.(msg, raw.length);
       } catch {
         // ignore malformed payloads
       }
@@ -36,6 +59,7 @@ export class WsClient {
 
     this.ws.onclose = (event) => {
       this.ws = undefined;
+      this.binaryWire = false;
       this.opts.onClose?.(event);
     };
 
@@ -47,10 +71,12 @@ export class WsClient {
   disconnect() {
     this.ws?.close();
     this.ws = undefined;
+    this.binaryWire = false;
   }
 
   send(msg: WsClientMessage) {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
-    this.ws.send(JSON.stringify(msg));
+    const frame = this.binaryWire ? encodeClientFrame(msg) : null;
+    this.ws.send(frame ?? JSON.stringify(msg));
   }
 }
@@ -1,19 +1,27 @@
-import type { MatchClientMessage, MatchServerMessage } from '@shared/protocol';
+import type { ClientHello, MatchClientMessage, MatchmakingClientMessage, MatchServerMessage, RoomRedirect, ServerDraining, ServerHello, UserNotice, WireFormat } from '@shared/protocol';
 
 export type WsClientMessage =
+  | ClientHello
   | { type: 'ping'; id: number; t: number }
   | { type: 'lobby:list' }
   | { type: 'room:create' }
   | { type: 'room:join'; roomId: string; tgUserId?: string }
+  | { type: 'room:spectate'; roomId: string; tgUserId?: string; password?: string; inviteId?: string }
   | { type: 'room:leave' }
-  | MatchClientMessage;
+  | MatchClientMessage
+  | MatchmakingClientMessage;
 
 export type WsServerMessage =
+  | { type: 'connected'; wire?: WireFormat }
+  | ServerHello
   | { type: 'pong'; id: number; t: number; serverNow: number }
   | { type: 'lobby:list'; rooms: Array<{ roomId: string; players: number }> }
   | { type: 'room:joined'; room: unknown }
   | { type: 'room:left' }
   | MatchServerMessage
+  | RoomRedirect
+  | ServerDraining
+  | UserNotice
   | { type: 'error'; error: string };
 
 export type WsTraceContext = {
@@ -37,6 +45,13 @@ export type WsInboundTraceEntry = WsTrafficEntryBase<WsServerMessage>;
 
 export type WsOutboundTraceEntry = WsTrafficEntryBase<WsClientMessage>;
 
+export type WsBandwidthStats = {
+  inboundBytesPerSec: number;
+  fullSnapshots: number;
+  deltaSnapshots: number;
+  resyncs: number;
+};
+
 export type WsDebugMetrics = {
   snapshotTick: number;
   lastAppliedSnapshotTick: number;
@@ -87,4 +102,7 @@ export type WsDebugMetrics = {
   netResyncReason: string | null;
   bombInputGated: boolean;
   bombGateReason: string | null;
+  ownBombsPlaced: number;
+  ownBombsRewound: number; // placed by server lag compensation on a cell we had already left
+  maxBombRewindTicks: number;
 };